@@ -0,0 +1,307 @@
+// 管理ページ（doGet）
+// ウェブアプリのURLをブラウザで開くと、動作状況を確認できる管理ページ（HtmlService）を表示する
+// 管理キー（?key=...）を指定した場合のみ表示し、それ以外は稼働確認の応答のみ返す
+// （ウェブアプリはデプロイしたユーザーとして匿名アクセスで実行されるため、アクセスしたGoogleアカウントは取得できない）
+// - トークンの有効性、処理対象のチャンネル、未完了・失敗したジョブ、登録済みのトリガー、直近のエラー
+// - ジョブの再実行・不要なトリガーの削除（google.script.run から呼び出し、サーバー側でも権限を確認する）
+
+/**
+ * 登録済みのトリガー（ハンドラー関数ごと）
+ */
+interface TriggerStatus {
+  handlerFunction: string;
+  count: number;
+  stale: boolean; // 削除してよいトリガーの場合はtrue
+}
+
+/**
+ * 管理ページに表示する動作状況
+ */
+interface AdminStatus {
+  botToken: TokenValidation;
+  userToken: TokenValidation;
+  channelName: string | null; // SLACK_CHANNEL_NAMEによる制限
+  channelPolicy: ChannelPolicy;
+  jobs: TranscriptionJob[]; // 投稿済みを除くジョブ
+  triggers: TriggerStatus[];
+  errors: string[][]; // Logsシートの直近のERROR行（新しい順）
+}
+
+// 管理キーを保存するプロパティキー
+const ADMIN_KEY_KEY = 'ADMIN_KEY';
+// 管理キーの最小の長さ
+const ADMIN_KEY_MIN_LENGTH = 16;
+// 表示する直近のエラーの件数
+const ADMIN_RECENT_ERROR_LIMIT = 20;
+// 管理ページ以外のアクセスへの応答
+const HEALTH_CHECK_RESPONSE = 'Slack Voice Converter is running!';
+
+/**
+ * 管理ページへのアクセスを設定する
+ * @param adminKey 管理キー（16文字以上、URLの?key=に指定する）
+ */
+function setupAdminAccess_(adminKey: string): void {
+  if (!adminKey || adminKey.length < ADMIN_KEY_MIN_LENGTH) {
+    throw new Error(`管理キーは${ADMIN_KEY_MIN_LENGTH}文字以上で指定してください`);
+  }
+
+  getServices_().properties.setProperty(ADMIN_KEY_KEY, adminKey);
+  logInfo_('管理ページへのアクセスを設定しました');
+}
+
+/**
+ * 管理ページにアクセスできるか判定する
+ * @param key リクエストの管理キー
+ */
+function isAdminAuthorized_(key: string | undefined): boolean {
+  const adminKey = getServices_().properties.getProperty(ADMIN_KEY_KEY);
+  return !!adminKey && !!key && safeEqual_(key, adminKey);
+}
+
+/**
+ * 管理ページの操作を実行する前に権限を確認する
+ * @param key 管理キー
+ * @throws Error 権限がない場合
+ */
+function assertAdminAuthorized_(key: string | undefined): void {
+  if (!isAdminAuthorized_(key)) {
+    logWarning_('⛔ 管理ページの操作を拒否しました');
+    throw new Error('権限がありません');
+  }
+}
+
+/**
+ * doGetのリクエストを処理する
+ * @param e doGetのイベントオブジェクト
+ * @returns 権限がある場合は管理ページ、ない場合は稼働確認の応答
+ */
+function handleAdminPageRequest_(
+  e: GoogleAppsScript.Events.DoGet | undefined
+): GoogleAppsScript.HTML.HtmlOutput | GoogleAppsScript.Content.TextOutput {
+  const key = e && e.parameter ? e.parameter['key'] : undefined;
+  if (!isAdminAuthorized_(key)) {
+    if (key) {
+      logWarning_('⛔ 管理ページへのアクセスを拒否しました');
+    }
+    return ContentService.createTextOutput(HEALTH_CHECK_RESPONSE);
+  }
+
+  logInfo_('管理ページを表示します');
+  return HtmlService.createHtmlOutput(renderAdminPage_(collectAdminStatus_(), key || ''))
+    .setTitle('Slack Voice Converter');
+}
+
+/**
+ * 管理ページに表示する動作状況を集める
+ */
+function collectAdminStatus_(): AdminStatus {
+  const scriptProperties = getServices_().properties;
+  const validate = (key: string, tokenType: string): TokenValidation => {
+    const token = scriptProperties.getProperty(key);
+    return token ? validateToken_(token, tokenType) : { ok: false, error: '未設定' };
+  };
+
+  let errors: string[][] = [];
+  try {
+    errors = getServices_().logSink.getRows()
+      .filter(row => row[1] === 'ERROR')
+      .slice(-ADMIN_RECENT_ERROR_LIMIT)
+      .reverse();
+  } catch (error) {
+    logWarning_(`ログを読み込めませんでした: ${error}`);
+  }
+
+  return {
+    botToken: validate('SLACK_BOT_TOKEN', 'ボット'),
+    userToken: validate('SLACK_USER_TOKEN', 'ユーザー'),
+    channelName: scriptProperties.getProperty('SLACK_CHANNEL_NAME'),
+    channelPolicy: getChannelPolicy_(),
+    jobs: listTranscriptionJobs_().filter(job => job.state !== 'posted'),
+    triggers: getTriggerStatuses_(),
+    errors
+  };
+}
+
+/**
+ * 登録済みのトリガーをハンドラー関数ごとに集計する
+ * 次のトリガーは削除してよいものとして扱う
+ * - 存在しない関数・旧バージョンの関数（retryTranscriptionCheck）のトリガー
+ * - 未完了のジョブがないのに残っているディスパッチャー
+ * - 重複して登録されたログのローテーション
+ */
+function getTriggerStatuses_(): TriggerStatus[] {
+  const counts: { [handlerFunction: string]: number } = {};
+  for (const handlerFunction of getServices_().triggers.getHandlerFunctions()) {
+    counts[handlerFunction] = (counts[handlerFunction] || 0) + 1;
+  }
+
+  const hasPendingJobs = listTranscriptionJobs_().some(job => job.state === 'queued' || job.state === 'polling');
+  return Object.keys(counts).sort().map(handlerFunction => {
+    const count = counts[handlerFunction];
+    let stale: boolean;
+    if (handlerFunction === TRANSCRIPTION_DISPATCHER_HANDLER) {
+      stale = !hasPendingJobs;
+    } else if (handlerFunction === LOG_ROTATION_HANDLER) {
+      stale = count > 1;
+    } else {
+      stale = handlerFunction === 'retryTranscriptionCheck' || typeof (globalThis as { [key: string]: unknown })[handlerFunction] !== 'function';
+    }
+    return { handlerFunction, count, stale };
+  });
+}
+
+/**
+ * 不要なトリガーを削除する
+ * 重複したログのローテーションは1件に登録し直す
+ * @returns 削除したトリガーの件数
+ */
+function clearStaleTriggers_(): number {
+  let deleted = 0;
+  for (const trigger of getTriggerStatuses_().filter(status => status.stale)) {
+    deleted += getServices_().triggers.deleteByHandler(trigger.handlerFunction);
+    if (trigger.handlerFunction === LOG_ROTATION_HANDLER) {
+      setupLogRotation_();
+      deleted--;
+    }
+  }
+  logInfo_(`不要なトリガーを削除しました: ${deleted}件`);
+  return deleted;
+}
+
+/**
+ * 管理ページからジョブを再実行する（google.script.run から呼び出す）
+ * @param key 管理キー
+ * @param fileId ファイルID
+ * @returns 結果のメッセージ
+ */
+function adminRetryTranscriptionJob(key: string, fileId: string): string {
+  return runWithLogging_('admin', () => {
+    assertAdminAuthorized_(key);
+    return retryTranscriptionJob_(fileId)
+      ? `ジョブを再実行しました: ${fileId}`
+      : `ジョブが見つかりません: ${fileId}`;
+  });
+}
+
+/**
+ * 管理ページから不要なトリガーを削除する（google.script.run から呼び出す）
+ * @param key 管理キー
+ * @returns 結果のメッセージ
+ */
+function adminClearStaleTriggers(key: string): string {
+  return runWithLogging_('admin', () => {
+    assertAdminAuthorized_(key);
+    return `不要なトリガーを削除しました: ${clearStaleTriggers_()}件`;
+  });
+}
+
+/**
+ * 管理ページのHTMLを組み立てる
+ * @param status 動作状況
+ * @param key 管理キー（操作の呼び出しに付与する）
+ */
+function renderAdminPage_(status: AdminStatus, key: string): string {
+  const token = (label: string, validation: TokenValidation) =>
+    `<tr><th>${label}</th><td>${validation.ok
+      ? `✅ 有効（チーム=${escapeHtml_(validation.team || '')}, ユーザー=${escapeHtml_(validation.user || '')}）`
+      : `❌ ${escapeHtml_(validation.error || '無効')}`}</td></tr>`;
+
+  const policy = status.channelPolicy;
+  const list = (values: string[]) => (values.length > 0 ? escapeHtml_(values.join(', ')) : '（なし）');
+  const overrides = Object.keys(policy.overrides);
+
+  const jobs = status.jobs.map(job => `<tr>
+      <td>${escapeHtml_(job.fileId)}</td>
+      <td>${escapeHtml_(job.state)}</td>
+      <td>${escapeHtml_(job.channelId)}</td>
+      <td>${job.retryCount}</td>
+      <td>${formatAdminDate_(job.nextAttemptAt)}</td>
+      <td>${formatAdminDate_(getTranscriptionJobDeadline_(job))}</td>
+      <td>${escapeHtml_(job.lastError || '')}</td>
+      <td><button onclick="run('adminRetryTranscriptionJob', ${escapeHtml_(JSON.stringify(job.fileId))})">再実行</button></td>
+    </tr>`);
+
+  const triggers = status.triggers.map(trigger =>
+    `<tr><td>${escapeHtml_(trigger.handlerFunction)}</td><td>${trigger.count}</td><td>${trigger.stale ? '⚠️ 不要' : ''}</td></tr>`);
+
+  const errors = status.errors.map(row =>
+    `<tr><td>${escapeHtml_(row[0])}</td><td>${escapeHtml_(row[2] || '')}</td><td>${escapeHtml_(row[3])}</td></tr>`);
+
+  const table = (header: string[], rows: string[]) => rows.length > 0
+    ? `<table><tr>${header.map(label => `<th>${label}</th>`).join('')}</tr>${rows.join('')}</table>`
+    : '<p>（なし）</p>';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<base target="_top">
+<style>
+  body { font-family: sans-serif; margin: 24px; }
+  table { border-collapse: collapse; margin-bottom: 16px; }
+  th, td { border: 1px solid #ddd; padding: 4px 8px; text-align: left; font-size: 13px; }
+  th { background: #f3f3f3; }
+</style>
+</head>
+<body>
+<h1>🎤 Slack Voice Converter</h1>
+<p id="result"></p>
+
+<h2>トークン</h2>
+<table>${token('ボットトークン', status.botToken)}${token('ユーザートークン', status.userToken)}</table>
+
+<h2>チャンネル</h2>
+<table>
+  <tr><th>チャンネル名の制限</th><td>${status.channelName ? escapeHtml_(status.channelName) : '（すべて）'}</td></tr>
+  <tr><th>許可</th><td>${policy.allow.length > 0 ? list(policy.allow) : '（すべて）'}</td></tr>
+  <tr><th>拒否</th><td>${list(policy.deny)}</td></tr>
+  <tr><th>DM</th><td>${policy.allowDirectMessages ? '処理する' : '処理しない'}</td></tr>
+  <tr><th>プライベートチャンネル</th><td>${policy.allowPrivateChannels ? '処理する' : '処理しない'}</td></tr>
+  <tr><th>チャンネル別の設定</th><td>${list(overrides)}</td></tr>
+</table>
+
+<h2>ジョブ（${status.jobs.length}件）</h2>
+${table(['ファイルID', '状態', 'チャンネル', '試行回数', '次回チェック', '期限', 'エラー', ''], jobs)}
+
+<h2>トリガー</h2>
+${table(['関数', '件数', ''], triggers)}
+<button onclick="run('adminClearStaleTriggers')">不要なトリガーを削除</button>
+
+<h2>直近のエラー</h2>
+${table(['日時', '相関ID', 'メッセージ'], errors)}
+
+<script>
+  var ADMIN_KEY = ${JSON.stringify(key).replace(/</g, '\\u003c')};
+  function run(name) {
+    var args = [ADMIN_KEY].concat(Array.prototype.slice.call(arguments, 1));
+    var result = document.getElementById('result');
+    result.textContent = '実行中...';
+    var runner = google.script.run
+      .withSuccessHandler(function (message) { result.textContent = message + '（再読み込みすると最新の状態を表示します）'; })
+      .withFailureHandler(function (error) { result.textContent = 'エラー: ' + error.message; });
+    runner[name].apply(runner, args);
+  }
+</script>
+</body>
+</html>`;
+}
+
+/**
+ * 管理ページに表示する日時
+ * @param time エポックミリ秒
+ */
+function formatAdminDate_(time: number): string {
+  return time ? new Date(time).toISOString().replace('T', ' ').substring(0, 19) : '';
+}
+
+/**
+ * HTMLの特殊文字をエスケープする
+ * @param text エスケープする文字列
+ */
+function escapeHtml_(text: string): string {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
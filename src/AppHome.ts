@@ -0,0 +1,200 @@
+// App Home
+// app_home_openedイベントでユーザーごとのホームタブ（views.publish）を公開する
+// 個人設定の切り替えと、最近の文字起こし履歴（失敗したものは再実行可能）を表示する
+
+// 自動文字起こしを切り替えるボタン
+const TOGGLE_AUTO_TRANSCRIBE_ACTION_ID = 'toggle_auto_transcribe';
+// 元ファイルの削除を切り替えるボタン
+const TOGGLE_DELETE_ORIGINAL_ACTION_ID = 'toggle_delete_original';
+// 文字起こしを再実行するボタン
+const RETRY_TRANSCRIPTION_ACTION_ID = 'retry_transcription';
+
+/**
+ * app_home_openedイベントを処理する
+ * @param event イベントデータ
+ */
+function handleAppHomeOpened_(event: any): void {
+  if (event.tab && event.tab !== 'home') {
+    return;
+  }
+  publishAppHome_(event.user);
+}
+
+/**
+ * ユーザーのホームタブを公開する
+ * @param userId SlackのユーザーID
+ */
+function publishAppHome_(userId: string): void {
+  try {
+    slackPublishView_(userId, buildAppHomeView_(userId));
+    logInfo_(`App Homeを公開しました: ${userId}`);
+  } catch (error) {
+    logError_(`App Homeの公開エラー: ${error}`);
+  }
+}
+
+/**
+ * ホームタブのビューを組み立てる
+ * @param userId SlackのユーザーID
+ */
+function buildAppHomeView_(userId: string): { [key: string]: any } {
+  const preferences = getUserPreferences_(userId);
+  const autoTranscribe = preferences.autoTranscribe !== false;
+  const deleteOriginal = preferences.deleteOriginal !== false;
+
+  const blocks: any[] = [
+    { type: 'header', text: { type: 'plain_text', text: '🎤 ボイスメモ文字起こし' } },
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: `*自動文字起こし:* ${autoTranscribe ? 'オン' : 'オフ'}` },
+      accessory: {
+        type: 'button',
+        action_id: TOGGLE_AUTO_TRANSCRIBE_ACTION_ID,
+        text: { type: 'plain_text', text: autoTranscribe ? 'オフにする' : 'オンにする' }
+      }
+    },
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: `*元ファイルの削除:* ${deleteOriginal ? 'オン' : 'オフ'}` },
+      accessory: {
+        type: 'button',
+        action_id: TOGGLE_DELETE_ORIGINAL_ACTION_ID,
+        text: { type: 'plain_text', text: deleteOriginal ? 'オフにする' : 'オンにする' }
+      }
+    },
+    {
+      type: 'context',
+      elements: [{
+        type: 'mrkdwn',
+        text: `投稿方法: ${preferences.postingStrategy || 'チャンネルの設定に従う'} ／ 言語: ${preferences.language || 'チャンネルの設定に従う'} ／ 翻訳: ${formatTranslationPreference_(preferences.translateTo)}（\`/transcribe settings\`で変更）`
+      }]
+    },
+    { type: 'divider' },
+    { type: 'header', text: { type: 'plain_text', text: '最近の文字起こし' } }
+  ];
+
+  const history = getTranscriptHistory_(userId);
+  if (history.length === 0) {
+    blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: 'まだ文字起こしの履歴はありません。' }] });
+  }
+  for (const record of history) {
+    blocks.push(buildTranscriptRecordBlock_(record));
+  }
+
+  return { type: 'home', blocks };
+}
+
+/**
+ * 履歴1件分のブロックを組み立てる
+ * @param record 文字起こしの記録
+ */
+function buildTranscriptRecordBlock_(record: TranscriptRecord): any {
+  const seconds = Math.floor(record.createdAt / 1000);
+  const details = [
+    `<#${record.channelId}>`,
+    `<!date^${seconds}^{date_short_pretty} {time}|${new Date(record.createdAt).toISOString()}>`
+  ];
+  if (record.postedTs) {
+    details.push(`<${buildMessageLink_(record.channelId, record.postedTs)}|投稿を開く>`);
+  }
+  if (record.restoredAt) {
+    details.push(':leftwards_arrow_with_hook: 元の音声を復元済み');
+  }
+
+  const lines = [
+    `*${escapeMrkdwn_(record.fileNames.join(', '))}*  ${TRANSCRIPT_STATUS_LABELS[record.status]}`,
+    details.join(' · ')
+  ];
+  if (record.error) {
+    lines.push(escapeMrkdwn_(record.error));
+  }
+
+  const block: any = { type: 'section', text: { type: 'mrkdwn', text: lines.join('\n') } };
+  if (canRetryTranscriptRecord_(record)) {
+    block.accessory = {
+      type: 'button',
+      action_id: RETRY_TRANSCRIPTION_ACTION_ID,
+      value: record.id,
+      text: { type: 'plain_text', text: '再実行' }
+    };
+  }
+  return block;
+}
+
+/**
+ * ホームタブのボタン操作を処理する
+ * @param userId 操作したユーザーのID
+ * @param action 操作されたボタン
+ * @returns ホームタブのボタンだった場合はtrue
+ */
+function handleAppHomeAction_(userId: string, action: { action_id: string; value?: string }): boolean {
+  if (action.action_id === TOGGLE_AUTO_TRANSCRIBE_ACTION_ID) {
+    setUserPreferences_(userId, { autoTranscribe: !isAutoTranscriptionEnabled_(userId) });
+  } else if (action.action_id === TOGGLE_DELETE_ORIGINAL_ACTION_ID) {
+    setUserPreferences_(userId, { deleteOriginal: getUserPreferences_(userId).deleteOriginal === false });
+  } else if (action.action_id === RETRY_TRANSCRIPTION_ACTION_ID && action.value) {
+    retryTranscriptRecord_(userId, action.value);
+  } else {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 履歴のボイスメモを再実行できるか判定する
+ * 依頼者のみに表示した結果は、response_urlの期限が切れておりチャンネルに公開されるため再実行しない
+ * @param record 履歴の記録
+ */
+function canRetryTranscriptRecord_(record: TranscriptRecord): boolean {
+  return (record.status === 'failed' || record.status === 'partial') && !record.ephemeral;
+}
+
+/**
+ * 履歴のボイスメモを再度文字起こしする
+ * ジョブキューに登録し、結果はチャンネルに投稿する（元のファイルは最初の依頼と同じく削除しない場合は残す）
+ * @param userId 操作したユーザーのID（本人の履歴のみ再実行できる）
+ * @param recordId 記録のID
+ */
+function retryTranscriptRecord_(userId: string, recordId: string): void {
+  const record = findTranscriptRecord_(userId, recordId);
+  if (!record) {
+    logWarning_(`再実行する履歴が見つかりません: ${recordId}`);
+    return;
+  }
+  if (!canRetryTranscriptRecord_(record)) {
+    logWarning_(`再実行できない履歴です: ${recordId}`);
+    return;
+  }
+
+  if (record.fileIds.some(fileId => isTranscriptionJobActive_(getTranscriptionJob_(fileId)))) {
+    logInfo_(`すでに文字起こし中のため再実行しません: ${recordId}`);
+    return;
+  }
+
+  const files = record.fileIds
+    .map(fileId => getFileInfo_(fileId))
+    .filter((file): file is SlackFile => !!file);
+  if (files.length === 0) {
+    record.status = 'failed';
+    record.error = 'ファイルが見つからないため再実行できません';
+    record.updatedAt = Date.now();
+    saveTranscriptRecord_(record);
+    return;
+  }
+
+  // ボタン操作の応答期限（3秒）に間に合うよう、文字起こしはジョブキューに任せる
+  const target: PostTarget = {
+    channelId: record.channelId,
+    timestamp: record.messageTs,
+    threadTs: record.threadTs,
+    teamId: record.teamId,
+    userId: record.userId,
+    keepOriginal: record.keepOriginal
+  };
+  const fileIds = files.map(file => file.id);
+  for (const file of files) {
+    enqueueTranscriptionJob_(file.id, target, fileIds, false, file.duration_ms);
+  }
+  recordTranscriptProcessing_(target, files);
+  logInfo_(`文字起こしの再実行を受け付けました: ${fileIds.join(', ')}`);
+}
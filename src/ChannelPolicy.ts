@@ -0,0 +1,195 @@
+// チャンネルポリシー
+// 処理対象とするチャンネルの許可・拒否リストと、チャンネルごとの動作設定を管理する
+// パターンはチャンネルID（C0123...）またはチャンネル名（times-* のようにワイルドカード可）で指定する
+
+/**
+ * チャンネルごとに上書きできる設定
+ */
+interface ChannelSettings {
+  deleteOriginal?: boolean; // 文字起こし後に元のファイルを削除するか
+  postingStrategy?: PostingStrategy; // 投稿方法
+  language?: string; // 音声の言語（例: ja、en）
+  translateTo?: string; // 翻訳先の言語（例: en）
+}
+
+/**
+ * チャンネルポリシー
+ */
+interface ChannelPolicy {
+  allow: string[]; // 空の場合はすべてのチャンネルを許可
+  deny: string[];
+  allowDirectMessages: boolean; // DM・グループDMを処理するか
+  allowPrivateChannels: boolean; // プライベートチャンネルを処理するか
+  overrides: { [pattern: string]: ChannelSettings };
+}
+
+/**
+ * 名前解決済みのチャンネル情報
+ */
+interface ResolvedChannel {
+  id: string;
+  name: string | null;
+  isPrivate: boolean;
+  isDirectMessage: boolean;
+  unresolved?: boolean; // conversations.infoで確認できなかった場合はtrue
+}
+
+/**
+ * ポリシーの判定結果
+ */
+interface ChannelPolicyDecision {
+  allowed: boolean;
+  reason?: string;
+  channel: ResolvedChannel;
+  settings: ChannelSettings;
+}
+
+// ポリシーを保存するプロパティキー
+const CHANNEL_POLICY_KEY = 'CHANNEL_POLICY';
+// チャンネル情報のキャッシュ期間（6時間、CacheServiceの上限）
+const CHANNEL_INFO_CACHE_SECONDS = 6 * 60 * 60;
+
+/**
+ * チャンネルポリシーを取得する
+ * 許可リストが未設定の場合は、従来のSLACK_CHANNEL_NAMEを許可リストとして扱う
+ * @returns チャンネルポリシー
+ */
+function getChannelPolicy_(): ChannelPolicy {
+  const scriptProperties = getServices_().properties;
+  const json = scriptProperties.getProperty(CHANNEL_POLICY_KEY);
+
+  let stored: Partial<ChannelPolicy> = {};
+  if (json) {
+    try {
+      stored = JSON.parse(json);
+    } catch (error) {
+      logError_(`チャンネルポリシーの形式が不正です: ${error}`);
+    }
+  }
+
+  const policy: ChannelPolicy = {
+    allow: stored.allow || [],
+    deny: stored.deny || [],
+    allowDirectMessages: stored.allowDirectMessages !== false,
+    allowPrivateChannels: stored.allowPrivateChannels !== false,
+    overrides: stored.overrides || {}
+  };
+
+  const legacyChannelName = scriptProperties.getProperty('SLACK_CHANNEL_NAME');
+  if (policy.allow.length === 0 && legacyChannelName) {
+    policy.allow = [legacyChannelName];
+  }
+
+  return policy;
+}
+
+/**
+ * チャンネルポリシーを保存する
+ * @param policy 保存するポリシー（省略した項目は既定値）
+ */
+function setChannelPolicy_(policy: Partial<ChannelPolicy>): void {
+  getServices_().properties.setProperty(CHANNEL_POLICY_KEY, JSON.stringify(policy));
+  logInfo_(`チャンネルポリシーを保存しました: 許可=${(policy.allow || []).join(',') || 'すべて'}, 拒否=${(policy.deny || []).join(',') || 'なし'}`);
+}
+
+/**
+ * チャンネル情報を取得する（CacheServiceにキャッシュ）
+ * @param channelId チャンネルID
+ * @param channelType イベントに含まれるchannel_type（channel / group / im / mpim）
+ * @returns 名前解決済みのチャンネル情報
+ */
+function resolveChannel_(channelId: string, channelType?: string): ResolvedChannel {
+  // DMは名前を持たないため、APIを呼ばずに判定する
+  if (channelType === 'im' || channelType === 'mpim') {
+    return { id: channelId, name: null, isPrivate: true, isDirectMessage: true };
+  }
+
+  const cache = getServices_().cache;
+  const cacheKey = `channel_info_${channelId}`;
+  const cached = cache.get(cacheKey);
+  if (cached) {
+    return JSON.parse(cached) as ResolvedChannel;
+  }
+
+  try {
+    const channel = getChannelInfo_(channelId);
+    const resolved: ResolvedChannel = {
+      id: channelId,
+      name: channel.name || null,
+      isPrivate: !!channel.is_private || channelType === 'group',
+      isDirectMessage: !!channel.is_im || !!channel.is_mpim
+    };
+    cache.put(cacheKey, JSON.stringify(resolved), CHANNEL_INFO_CACHE_SECONDS);
+    return resolved;
+  } catch (error) {
+    // 名前を解決できない場合はIDのみで判定する
+    logWarning_(`チャンネル名を解決できませんでした: ${channelId}`);
+    return { id: channelId, name: null, isPrivate: channelType === 'group', isDirectMessage: false, unresolved: true };
+  }
+}
+
+/**
+ * チャンネルがパターンに一致するか判定する
+ * @param channel チャンネル情報
+ * @param pattern チャンネルID、チャンネル名（#は省略可）、またはワイルドカード（*）を含む名前
+ */
+function matchesChannelPattern_(channel: ResolvedChannel, pattern: string): boolean {
+  const normalized = pattern.trim().replace(/^#/, '');
+  if (!normalized) return false;
+  if (normalized === channel.id) return true;
+  if (!channel.name) return false;
+
+  const regex = new RegExp(
+    '^' + normalized.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$'
+  );
+  return regex.test(channel.name);
+}
+
+/**
+ * チャンネルが処理対象か判定し、適用する設定を返す
+ * @param channelId チャンネルID
+ * @param channelType イベントに含まれるchannel_type
+ * @returns 判定結果
+ */
+function evaluateChannelPolicy_(channelId: string, channelType?: string): ChannelPolicyDecision {
+  const policy = getChannelPolicy_();
+  const channel = resolveChannel_(channelId, channelType);
+
+  // 一致するパターンの設定を定義順に重ねる
+  let settings: ChannelSettings = {};
+  for (const pattern of Object.keys(policy.overrides)) {
+    if (matchesChannelPattern_(channel, pattern)) {
+      settings = { ...settings, ...policy.overrides[pattern] };
+    }
+  }
+
+  const deny = (reason: string): ChannelPolicyDecision => ({ allowed: false, reason, channel, settings });
+
+  if (channel.isDirectMessage) {
+    if (!policy.allowDirectMessages) return deny('DMは処理対象外です');
+    return { allowed: true, channel, settings };
+  }
+
+  if (channel.isPrivate && !policy.allowPrivateChannels) {
+    return deny('プライベートチャンネルは処理対象外です');
+  }
+
+  if (policy.deny.some(pattern => matchesChannelPattern_(channel, pattern))) {
+    return deny('拒否リストに含まれています');
+  }
+
+  if (policy.allow.length > 0 && !policy.allow.some(pattern => matchesChannelPattern_(channel, pattern))) {
+    return deny('許可リストに含まれていません');
+  }
+
+  return { allowed: true, channel, settings };
+}
+
+/**
+ * チャンネルに適用する設定を取得する
+ * @param channelId チャンネルID
+ * @returns チャンネル別の設定（該当なしの場合は空）
+ */
+function getChannelSettings_(channelId: string): ChannelSettings {
+  return evaluateChannelPolicy_(channelId).settings;
+}
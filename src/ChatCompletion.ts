@@ -0,0 +1,50 @@
+// OpenAI互換のChat Completions API
+// 要約（Summarizer.ts）と翻訳（Translation.ts）で共通に使用する（ローカルのモデルサーバーも可）
+
+/**
+ * Chat Completions APIの設定
+ */
+interface ChatCompletionConfig {
+  baseUrl: string; // 末尾の/を除いたベースURL（例: https://api.openai.com/v1）
+  apiKey: string | null;
+  model: string;
+}
+
+/**
+ * システムプロンプトと入力を送信し、モデルの応答を取得する
+ * @param config APIの設定
+ * @param systemPrompt システムプロンプト
+ * @param content ユーザーの入力
+ * @returns モデルの応答（応答がない場合は空文字）
+ * @throws Error ステータスコードが200以外の場合
+ */
+function requestChatCompletion_(config: ChatCompletionConfig, systemPrompt: string, content: string): string {
+  const headers: { [key: string]: string } = {};
+  if (config.apiKey) {
+    headers['Authorization'] = `Bearer ${config.apiKey}`;
+  }
+
+  const response = getServices_().http.fetch(`${config.baseUrl}/chat/completions`, {
+    method: 'post',
+    contentType: 'application/json',
+    headers: headers,
+    payload: JSON.stringify({
+      model: config.model,
+      temperature: 0,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content }
+      ]
+    }),
+    muteHttpExceptions: true
+  });
+
+  const responseCode = response.getResponseCode();
+  if (responseCode !== 200) {
+    throw new Error(`ステータスコード ${responseCode}`);
+  }
+
+  const responseData = JSON.parse(response.getContentText());
+  const choice = responseData.choices && responseData.choices[0];
+  return choice && choice.message ? String(choice.message.content || '') : '';
+}
@@ -10,18 +10,19 @@
 interface SlackConfig {
   token: string;
   userToken: string; // ユーザートークン（メッセージの削除に必要）
-  channelName: string;
+  channelName: string | null; // 未設定の場合はチャンネルポリシーに従う
 }
 
 /**
  * テスト用の模擬的なイベントを生成する関数
  */
-function testWithMockEvent(): void {
+function testWithMockEvent_(): void {
   // ファイル共有イベントのモック
   const mockEventFileShare = {
     postData: {
       contents: JSON.stringify({
-        token: "test_token",
+        // Verification Tokenが設定されている場合は検証を通過させるため同じ値を使用
+        token: getServices_().properties.getProperty('SLACK_VERIFICATION_TOKEN') || "test_token",
         team_id: "test_team",
         api_app_id: "test_app",
         event: {
@@ -44,14 +45,14 @@ function testWithMockEvent(): void {
     }
   } as GoogleAppsScript.Events.DoPost;
   
-  logInfo('テスト用のモックイベントでdoPost関数を実行します');
+  logInfo_('テスト用のモックイベントでdoPost関数を実行します');
   
   try {
     // doPost関数を呼び出す
     doPost(mockEventFileShare);
-    logInfo('モックイベントの処理が完了しました');
+    logInfo_('モックイベントの処理が完了しました');
   } catch (error) {
-    logError(`モックイベント処理エラー: ${error}`);
+    logError_(`モックイベント処理エラー: ${error}`);
   }
 }
 
@@ -60,16 +61,16 @@ function testWithMockEvent(): void {
  * @returns Slack設定オブジェクト
  * @throws 設定が見つからない場合はエラー
  */
-function getSlackConfig(): SlackConfig {
-  const scriptProperties = PropertiesService.getScriptProperties();
+function getSlackConfig_(): SlackConfig {
+  const scriptProperties = getServices_().properties;
 
   const token = scriptProperties.getProperty('SLACK_BOT_TOKEN');
   const userToken = scriptProperties.getProperty('SLACK_USER_TOKEN');
   const channelName = scriptProperties.getProperty('SLACK_CHANNEL_NAME');
 
-  if (!token || !userToken || !channelName) {
+  if (!token || !userToken) {
     throw new Error(
-      'Slack設定が見つかりません。setupCredentials()関数を実行して設定を保存してください。'
+      'Slack設定が見つかりません。setupCredentials_()関数を実行して設定を保存してください。'
     );
   }
 
@@ -78,87 +79,140 @@ function getSlackConfig(): SlackConfig {
 
 /**
  * 改善されたイベントハンドリング
- * - 重複処理を防止するためのキー作成を改善
- * - file_sharedとmessage/file_shareイベントを正しく統合処理
+ * - 重複処理をevent_id・ファイルIDの台帳で防止（IdempotencyLedger.ts）
+ * - message/file_shareイベントで処理を始め、file_shared・file_changeイベントで文字起こしの完了を検出
  */
 function doPost(e: GoogleAppsScript.Events.DoPost): GoogleAppsScript.Content.TextOutput {
-  logInfo('🔍 doPost関数が呼び出されました');
+  // ログは処理の最後にまとめて書き込む（相関IDはイベントキーが分かった時点で設定する）
+  return runWithLogging_('', () => handleSlackRequest_(e));
+}
+
+/**
+ * Slackからのリクエスト（イベント・スラッシュコマンド・インタラクティビティ）を処理する
+ * @param e doPostのイベント
+ */
+function handleSlackRequest_(e: GoogleAppsScript.Events.DoPost): GoogleAppsScript.Content.TextOutput {
+  logInfo_('🔍 doPost関数が呼び出されました');
   
   try {
+    // スラッシュコマンド・インタラクティビティはJSONではなくフォーム形式で送信される
+    if (isSlashCommandRequest_(e)) {
+      return handleSlashCommandRequest_(e);
+    }
+    // ショートカットなどのインタラクティビティはpayloadフィールドにJSONが入っている
+    if (isInteractivityRequest_(e)) {
+      return handleInteractivityRequest_(e);
+    }
+    
     // 受信データ
     const data = JSON.parse(e.postData.contents);
     // 短縮版のログ（大きすぎる場合があるため）
-    logInfo(`🔍 受信データタイプ: ${data.type}, イベントタイプ: ${data.event?.type}, サブタイプ: ${data.event?.subtype}`);
+    logInfo_('🔍 リクエストを受信しました', { type: data.type, eventType: data.event?.type, subtype: data.event?.subtype });
+    
+    // リクエストの検証（署名またはVerification Token）
+    const verification = verifySlackRequest_(e, data);
+    if (!verification.ok) {
+      recordRejectedRequest_(verification);
+      return ContentService.createTextOutput('Unauthorized');
+    }
     
     // URL検証
     if (data.type === 'url_verification') {
-      logInfo('🔍 URL検証リクエストを処理します');
+      logInfo_('🔍 URL検証リクエストを処理します');
       return ContentService.createTextOutput(data.challenge);
     }
     
     // イベントなしは無視
     if (!data.event) {
-      logInfo('イベントデータがありません');
+      logInfo_('イベントデータがありません');
       return ContentService.createTextOutput('No event data');
     }
     
     // イベントの重複確認用キーを作成
-    const eventKey = createEventKey(data);
+    const eventKey = createEventKey_(data);
+    // 以降のログ（ジョブキュー経由の処理を含む）にイベントキーを付与する
+    setLogCorrelationId_(eventKey);
+    
+    // App Homeを開いたときはホームタブを公開する
+    if (data.event.type === 'app_home_opened') {
+      handleAppHomeOpened_(data.event);
+      return ContentService.createTextOutput('App home published');
+    }
     
-    // ボイスメモファイル共有処理（file_sharedイベント または message/file_shareイベント）
-    if (data.event.type === 'file_shared') {
-      logInfo('ファイル共有イベント（file_shared）を検出しました');
-      // このイベントはファイルIDのみを含む通知、実際の処理はあとでmessage/file_shareで行う
-      return ContentService.createTextOutput('File shared event received');
+    // ファイルの共有・更新イベント（file_shared / file_change）
+    if (data.event.type === 'file_shared' || data.event.type === 'file_change') {
+      const fileId = data.event.file_id || (data.event.file && data.event.file.id) || '';
+      logInfo_(`ファイルイベント（${data.event.type}）を検出しました: ${fileId}`);
+      // このイベントはファイルIDのみを含む通知、新しいボイスメモの処理はmessage/file_shareで行う
+      // ジョブキューで待機中のファイルであれば、文字起こしが完了したか確認する
+      if (fileId && handleTrackedFileEvent_(fileId)) {
+        return ContentService.createTextOutput('Transcription completed');
+      }
+      return ContentService.createTextOutput('File event received');
     } 
     else if (data.event.type === 'message' && data.event.subtype === 'file_share') {
-      logInfo('ファイル共有メッセージイベント（message/file_share）を検出しました');
+      logInfo_('ファイル共有メッセージイベント（message/file_share）を検出しました');
       
       // ファイル情報と音声ファイルの確認
       if (!data.event.files || data.event.files.length === 0) {
-        logInfo('ファイル情報が含まれていません');
+        logInfo_('ファイル情報が含まれていません');
         return ContentService.createTextOutput('No file information');
       }
       
-      const fileInfo = data.event.files[0];
-      logInfo(`ファイル情報: id=${fileInfo.id}, type=${fileInfo.filetype || 'unknown'}`);
+      logInfo_(`ファイル情報: ${data.event.files.map((file: any) => `id=${file.id}, type=${file.filetype || 'unknown'}`).join(' / ')}`);
       
-      // m4aまたはmp3、mp4などの音声ファイルのみ処理
-      if (!/^(m4a|mp3|mp4|wav|mpeg)$/i.test(fileInfo.filetype)) {
-        logInfo(`音声ファイルではありません: ${fileInfo.filetype}`);
+      // 音声ファイルが1件も含まれていない場合は処理しない
+      if (getAudioFiles_(data.event.files).length === 0) {
+        logInfo_('音声ファイルではありません');
         return ContentService.createTextOutput('Not an audio file');
       }
       
-      // 重複イベントのチェック
-      if (isDuplicateEvent(eventKey)) {
-        logInfo(`重複イベントを検出しました: ${eventKey}`);
-        return ContentService.createTextOutput('Duplicate event');
+      // チャンネルポリシーのチェック
+      const decision = evaluateChannelPolicy_(data.event.channel, data.event.channel_type);
+      if (!decision.allowed) {
+        logInfo_(`処理対象外のチャンネルです: ${decision.channel.name || decision.channel.id}（${decision.reason}）`);
+        return ContentService.createTextOutput('Channel not allowed');
+      }
+      
+      // 投稿者が自動文字起こしをオフにしている場合は処理しない
+      if (!isAutoTranscriptionEnabled_(data.event.user)) {
+        logInfo_(`投稿者が自動文字起こしをオフにしています: ${data.event.user}`);
+        return ContentService.createTextOutput('User opted out');
+      }
+      
+      // 重複イベントのチェック（再送・同時実行されたイベントには前回の結果を返す）
+      const idempotencyKeys = getEventIdempotencyKeys_(data, eventKey);
+      const claim = claimIdempotencyKeys_(idempotencyKeys);
+      if (!claim.claimed) {
+        const previous = claim.record.outcome || 'processing';
+        logInfo_(`重複イベントを検出しました: ${eventKey}（前回の結果: ${previous}）`);
+        return ContentService.createTextOutput(`Duplicate event (${previous})`);
       }
       
       // ボイスメモ処理の実行
-      processVoiceMemoWithDelay(data.event);
+      completeIdempotencyKeys_(idempotencyKeys, processVoiceMemoWithDelay_(data.event));
     }
     else {
-      logInfo(`サポート外のイベント: type=${data.event.type}, subtype=${data.event.subtype}`);
+      logInfo_(`サポート外のイベント: type=${data.event.type}, subtype=${data.event.subtype}`);
     }
   } catch (error) {
-    logError(`❌ doPost処理エラー: ${JSON.stringify(error)}`);
+    logError_(`❌ doPost処理エラー: ${JSON.stringify(error)}`);
   }
   
-  logInfo('🔍 doPost処理を完了しました');
+  logInfo_('🔍 doPost処理を完了しました');
   return ContentService.createTextOutput('Event received');
 }
 
-// イベントキー作成（重複検出用）の改善
-function createEventKey(data: any): string {
+// イベントキー作成（ログの相関ID、event_idがない場合の重複検出に使用）
+function createEventKey_(data: any): string {
   const event = data.event;
   let fileId = '';
   
   // ファイルIDの取得（イベントタイプによって位置が異なる）
-  if (event.type === 'file_shared') {
+  if (event.type === 'file_shared' || event.type === 'file_change') {
     fileId = event.file_id || (event.file && event.file.id) || '';
   } else if (event.type === 'message' && event.subtype === 'file_share') {
-    fileId = event.files && event.files.length > 0 ? event.files[0].id : '';
+    fileId = (event.files || []).map((file: any) => file.id).join('-');
   }
   
   const channelId = event.channel || event.channel_id || '';
@@ -168,235 +222,289 @@ function createEventKey(data: any): string {
   return `${fileId}_${channelId}_${userId}_${timestamp}`;
 }
 
-// 重複イベント検出（有効期限を30秒に短縮）
-function isDuplicateEvent(eventKey: string): boolean {
-  if (!eventKey) return false;
-  
-  const cache = CacheService.getScriptCache();
-  const cacheKey = `processed_event_${eventKey}`;
-  
-  if (cache.get(cacheKey)) {
-    return true;
-  }
-  
-  // 処理済みとしてマーク（30秒間有効 - 同一イベントの重複処理を防ぐ）
-  cache.put(cacheKey, 'processed', 30); 
-  return false;
+/**
+ * ファイル1件分の文字起こし結果（投稿前）
+ */
+interface FileTranscription {
+  fileId: string;
+  provider: string;
+  message: TranscriptMessage;
+  empty?: boolean; // 文字起こしは完了したが内容が空だった場合はtrue
 }
+
+// m4aまたはmp3、mp4などの音声ファイルのみ処理
+const AUDIO_FILETYPE_PATTERN = /^(m4a|mp3|mp4|wav|mpeg)$/i;
+
+/**
+ * メッセージに含まれるファイルのうち、音声ファイルを元の順序で取り出す
+ * @param files イベントに含まれるファイル一覧
+ * @returns 音声ファイルの一覧
+ */
+function getAudioFiles_(files: SlackFile[] | undefined): SlackFile[] {
+  return (files || []).filter(file => file && AUDIO_FILETYPE_PATTERN.test(file.filetype || ''));
+}
+
 /**
  * 遅延処理でトランスクリプトを再取得する
+ * メッセージ内の音声ファイルをそれぞれ文字起こしし、元の順序でまとめて1件の返信として投稿する
+ * @returns 処理の結果（冪等性の台帳に記録する）
  */
-function processVoiceMemoWithDelay(event: any): void {
+function processVoiceMemoWithDelay_(event: any): IdempotencyOutcome {
   try {
-    const fileId = event.files && event.files[0] && event.files[0].id;
     const channelId = event.channel;
     const timestamp = event.ts;
+    // スレッド内で投稿されたボイスメモの場合は親メッセージのtsを保持する
+    const threadTs = event.thread_ts && event.thread_ts !== event.ts ? event.thread_ts : undefined;
+    const target: PostTarget = { channelId, timestamp, threadTs, teamId: event.team, userId: event.user };
     
-    if (!fileId) {
-      logError("ファイルIDが見つかりません");
-      return;
-    }
-    
+    return transcribeVoiceMemo_(event.files, target);
+  } catch (error) {
+    logError_(`ボイスメモ処理エラー: ${JSON.stringify(error)}`);
+    return 'failed';
+  }
+}
+
+/**
+ * メッセージ内の音声ファイルを文字起こしし、すべて揃った時点でまとめて投稿する
+ * 処理中のファイルがある場合はジョブキューに登録する
+ * @param files メッセージに含まれるファイル一覧
+ * @param target 元メッセージの情報
+ * @returns 処理の結果
+ */
+function transcribeVoiceMemo_(files: SlackFile[] | undefined, target: PostTarget): IdempotencyOutcome {
+  const audioFiles = getAudioFiles_(files);
+  
+  if (audioFiles.length === 0) {
+    logError_("ファイルIDが見つかりません");
+    return 'skipped';
+  }
+  
+  // Slackネイティブの文字起こしを使用しない設定の場合は待たずに処理する
+  const usesSlack = getTranscriptionProviderNames_(target.teamId).indexOf('slack') !== -1;
+  
+  const groupFileIds: string[] = [];
+  const ready: FileTranscription[] = [];
+  const pendingFiles: SlackFile[] = [];
+  
+  for (const eventFile of audioFiles) {
     // まず初回チェック
-    const fileInfo = getFileInfo(fileId);
+    const file = getFileInfo_(eventFile.id);
     
-    if (!fileInfo || !fileInfo.file) {
-      logError("ファイル情報の取得に失敗しました");
-      return;
+    if (!file) {
+      logError_(`ファイル情報の取得に失敗しました: ${eventFile.id}`);
+      groupFileIds.push(eventFile.id);
+      ready.push(createFailedFileTranscription_(eventFile, 'ファイル情報の取得に失敗しました。'));
+      continue;
     }
     
-    const file = fileInfo.file;
-    
     // 音声ファイルであることを確認
     if (!file.mimetype || !(/^audio\/|^video\/|.*mp4$/.test(file.mimetype))) {
-      logInfo(`音声ファイルではありません: ${file.mimetype}`);
-      return;
+      logInfo_(`音声ファイルではありません: ${file.mimetype}`);
+      continue;
     }
     
-    logInfo('✅ 音声ファイルを検出しました');
+    logInfo_(`✅ 音声ファイルを検出しました: ${file.id}`);
+    groupFileIds.push(file.id);
     
     // トランスクリプションの状態を確認
-    if (file.transcription && file.transcription.status === 'complete') {
-      // すでに完了している場合は即時処理
-      useSlackTranscription(file, channelId, timestamp);
+    if (!usesSlack || isSlackTranscriptionSettled_(file)) {
+      // すでに完了（または失敗）している場合は即時処理
+      ready.push(transcribeFile_(file, target));
     } else {
-      // まだ処理中の場合は、ユーザーに処理中のメッセージを送信し、遅延処理をスケジュール
-      // postTranscription(channelId, "音声の文字起こしを処理中です。完了したら自動的に結果を投稿します。");
-      
-      // トリガーを設定して10秒後に再試行
-      ScriptApp.newTrigger('retryTranscriptionCheck')
-        .timeBased()
-        .after(10000) // 10秒後
-        .create();
-      
-      // 再試行に必要な情報をプロパティに保存
-      PropertiesService.getScriptProperties().setProperty(
-        'PENDING_TRANSCRIPTION', 
-        JSON.stringify({
-          fileId: fileId,
-          channelId: channelId,
-          timestamp: timestamp,
-          retryCount: 0,
-          maxRetries: 6 // 最大6回試行（計60秒）
-        })
-      );
+      pendingFiles.push(file);
     }
-  } catch (error) {
-    logError(`ボイスメモ処理エラー: ${JSON.stringify(error)}`);
   }
+  
+  if (groupFileIds.length === 0) {
+    return 'skipped';
+  }
+  
+  if (pendingFiles.length === 0) {
+    return publishFileTranscriptions_(target, ready) ? 'posted' : 'failed';
+  }
+  
+  // まだ処理中のファイルがある場合は、ジョブキューに登録してディスパッチャーに再チェックを任せる
+  // 処理済みのファイルの結果は保存しておき、すべて揃った時点でまとめて投稿する
+  recordTranscriptProcessing_(target, audioFiles.filter(file => groupFileIds.indexOf(file.id) !== -1));
+  for (const item of ready) {
+    saveFileTranscription_(item);
+    enqueueTranscriptionJob_(item.fileId, target, groupFileIds, true);
+  }
+  // 完了はfile_changeイベントで検出し、届かない場合は音声の長さに応じた期限までポーリングする
+  for (const file of pendingFiles) {
+    enqueueTranscriptionJob_(file.id, target, groupFileIds, false, file.duration_ms);
+  }
+  return 'queued';
 }
 
 /**
- * トランスクリプション再チェック関数
- * タイムトリガーから呼び出される
+ * Slackネイティブの文字起こしが完了または失敗しており、これ以上待つ必要がないか判定する
+ * @param file ファイル情報オブジェクト
  */
-function retryTranscriptionCheck(): void {
+function isSlackTranscriptionSettled_(file: SlackFile): boolean {
+  const status = file.transcription && file.transcription.status;
+  return status === 'complete' || status === 'failed';
+}
+
+/**
+ * ファイルを文字起こしする
+ * 設定されたプロバイダーのフォールバックチェーン（既定はSlackネイティブのみ）を使用する
+ * @param file ファイル情報オブジェクト
+ * @param target 元メッセージの情報（ワークスペース・チャンネル別の設定に使用）
+ * @returns 投稿用の文字起こし結果
+ */
+function transcribeFile_(file: SlackFile, target: PostTarget): FileTranscription {
+  logInfo_(`文字起こしプロバイダーを使用します: ${file.id}`);
+  
   try {
-    // 保存された情報を取得
-    const pendingDataStr = PropertiesService.getScriptProperties().getProperty('PENDING_TRANSCRIPTION');
-    if (!pendingDataStr) {
-      logError("再試行情報が見つかりません");
-      return;
+    // 投稿者の設定、チャンネル別の設定の順に優先する
+    const language = getUserPreferences_(target.userId).language || getChannelSettings_(target.channelId).language;
+    const result = transcribeWithFallback_(file, target.teamId, { language });
+    logInfo_(`文字起こし結果: プロバイダー=${result.provider}, 状態=${result.status}`);
+    
+    let text: string;
+    let empty = false;
+    let summary: TranscriptSummary | null = null;
+    let translation: TranscriptTranslation | null = null;
+    if (result.status === 'complete' || result.status === 'partial') {
+      const processed = applyTranscriptPostProcessing_(result.text);
+      empty = !processed.trim();
+      text = empty ? '文字起こしできる内容がありませんでした。' : processed;
+      // 全文を取得できた長いボイスメモは要約する
+      if (result.status === 'complete' && !empty) {
+        summary = summarizeTranscript_(processed);
+      }
+      // 翻訳先の言語が設定されている場合は翻訳する（元の言語は文字起こしのメタデータ、設定の順に判定する）
+      const translateTo = getTranslationLanguage_(target);
+      if (translateTo && !empty) {
+        translation = translateTranscript_(processed, result.language || language || null, translateTo);
+      }
+      logInfo_(`トランスクリプト内容: ${describeUserContent_(text, 'transcript')}`);
+    } else if (result.status === 'processing') {
+      // 元のファイルは残しておく（トランスクリプト完了後にSlack内で確認できるように）
+      logInfo_('トランスクリプションは処理中です。');
+      text = '音声の文字起こしは処理中です。しばらくするとSlack内でファイルのトランスクリプトが利用可能になります。';
+    } else if (result.status === 'failed') {
+      logInfo_(`文字起こしに失敗しました: ${result.error || '不明なエラー'}`);
+      text = '音声の文字起こしに失敗しました。';
+    } else {
+      logInfo_('このファイルにはトランスクリプション情報がありません。');
+      text = 'このファイルには文字起こし情報がありません。';
     }
     
-    const pendingData = JSON.parse(pendingDataStr);
-    const { fileId, channelId, timestamp, retryCount, maxRetries } = pendingData;
-    
-    logInfo(`トランスクリプション再チェック: ファイルID=${fileId}, 試行回数=${retryCount+1}/${maxRetries}`);
-    
-    // ファイル情報を再取得
-    const fileInfo = getFileInfo(fileId);
-    
-    if (!fileInfo || !fileInfo.file) {
-      logError("ファイル情報の再取得に失敗");
-      cleanupPendingTranscription();
-      return;
+    const message = createTranscriptMessage_(file, text, result.status);
+    if (summary) {
+      message.summary = summary;
     }
-    
-    const file = fileInfo.file;
-    
-    // トランスクリプションの状態を確認
-    if (file.transcription && file.transcription.status === 'complete') {
-      // 完了していたら処理実行
-      logInfo("トランスクリプション完了を検出、処理を実行します");
-      useSlackTranscription(file, channelId, timestamp);
-      
-      // 保存データをクリア
-      cleanupPendingTranscription();
-    } else if (retryCount >= maxRetries) {
-      // 最大試行回数に達した場合
-      logInfo("最大試行回数に達しました。最新の状態で処理を実行します");
-      useSlackTranscription(file, channelId, timestamp);
-      
-      // 保存データをクリア
-      cleanupPendingTranscription();
-    } else {
-      // まだ処理中の場合は再度スケジュール
-      PropertiesService.getScriptProperties().setProperty(
-        'PENDING_TRANSCRIPTION', 
-        JSON.stringify({
-          ...pendingData,
-          retryCount: retryCount + 1
-        })
-      );
-      
-      // 次の再試行をスケジュール
-      ScriptApp.newTrigger('retryTranscriptionCheck')
-        .timeBased()
-        .after(10000) // 10秒後
-        .create();
+    if (translation) {
+      message.translation = translation;
     }
+    return {
+      fileId: file.id,
+      provider: result.provider,
+      message,
+      empty
+    };
   } catch (error) {
-    logError(`再試行処理エラー: ${JSON.stringify(error)}`);
-    cleanupPendingTranscription();
+    logError_(`文字起こし処理エラー: ${error}`);
+    return createFailedFileTranscription_(file, '音声の文字起こしに失敗しました。');
   }
 }
 
 /**
- * 保留中のトランスクリプション情報をクリアする
+ * 失敗を表す文字起こし結果を作成する
+ * @param file ファイル情報オブジェクト（イベントに含まれる最小限の情報でもよい）
+ * @param text 表示するテキスト
  */
-function cleanupPendingTranscription(): void {
-  PropertiesService.getScriptProperties().deleteProperty('PENDING_TRANSCRIPTION');
-  
-  // 未使用のトリガーを全て削除
-  const triggers = ScriptApp.getProjectTriggers();
-  for (const trigger of triggers) {
-    if (trigger.getHandlerFunction() === 'retryTranscriptionCheck') {
-      ScriptApp.deleteTrigger(trigger);
-    }
-  }
+function createFailedFileTranscription_(file: SlackFile, text: string): FileTranscription {
+  return {
+    fileId: file.id,
+    provider: 'none',
+    message: createTranscriptMessage_(file, text, 'failed')
+  };
 }
 
 /**
- * Slackのトランスクリプト機能を使用
- * @param file ファイル情報オブジェクト
- * @param channelId チャンネルID
- * @param timestamp タイムスタンプ
+ * 文字起こし結果をまとめて1件のメッセージとして投稿し、完了したファイルを削除する
+ * @param target 元メッセージの情報（投稿方法に応じて投稿先を決定する）
+ * @param items 元の順序に並んだファイルごとの文字起こし結果
+ * @returns 投稿成功のブール値
  */
-function useSlackTranscription(file: any, channelId: string, timestamp: string): void {
-  logInfo('Slackのトランスクリプト機能を使用します');
-  let transcription = '文字起こしできる内容がありませんでした。';
+function publishFileTranscriptions_(target: PostTarget, items: FileTranscription[]): boolean {
+  const isTranscribed = (item: FileTranscription) =>
+    item.message.status === 'complete' || item.message.status === 'partial';
+  
+  // すべてのファイルが文字起こしできた場合のみ、元メッセージの置き換えを許可する
+  const final = items.length > 0 && items.every(isTranscribed);
+  const failedCount = items.filter(item => !isTranscribed(item)).length;
+  if (failedCount > 0) {
+    logWarning_(`文字起こしできなかったファイルがあります: ${failedCount}/${items.length}件`);
+  }
   
-  try {
-    // ファイルIDを保存（後で削除するため）
-    const fileId = file.id;
-    
-    // Slackのトランスクリプションチェック
-    if (file.transcription) {
-      logInfo(`Slackトランスクリプション状態: ${file.transcription.status}`);
-      
-      if (file.transcription.status === 'complete') {
-        // トランスクリプションが完了している場合
-        if (file.transcription.preview && file.transcription.preview.content) {
-          transcription = file.transcription.preview.content;
-          logInfo(`Slackトランスクリプト内容: ${transcription}`);
-          
-          // プレビューのみで一部の場合は完全版を取得
-          if (file.transcription.preview.has_more) {
-            logInfo('トランスクリプションの続きがあります。完全版を取得します。');
-            const fullTranscription = getFullTranscription(fileId);
-            
-            if (fullTranscription) {
-              transcription = fullTranscription;
-              logInfo(`完全版トランスクリプト取得成功: ${transcription.substring(0, 100)}${transcription.length > 100 ? '...' : ''}`);
-            } else {
-              transcription += " (続きがあります)";
-              logInfo('完全版トランスクリプトの取得に失敗しました。プレビュー版を使用します。');
-            }
-          }
-        } else {
-          logInfo('トランスクリプションが完了していますが、内容が見つかりません');
-        }
-        
-        // 文字起こし結果を投稿
-        postTranscription(channelId, transcription);
-        
-        // ファイルを削除
-        deleteFile(fileId);
-        
-      } else if (file.transcription.status === 'processing') {
-        // まだ処理中の場合は、処理中メッセージを送信
-        // 元のファイルは残しておく（トランスクリプト完了後にSlack内で確認できるように）
-        logInfo('トランスクリプションは処理中です。処理中メッセージを送信します。');
-        postTranscription(channelId, '音声の文字起こしは処理中です。しばらくするとSlack内でファイルのトランスクリプトが利用可能になります。');
-      } else if (file.transcription.status === 'failed') {
-        // 失敗した場合
-        logInfo('Slackのトランスクリプションが失敗しました。');
-        postTranscription(channelId, '音声の文字起こしに失敗しました。');
-      } else {
-        logInfo(`不明なトランスクリプション状態: ${file.transcription.status}`);
-        postTranscription(channelId, '文字起こし状態を確認できませんでした。');
-      }
-    } else {
-      logInfo('このファイルにはトランスクリプション情報がありません。');
-      postTranscription(channelId, 'このファイルには文字起こし情報がありません。');
+  // 文字起こし結果を投稿
+  const { result, rendered } = postFileTranscriptions_(target, items, final);
+  
+  // App Homeに表示する履歴を記録し、全文を検索用に保存する
+  recordTranscriptResult_(target, items, result);
+  storeTranscripts_(target, items, result);
+  
+  // スラッシュコマンド・ショートカットで文字起こしした場合は元のファイルを残す
+  if (target.keepOriginal) {
+    return result.ok;
+  }
+  
+  // ファイルを削除（チャンネル設定・投稿者の設定で無効化されている場合は残す）
+  // 文字起こしが完了して内容がある場合のみ、アーカイブしてから削除する
+  const keep = getChannelSettings_(target.channelId).deleteOriginal === false
+    || getUserPreferences_(target.userId).deleteOriginal === false;
+  const restorable: ArchivedVoiceMemo[] = [];
+  for (const item of items.filter(isTranscribed)) {
+    if (keep) {
+      logInfo_('チャンネル設定または投稿者の設定により元のファイルは削除しません');
+      continue;
     }
-    
-  } catch (error) {
-    logError(`Slackトランスクリプション処理エラー: ${error}`);
-    // エラーがあっても最低限の結果を投稿
-    postTranscription(channelId, transcription);
+    if (!canDeleteOriginal_(item)) {
+      logInfo_(`文字起こしが完了していない、または内容が空のため元のファイルは削除しません: ${item.fileId}`);
+      continue;
+    }
+    const archive = archiveBeforeDelete_(item, target);
+    if (!archive.ok) {
+      logWarning_(`アーカイブに失敗したため元のファイルは削除しません: ${item.fileId}`);
+      continue;
+    }
+    if (deleteFile_(item.fileId, target.userId) && archive.archived) {
+      restorable.push(archive.archived);
+    }
+  }
+  
+  // アーカイブから復元できるファイルがあれば、投稿に復元ボタンを追加する
+  if (restorable.length > 0 && result.ok && result.ts) {
+    offerVoiceMemoRestore_(target, result.ts, rendered, restorable);
   }
+  
+  return result.ok;
+}
+
+/**
+ * 文字起こし結果のメッセージを投稿する（要約がある場合は要約を投稿し、全文をスレッドに返信する）
+ * @param target 元メッセージの情報
+ * @param items ファイルごとの文字起こし結果
+ * @param final 文字起こしが完了した結果かどうか（replaceの適用に使用）
+ * @returns 投稿結果と投稿したメッセージ
+ */
+function postFileTranscriptions_(
+  target: PostTarget,
+  items: FileTranscription[],
+  final: boolean
+): { result: PublishResult; rendered: RenderedMessage } {
+  const messages = items.map(item => item.message);
+  const summarized = messages.some(message => !!message.summary);
+  const rendered = summarized ? renderTranscriptSummaryMessage_(messages) : renderTranscriptMessages_(messages);
+  const result = publishTranscription_(target, rendered, final);
+  if (summarized && result.ok && !publishFullTranscriptReply_(target, result, renderTranscriptMessages_(messages))) {
+    logWarning_('全文のスレッドへの投稿に失敗しました');
+  }
+  return { result, rendered };
 }
 
 /**
@@ -404,103 +512,59 @@ function useSlackTranscription(file: any, channelId: string, timestamp: string):
  * @param fileId ファイルID
  * @returns 完全なトランスクリプションテキスト、または失敗時はnull
  */
-function getFullTranscription(fileId: string): string | null {
-  logInfo(`ファイル ${fileId} の完全版トランスクリプションを取得します`);
-  
-  const SLACK_CONFIG = getSlackConfig();
-  
-  // Slack API files.info エンドポイントにトランスクリプションの全文を取得するパラメータを追加
-  const url = `https://slack.com/api/files.info?file=${fileId}&get_transcript=true`;
-  
-  const options: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {
-    method: 'get',
-    headers: {
-      'Authorization': `Bearer ${SLACK_CONFIG.token}`,
-      'Content-Type': 'application/json'
-    },
-    muteHttpExceptions: true
-  };
+function getFullTranscription_(fileId: string): string | null {
+  logInfo_(`ファイル ${fileId} の完全版トランスクリプションを取得します`);
   
   try {
-    const response = UrlFetchApp.fetch(url, options);
-    const responseCode = response.getResponseCode();
-    
-    if (responseCode !== 200) {
-      logError(`完全版トランスクリプション取得エラー: ステータスコード ${responseCode}`);
-      return null;
-    }
-    
-    const responseData = JSON.parse(response.getContentText());
-    
-    if (!responseData.ok) {
-      logError(`API応答エラー: ${responseData.error}`);
-      return null;
-    }
+    // files.info にトランスクリプションの全文を取得するパラメータを追加
+    const file = slackGetFile_(fileId, true);
+    const transcription = file.transcription;
     
     // 完全なトランスクリプションが含まれているか確認
-    if (responseData.file && 
-        responseData.file.transcription && 
-        responseData.file.transcription.full && 
-        responseData.file.transcription.full.content) {
-      return responseData.file.transcription.full.content;
-    } else if (responseData.file && 
-              responseData.file.transcription && 
-              responseData.file.transcription.preview && 
-              responseData.file.transcription.preview.content) {
+    if (transcription && transcription.full && transcription.full.content) {
+      return transcription.full.content;
+    } else if (transcription && transcription.preview && transcription.preview.content) {
       // 完全版がなければプレビュー版を返す
-      return responseData.file.transcription.preview.content;
+      return transcription.preview.content;
     }
     
-    logWarning('完全版トランスクリプションが応答に含まれていません');
+    logWarning_('完全版トランスクリプションが応答に含まれていません');
     return null;
     
   } catch (error) {
-    logError(`完全版トランスクリプション取得中のエラー: ${error}`);
+    logError_(`完全版トランスクリプション取得中のエラー: ${error}`);
     return null;
   }
 }
 
 /**
  * 改善されたファイル情報取得
+ * @param fileId ファイルID
+ * @returns ファイル情報、失敗時はnull
  */
-function getFileInfo(fileId: string): any {
-  logInfo(`ファイル情報を取得します: ${fileId}`);
-  
-  const SLACK_CONFIG = getSlackConfig();
-  
-  const url = `https://slack.com/api/files.info?file=${fileId}`;
-  const options: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {
-    method: 'get',
-    headers: {
-      'Authorization': `Bearer ${SLACK_CONFIG.token}`,
-      'Content-Type': 'application/json'
-    },
-    muteHttpExceptions: true
-  };
+function getFileInfo_(fileId: string): SlackFile | null {
+  logInfo_(`ファイル情報を取得します: ${fileId}`);
   
   try {
-    logInfo(`APIリクエスト: ${url}`);
-    const response = UrlFetchApp.fetch(url, options);
-    const responseCode = response.getResponseCode();
-    
-    logInfo(`APIレスポンス: ${responseCode}`);
-    
-    if (responseCode !== 200) {
-      logError(`API応答エラー: ${responseCode}`);
-      return null;
-    }
-    
-    const responseText = response.getContentText();
-    const responseData = JSON.parse(responseText);
-    
-    if (!responseData.ok) {
-      logError(`ファイル情報取得エラー: ${responseData.error}`);
-      return null;
-    }
-    
-    return responseData;
+    return slackGetFile_(fileId);
+  } catch (error) {
+    logError_(`ファイル情報取得エラー: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Slackのプライベートファイルをダウンロードする
+ * @param url url_private_download
+ * @returns ファイルのBlob、失敗時はnull
+ */
+function downloadSlackFile_(url: string): GoogleAppsScript.Base.Blob | null {
+  logInfo_('ファイルをダウンロードします');
+  
+  try {
+    return slackDownloadFile_(url);
   } catch (error) {
-    logError(`APIエラー: ${error}`);
+    logError_(`ファイルダウンロード中のエラー: ${error}`);
     return null;
   }
 }
@@ -509,355 +573,215 @@ function getFileInfo(fileId: string): any {
  * Slackのチャンネル情報を取得
  * @param channelId チャンネルID
  * @returns チャンネル情報オブジェクト
+ * @throws SlackApiError / SlackHttpError 取得に失敗した場合
  */
-function getChannelInfo(channelId: string): any {
-  logInfo('🔍 getChannelInfo関数が呼び出されました: ' + channelId);
-
-  const SLACK_CONFIG = getSlackConfig();
-
-  const url = `https://slack.com/api/conversations.info?channel=${channelId}`;
-  logInfo('🔍 リクエストURL: ' + url);
-
-  const options: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {
-    method: 'get',
-    headers: {
-      Authorization: `Bearer ${SLACK_CONFIG.token}`,
-      'Content-Type': 'application/json',
-    },
-    muteHttpExceptions: true,
-  };
+function getChannelInfo_(channelId: string): SlackChannel {
+  logInfo_('🔍 getChannelInfo関数が呼び出されました: ' + channelId);
 
   try {
-    const response = UrlFetchApp.fetch(url, options);
-    const responseData = JSON.parse(response.getContentText());
-
-    logInfo('🔍 APIレスポンス: ' + response.getContentText());
-
-    if (!responseData.ok) {
-      logError('❌ チャンネル情報の取得に失敗: ' + responseData.error);
-      throw new Error(`Failed to get channel info: ${responseData.error}`);
-    }
-
-    return responseData.channel;
+    const channel = slackGetChannel_(channelId);
+    logDebug_('🔍 チャンネル情報を取得しました', { id: channel.id, name: channel.name });
+    return channel;
   } catch (error) {
-    logError('❌ チャンネル情報取得エラー: ' + JSON.stringify(error));
+    logError_('❌ チャンネル情報取得エラー: ' + error);
     throw error;
   }
 }
 
 /**
  * 改善された文字起こし結果投稿
+ * 投稿者として投稿できる場合は投稿者のトークン、できない場合はボットが投稿者を明記して投稿する（UserAuthorization.ts）
  * @param channelId 投稿先チャンネルID
- * @param text 投稿するテキスト
- * @returns 投稿成功のブール値
+ * @param text 投稿するテキスト（blocksを指定した場合は通知用のフォールバック）
+ * @param threadTs スレッド返信する場合の親メッセージのts
+ * @param blocks Block Kitのブロック
+ * @param authorId ボイスメモの投稿者のユーザーID
+ * @returns 投稿したメッセージのts、失敗時はnull
  */
-function postTranscription(channelId: string, text: string): boolean {
-  logInfo(`🔍 文字起こし結果を投稿します: チャンネル=${channelId}`);
+function postTranscription_(
+  channelId: string,
+  text: string,
+  threadTs?: string,
+  blocks?: any[],
+  authorId?: string
+): string | null {
+  logInfo_(`🔍 文字起こし結果を投稿します: チャンネル=${channelId}`);
 
-  const SLACK_CONFIG = getSlackConfig();
-  
-  // ユーザートークンを使用（ボットトークンではなく）
-  const token = SLACK_CONFIG.userToken; 
-
-  const url = 'https://slack.com/api/chat.postMessage';
-  
   // 投稿するテキストを整形
   const formattedText = text.trim() || ":speech_balloon::arrow_right: :memo: … :x:";
+  const authorToken = getAuthorToken_(authorId);
   
-  const payload = {
+  const payload: { [key: string]: any } = {
     channel: channelId,
-    text: formattedText, 
-    as_user: true,  // 重要: これを追加してユーザーとして投稿
-  };
-
-  const options: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {
-    method: 'post',
-    headers: {
-      Authorization: `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-    payload: JSON.stringify(payload),
-    muteHttpExceptions: true,
+    text: formattedText,
   };
+  
+  if (threadTs) {
+    payload.thread_ts = threadTs;
+  }
+  
+  if (blocks && blocks.length > 0) {
+    payload.blocks = withProxyAttribution_(blocks, authorId, authorToken);
+  }
 
   try {
-    logInfo('メッセージ投稿リクエスト送信中...');
-    const response = UrlFetchApp.fetch(url, options);
-    const responseCode = response.getResponseCode();
-    
-    logInfo(`メッセージ投稿レスポンスコード: ${responseCode}`);
-    
-    if (responseCode !== 200) {
-      logError(`メッセージ投稿HTTP エラー: ${responseCode}`);
-      return false;
-    }
-    
-    const responseData = JSON.parse(response.getContentText());
-
-    if (!responseData.ok) {
-      logError(`メッセージ投稿API エラー: ${responseData.error}`);
-      return false;
-    }
-    
-    logInfo('✅ 文字起こし結果を投稿しました');
-    return true;
+    logInfo_(`メッセージ投稿リクエスト送信中... (${authorToken ? '投稿者' : 'ボット'}として投稿)`);
+    const response = slackPostMessage_(payload, { token: authorToken || getSlackToken_('bot') });
+    logInfo_('✅ 文字起こし結果を投稿しました');
+    return response.ts;
   } catch (error) {
-    logError(`❌ メッセージ投稿エラー: ${JSON.stringify(error)}`);
-    return false;
+    logError_(`❌ メッセージ投稿エラー: ${error}`);
+    return null;
   }
 }
 
 /**
- * Slackのファイルを削除する関数
- * @param fileId 削除するファイルのID
- * @returns 削除成功のブール値
+ * ボットが代理で投稿する場合に、投稿者を明記するブロックを追加する
+ * @param blocks 投稿するブロック
+ * @param authorId ボイスメモの投稿者のユーザーID
+ * @param authorToken 投稿者のトークン（ある場合は投稿者として投稿するため追加しない）
  */
-function deleteFile(fileId: string): boolean {
-  logInfo(`🔍 ファイル削除開始: ファイルID=${fileId}`);
-
-  const SLACK_CONFIG = getSlackConfig();
-
-  // ユーザートークンが設定されているか確認
-  if (!SLACK_CONFIG.userToken) {
-    logError('❌ ユーザートークンが設定されていません。ファイルを削除できません。');
-    return false;
+function withProxyAttribution_(blocks: any[], authorId: string | undefined, authorToken: string | null): any[] {
+  if (authorToken || !authorId || blocks.length >= SLACK_MAX_BLOCKS) {
+    return blocks;
   }
+  return blocks.concat([{
+    type: 'context',
+    elements: [{
+      type: 'mrkdwn',
+      text: `🎤 <@${authorId}> さんのボイスメモ（アプリが代理で投稿しました。\`/transcribe settings authorize\` で本人として投稿できます）`
+    }]
+  }]);
+}
 
-  const url = 'https://slack.com/api/files.delete';
-  const payload = {
-    file: fileId
-  };
+/**
+ * 既存のメッセージを更新する（chat.update）
+ * トークンの所有者が投稿したメッセージのみ更新できるため、投稿したときと同じトークンを指定する
+ * @param channelId チャンネルID
+ * @param ts 更新するメッセージのts
+ * @param text 更新後のテキスト（blocksを指定した場合は通知用のフォールバック）
+ * @param blocks Block Kitのブロック
+ * @param token 使用するトークン（省略時はSLACK_USER_TOKEN）
+ * @returns 更新成功のブール値
+ */
+function updateMessage_(channelId: string, ts: string, text: string, blocks?: any[], token?: string): boolean {
+  logInfo_(`🔍 メッセージを更新します: チャンネル=${channelId}, ts=${ts}`);
 
-  const options: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {
-    method: 'post',
-    headers: {
-      Authorization: `Bearer ${SLACK_CONFIG.userToken}`, // ファイル削除にはユーザートークンが必要
-      'Content-Type': 'application/json',
-    },
-    payload: JSON.stringify(payload),
-    muteHttpExceptions: true,
+  const payload: { [key: string]: any } = {
+    channel: channelId,
+    ts: ts,
+    text: text.trim() || ":speech_balloon::arrow_right: :memo: … :x:",
   };
+  
+  if (blocks && blocks.length > 0) {
+    payload.blocks = blocks;
+  }
 
   try {
-    logInfo(`ファイル削除リクエスト送信中... ファイルID: ${fileId}`);
-    const response = UrlFetchApp.fetch(url, options);
-    const responseCode = response.getResponseCode();
-    
-    logInfo(`ファイル削除レスポンスコード: ${responseCode}`);
-    
-    if (responseCode !== 200) {
-      logError(`ファイル削除HTTP エラー: ${responseCode}`);
-      return false;
-    }
-    
-    const responseData = JSON.parse(response.getContentText());
-
-    if (!responseData.ok) {
-      // エラーの種類を確認
-      if (responseData.error === 'cant_delete_file') {
-        logError('❌ ファイル削除権限エラー: このファイルを削除する権限がありません');
-        logInfo('ユーザートークンの権限設定を確認してください。ファイル削除には User Token Scopes の files:write が必要です。');
-        return false;
-      } else if (responseData.error === 'file_not_found') {
-        logError('❌ ファイルが見つかりません');
-        return false;
-      } else {
-        logError(`❌ ファイル削除エラー: ${responseData.error}`);
-        return false;
-      }
-    }
-    
-    logInfo(`✅ ファイルID: ${fileId} を削除しました`);
+    slackUpdateMessage_(payload, { token });
+    logInfo_('✅ 元のメッセージを文字起こし結果で更新しました');
     return true;
   } catch (error) {
-    logError(`❌ ファイル削除エラー: ${JSON.stringify(error)}`);
+    logError_(`❌ メッセージ更新エラー: ${error}`);
     return false;
   }
 }
 
 /**
- * Slackイベント購読のためのURL検証エンドポイント
- * @returns アプリ動作確認メッセージ
- */
-function doGet(): GoogleAppsScript.Content.TextOutput {
-  logInfo('🔍 doGet関数が呼び出されました');
-  return ContentService.createTextOutput('Slack Voice Converter is running!');
-}
-
-/**
- * GASをウェブアプリケーションとしてデプロイするための設定
- */
-function setup(): void {
-  logInfo('🔍 setup関数が呼び出されました');
-  logInfo('Setup completed. Deploy as web app to use with Slack Events API.');
-  logInfo(
-    'Remember to run the setupCredentials() function to save your Slack tokens securely.'
-  );
-}
-
-// ログ出力関連の関数
-// -------------------------------------------
-/**
- * 改善されたログ記録と設定管理
+ * スラッシュコマンド・ショートカットのresponse_urlで文字起こし結果を投稿する
+ * @param responseUrl response_url
+ * @param message 投稿するメッセージ
+ * @param ephemeral 依頼者のみに表示する場合はtrue
+ * @returns 投稿成功のブール値
  */
+function respondToCommand_(responseUrl: string, message: RenderedMessage, ephemeral: boolean = false): boolean {
+  logInfo_('🔍 response_urlで文字起こし結果を投稿します');
 
-// スプレッドシートIDを保存するためのキー
-const SPREADSHEET_ID_KEY = 'SPREADSHEET_ID_KEY';
-
-/**
- * 詳細なログをスプレッドシートに出力する関数
- * @param level ログレベル（INFO, DEBUG, WARN, ERROR など）
- * @param message メッセージ
- */
-function logToSheet(level: string, message: string): void {
   try {
-    // コンソールにも出力（デバッグ時に便利）
-    console.log(`[${level}]: ${message}`);
-    
-    const spreadsheetId =
-      PropertiesService.getScriptProperties().getProperty(SPREADSHEET_ID_KEY);
-    if (!spreadsheetId) {
-      return; // スプレッドシートが設定されていない場合は早期リターン
-    }
-
-    const ss = SpreadsheetApp.openById(spreadsheetId);
-    const sheet = ss.getSheetByName('Logs');
-    if (!sheet) {
-      console.log('ログシートが見つかりません');
-      return;
-    }
-
-    // ログエントリを作成
-    const timestamp = new Date().toISOString();
-    const functionName = getFunctionName();
-    sheet.appendRow([timestamp, level, functionName, message]);
-
-    // 行数が1000を超えた場合は古いログを削除（パフォーマンス対策）
-    const maxRows = 1000;
-    const currentRows = sheet.getLastRow();
-    if (currentRows > maxRows) {
-      sheet.deleteRows(2, currentRows - maxRows);
-    }
+    slackRespond_(responseUrl, {
+      response_type: ephemeral ? 'ephemeral' : 'in_channel',
+      text: message.text,
+      blocks: message.blocks
+    });
+    logInfo_('✅ 文字起こし結果を投稿しました');
+    return true;
   } catch (error) {
-    console.log(`ログ出力エラー: ${error}`);
-    console.log(`元のメッセージ [${level}]: ${message}`);
+    logError_(`❌ response_urlへの投稿エラー: ${error}`);
+    return false;
   }
 }
 
 /**
- * 呼び出し元の関数名を取得する補助関数
+ * Slackのファイルを削除する関数
+ * 投稿者のトークンがある場合はそれを使用し、ない場合はSLACK_USER_TOKENで削除する
+ * @param fileId 削除するファイルのID
+ * @param authorId ファイルの投稿者のユーザーID
+ * @returns 削除成功のブール値
  */
-function getFunctionName(): string {
+function deleteFile_(fileId: string, authorId?: string): boolean {
+  logInfo_(`🔍 ファイル削除開始: ファイルID=${fileId}`);
+
   try {
-    throw new Error();
-  } catch (e: any) {
-    const stack = e.stack.toString().split('\n');
-    if (stack.length >= 3) {
-      const callerLine = stack[2].trim();
-      const functionMatch = callerLine.match(/at ([^(]+)/);
-      if (functionMatch && functionMatch[1]) {
-        return functionMatch[1].trim();
-      }
+    logInfo_(`ファイル削除リクエスト送信中... ファイルID: ${fileId}`);
+    // ファイル削除にはユーザートークンが必要
+    slackDeleteFile_(fileId, { token: getAuthorActionToken_(authorId) });
+    logInfo_(`✅ ファイルID: ${fileId} を削除しました`);
+    return true;
+  } catch (error) {
+    // エラーの種類を確認
+    if (error instanceof SlackApiError && error.code === 'cant_delete_file') {
+      logError_('❌ ファイル削除権限エラー: このファイルを削除する権限がありません');
+      logInfo_('ユーザートークンの権限設定を確認してください。ファイル削除には User Token Scopes の files:write が必要です。');
+    } else if (error instanceof SlackApiError && error.code === 'file_not_found') {
+      logError_('❌ ファイルが見つかりません');
+    } else {
+      logError_(`❌ ファイル削除エラー: ${error}`);
     }
-    return 'unknown';
+    return false;
   }
 }
 
 /**
- * INFO レベルのログを出力
- * @param message メッセージ
+ * 稼働確認・管理ページ（AdminPage.ts）・ユーザー認証のコールバック（UserAuthorization.ts）のエンドポイント
+ * @param e doGetのイベントオブジェクト（?key=に管理キー、認証のコールバックは?code=&state=）
+ * @returns 認証のコールバックの場合は結果、権限がある場合は管理ページ、ない場合はアプリ動作確認メッセージ
  */
-function logInfo(message: string): void {
-  logToSheet('INFO', message);
-}
-
-/**
- * WARNING レベルのログを出力
- * @param message メッセージ
- */
-function logWarning(message: string): void {
-  logToSheet('WARN', message);
-}
-
-/**
- * ERROR レベルのログを出力
- * @param message メッセージ
- */
-function logError(message: string): void {
-  logToSheet('ERROR', message);
-}
-
-/**
- * DEBUG レベルのログを出力（開発時のみ使用）
- * @param message メッセージ
- */
-function logDebug(message: string): void {
-  logToSheet('DEBUG', message);
+function doGet(
+  e?: GoogleAppsScript.Events.DoGet
+): GoogleAppsScript.HTML.HtmlOutput | GoogleAppsScript.Content.TextOutput {
+  return runWithLogging_('', () => {
+    logInfo_('🔍 doGet関数が呼び出されました');
+    if (e && isOAuthCallbackRequest_(e)) {
+      return handleOAuthCallback_(e);
+    }
+    return handleAdminPageRequest_(e);
+  });
 }
 
 /**
- * スプレッドシートIDを設定する関数（改善版）
+ * GASをウェブアプリケーションとしてデプロイするための設定
  */
-function setupLogSpreadsheet(): void {
-  // 既存のスプレッドシートがあるか確認
-  const existingId = PropertiesService.getScriptProperties().getProperty(SPREADSHEET_ID_KEY);
-  
-  let spreadsheetId: string;
-  let ss: GoogleAppsScript.Spreadsheet.Spreadsheet;
-  
-  if (existingId) {
-    try {
-      // 既存のスプレッドシートを開く
-      ss = SpreadsheetApp.openById(existingId);
-      spreadsheetId = existingId;
-      logInfo(`既存のログスプレッドシートを使用します: ${spreadsheetId}`);
-    } catch (e) {
-      // 既存のIDが無効な場合は新規作成
-      logWarning(`既存のスプレッドシートが見つかりません: ${e}`);
-      ss = SpreadsheetApp.create('Slack Voice Converter Logs');
-      spreadsheetId = ss.getId();
-    }
-  } else {
-    // 新規作成
-    ss = SpreadsheetApp.create('Slack Voice Converter Logs');
-    spreadsheetId = ss.getId();
-    logInfo(`新しいログスプレッドシートを作成しました: ${spreadsheetId}`);
-  }
-
-  // スプレッドシートIDを保存
-  PropertiesService.getScriptProperties().setProperty(
-    SPREADSHEET_ID_KEY,
-    spreadsheetId
+function setup_(): void {
+  logInfo_('🔍 setup関数が呼び出されました');
+  logInfo_('Setup completed. Deploy as web app to use with Slack Events API.');
+  logInfo_(
+    'Remember to run the setupCredentials_() function to save your Slack tokens securely.'
   );
-
-  // シートが存在するか確認し、なければ作成
-  if (!ss.getSheetByName('Logs')) {
-    const sheet = ss.insertSheet('Logs');
-    // ヘッダー行を設定
-    sheet.appendRow(['Timestamp', 'Level', 'Function', 'Message']);
-    // 列の幅を調整
-    sheet.setColumnWidth(1, 180); // Timestamp
-    sheet.setColumnWidth(2, 70);  // Level
-    sheet.setColumnWidth(3, 120); // Function
-    sheet.setColumnWidth(4, 600); // Message
-    // ヘッダー行を固定
-    sheet.setFrozenRows(1);
-    // ヘッダー行の書式設定
-    sheet.getRange(1, 1, 1, 4).setBackground('#f3f3f3').setFontWeight('bold');
-  }
-
-  // 設定情報を記録
-  logInfo('ログスプレッドシートの設定が完了しました');
-  
-  // スプレッドシートへのリンクをログに記録
-  logInfo(`ログスプレッドシートURL: ${ss.getUrl()}`);
 }
 
 /**
  * 改善されたSlack認証情報設定関数
+ * @param signingSecret 署名シークレット（リレー経由の署名検証に使用）
+ * @param verificationToken Verification Token（リレーを使用しない場合の検証に使用）
  */
-function setupCredentials(botToken?: string, userToken?: string, channelName?: string): void {
-  const scriptProperties = PropertiesService.getScriptProperties();
+function setupCredentials_(
+  botToken?: string,
+  userToken?: string,
+  channelName?: string,
+  signingSecret?: string,
+  verificationToken?: string
+): void {
+  const scriptProperties = getServices_().properties;
   
   // 既存の設定値を取得
   const existingBotToken = scriptProperties.getProperty('SLACK_BOT_TOKEN');
@@ -868,6 +792,8 @@ function setupCredentials(botToken?: string, userToken?: string, channelName?: s
   const newBotToken = botToken || existingBotToken;
   const newUserToken = userToken || existingUserToken;
   const newChannelName = channelName || existingChannelName;
+  const newSigningSecret = signingSecret || scriptProperties.getProperty('SLACK_SIGNING_SECRET');
+  const newVerificationToken = verificationToken || scriptProperties.getProperty('SLACK_VERIFICATION_TOKEN');
   
   // 値が提供されていない場合はエラー
   if (!newBotToken) {
@@ -875,65 +801,74 @@ function setupCredentials(botToken?: string, userToken?: string, channelName?: s
   }
   
   if (!newUserToken) {
-    logWarning('ユーザートークンが指定されていません。メッセージの削除ができない可能性があります。');
+    logWarning_('ユーザートークンが指定されていません。メッセージの削除ができない可能性があります。');
   }
   
   if (!newChannelName) {
-    logWarning('チャンネル名が指定されていません。特定のチャンネルに制限されません。');
+    logWarning_('チャンネル名が指定されていません。特定のチャンネルに制限されません。');
+  }
+  
+  if (!newSigningSecret && !newVerificationToken) {
+    logWarning_('署名シークレット・Verification Tokenが指定されていません。リクエストの送信元を検証できません。');
   }
   
   // 値を保存
   scriptProperties.setProperty('SLACK_BOT_TOKEN', newBotToken);
   if (newUserToken) scriptProperties.setProperty('SLACK_USER_TOKEN', newUserToken);
   if (newChannelName) scriptProperties.setProperty('SLACK_CHANNEL_NAME', newChannelName);
+  if (newSigningSecret) scriptProperties.setProperty('SLACK_SIGNING_SECRET', newSigningSecret);
+  if (newVerificationToken) scriptProperties.setProperty('SLACK_VERIFICATION_TOKEN', newVerificationToken);
+  // ユーザートークンを変更した場合は所有者を確認し直す（UserAuthorization.ts）
+  if (userToken && userToken !== existingUserToken) scriptProperties.deleteProperty(USER_TOKEN_OWNER_KEY);
   
-  logInfo(`Slack認証情報を保存しました: ボットトークン=${newBotToken.substring(0, 5)}..., ユーザートークン=${newUserToken ? newUserToken.substring(0, 5) + '...' : 'なし'}, チャンネル=${newChannelName || 'すべて'}`);
+  logInfo_(`Slack認証情報を保存しました: ボットトークン=設定済み, ユーザートークン=${newUserToken ? '設定済み' : 'なし'}, チャンネル=${newChannelName || 'すべて'}`);
   
   // トークンの検証
   if (newBotToken) {
-    validateToken(newBotToken, 'ボット');
+    validateToken_(newBotToken, 'ボット');
   }
   
   if (newUserToken) {
-    validateToken(newUserToken, 'ユーザー');
+    validateToken_(newUserToken, 'ユーザー');
   }
 }
 
+/**
+ * トークンの検証結果
+ */
+interface TokenValidation {
+  ok: boolean;
+  team?: string;
+  user?: string;
+  error?: string; // 検証に失敗した場合のエラーコードまたはメッセージ
+}
+
 /**
  * トークンが有効か検証する関数
+ * @returns 検証結果（管理ページに表示する）
  */
-function validateToken(token: string, tokenType: string): void {
-  const url = 'https://slack.com/api/auth.test';
-  const options: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {
-    method: 'post',
-    headers: {
-      Authorization: `Bearer ${token}`,
-      'Content-Type': 'application/json'
-    },
-    muteHttpExceptions: true
-  };
-  
+function validateToken_(token: string, tokenType: string): TokenValidation {
   try {
-    const response = UrlFetchApp.fetch(url, options);
-    const responseData = JSON.parse(response.getContentText());
-    
-    if (responseData.ok) {
-      logInfo(`✅ ${tokenType}トークンの検証成功: チーム=${responseData.team}, ユーザー=${responseData.user}`);
-    } else {
-      logError(`❌ ${tokenType}トークンの検証失敗: ${responseData.error}`);
-    }
+    const responseData = slackAuthTest_(token);
+    logInfo_(`✅ ${tokenType}トークンの検証成功: チーム=${responseData.team}, ユーザー=${responseData.user}`);
+    return { ok: true, team: responseData.team, user: responseData.user };
   } catch (error) {
-    logError(`❌ ${tokenType}トークンの検証中にエラー: ${error}`);
+    if (error instanceof SlackApiError) {
+      logError_(`❌ ${tokenType}トークンの検証失敗: ${error.code}`);
+      return { ok: false, error: error.code };
+    }
+    logError_(`❌ ${tokenType}トークンの検証中にエラー: ${error}`);
+    return { ok: false, error: String(error) };
   }
 }
 
 /**
  * アプリの全設定を確認する関数
  */
-function checkAllSettings(): void {
-  logInfo('アプリケーション設定の確認を開始します');
+function checkAllSettings_(): void {
+  logInfo_('アプリケーション設定の確認を開始します');
   
-  const scriptProperties = PropertiesService.getScriptProperties();
+  const scriptProperties = getServices_().properties;
   const allProperties = scriptProperties.getProperties();
   
   // Slack設定の確認
@@ -941,29 +876,32 @@ function checkAllSettings(): void {
   const userToken = allProperties['SLACK_USER_TOKEN'];
   const channelName = allProperties['SLACK_CHANNEL_NAME'];
   
-  logInfo(`Slack設定: ボットトークン=${botToken ? '設定済み' : '未設定'}, ユーザートークン=${userToken ? '設定済み' : '未設定'}, チャンネル=${channelName || '未設定'}`);
+  logInfo_(`Slack設定: ボットトークン=${botToken ? '設定済み' : '未設定'}, ユーザートークン=${userToken ? '設定済み' : '未設定'}, チャンネル=${channelName || '未設定'}`);
+  
+  // リクエスト検証設定の確認
+  logInfo_(`リクエスト検証: 署名シークレット=${allProperties['SLACK_SIGNING_SECRET'] ? '設定済み' : '未設定'}, Verification Token=${allProperties['SLACK_VERIFICATION_TOKEN'] ? '設定済み' : '未設定'}, 署名必須=${allProperties['SLACK_REQUIRE_SIGNATURE'] === 'true' ? 'はい' : 'いいえ'}, 拒否件数=${allProperties[REJECTED_REQUEST_COUNT_KEY] || '0'}`);
   
   // ログスプレッドシート設定の確認
   const spreadsheetId = allProperties[SPREADSHEET_ID_KEY];
-  logInfo(`ログスプレッドシート: ${spreadsheetId ? '設定済み' : '未設定'}`);
+  logInfo_(`ログスプレッドシート: ${spreadsheetId ? '設定済み' : '未設定'}, ログレベル=${getLogLevel_()}, 保持日数=${getLogRetentionDays_()}日, プライバシーモード=${getLogPrivacyMode_()}`);
   
   if (spreadsheetId) {
     try {
       const ss = SpreadsheetApp.openById(spreadsheetId);
-      logInfo(`ログスプレッドシート名: ${ss.getName()}, URL: ${ss.getUrl()}`);
+      logInfo_(`ログスプレッドシート名: ${ss.getName()}, URL: ${ss.getUrl()}`);
     } catch (e) {
-      logError(`ログスプレッドシートの取得エラー: ${e}`);
+      logError_(`ログスプレッドシートの取得エラー: ${e}`);
     }
   }
   
   // Webアプリケーションのデプロイ状態確認
   const deploymentId = ScriptApp.getService().getUrl();
   if (deploymentId && deploymentId.length > 0) {
-    logInfo(`Webアプリケーション URL: ${deploymentId}`);
+    logInfo_(`Webアプリケーション URL: ${deploymentId}`);
   } else {
-    logWarning('Webアプリケーションがデプロイされていません');
+    logWarning_('Webアプリケーションがデプロイされていません');
   }
   
-  logInfo('アプリケーション設定の確認が完了しました');
+  logInfo_('アプリケーション設定の確認が完了しました');
 }
 
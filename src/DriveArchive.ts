@@ -0,0 +1,146 @@
+// 元の音声のアーカイブ
+// Slackのファイルを削除する前に、音声をGoogleドライブの指定フォルダへ保存する
+// 保存先: <アーカイブフォルダ>/<チャンネル名>/<yyyy-MM-dd>/<ファイルID>_<ファイル名>
+// 同じフォルダに文字起こし結果をテキストファイル（<ファイル名>.txt）として保存する
+
+/**
+ * アーカイブしたボイスメモ
+ */
+interface ArchivedVoiceMemo {
+  fileId: string;
+  fileName: string;
+  audio: ArchivedFile;
+  transcript: ArchivedFile;
+}
+
+/**
+ * 削除前のアーカイブ結果
+ */
+interface ArchiveBeforeDeleteResult {
+  ok: boolean; // 削除してよい場合はtrue
+  archived?: ArchivedVoiceMemo; // アーカイブした場合の保存先
+}
+
+// アーカイブ先フォルダのIDを保存するプロパティキー
+const DRIVE_ARCHIVE_FOLDER_ID_KEY = 'DRIVE_ARCHIVE_FOLDER_ID';
+
+/**
+ * アーカイブ先のフォルダを設定する
+ * @param folderId GoogleドライブのフォルダID（空文字でアーカイブを無効化）
+ */
+function setupDriveArchive_(folderId: string): void {
+  const properties = getServices_().properties;
+  if (folderId) {
+    properties.setProperty(DRIVE_ARCHIVE_FOLDER_ID_KEY, folderId);
+    logInfo_(`✅ 音声のアーカイブ先を設定しました: ${folderId}`);
+  } else {
+    properties.deleteProperty(DRIVE_ARCHIVE_FOLDER_ID_KEY);
+    logInfo_('音声のアーカイブを無効化しました');
+  }
+}
+
+/**
+ * アーカイブ先フォルダのIDを取得する
+ * @returns フォルダID、未設定の場合はnull
+ */
+function getDriveArchiveFolderId_(): string | null {
+  return getServices_().properties.getProperty(DRIVE_ARCHIVE_FOLDER_ID_KEY);
+}
+
+/**
+ * 元のファイルを削除してよいか判定する
+ * 文字起こしが完了し、内容が空でない場合のみ削除する（プレビューのみ・失敗・空の場合は残す）
+ * @param item ファイルごとの文字起こし結果
+ */
+function canDeleteOriginal_(item: FileTranscription): boolean {
+  return item.message.status === 'complete' && !item.empty;
+}
+
+/**
+ * 削除前に音声をアーカイブする
+ * アーカイブ先が未設定の場合は何もせずに削除を許可し、設定されている場合は保存に成功したときのみ許可する
+ * @param item ファイルごとの文字起こし結果
+ * @param target 元メッセージの情報
+ * @returns アーカイブ結果
+ */
+function archiveBeforeDelete_(item: FileTranscription, target: PostTarget): ArchiveBeforeDeleteResult {
+  const folderId = getDriveArchiveFolderId_();
+  if (!folderId) {
+    return { ok: true };
+  }
+  const archived = archiveVoiceMemo_(folderId, item, target);
+  return archived ? { ok: true, archived } : { ok: false };
+}
+
+/**
+ * 音声と文字起こし結果をGoogleドライブに保存する
+ * @param folderId アーカイブ先フォルダのID
+ * @param item ファイルごとの文字起こし結果
+ * @param target 元メッセージの情報
+ * @returns 保存したファイル、失敗した場合はnull
+ */
+function archiveVoiceMemo_(folderId: string, item: FileTranscription, target: PostTarget): ArchivedVoiceMemo | null {
+  logInfo_(`音声をアーカイブします: ${item.fileId}`);
+
+  try {
+    const file = getFileInfo_(item.fileId);
+    if (!file || !file.url_private_download) {
+      logError_(`アーカイブするファイルの情報を取得できませんでした: ${item.fileId}`);
+      return null;
+    }
+
+    const blob = downloadSlackFile_(file.url_private_download);
+    if (!blob) {
+      return null;
+    }
+
+    const fileName = file.name || file.title || 'voice-memo';
+    const name = `${file.id}_${fileName}`;
+    const path = buildArchivePath_(target.channelId, Date.now());
+    const archive = getServices_().archive;
+
+    const audio = archive.saveFile(folderId, path, blob.setName(name));
+    const transcript = archive.saveText(folderId, path, `${name}.txt`, buildTranscriptSidecar_(file, item, target));
+
+    logInfo_(`✅ 音声をアーカイブしました: ${path.join('/')}/${describeUserContent_(name)}`);
+    return { fileId: file.id, fileName, audio, transcript };
+  } catch (error) {
+    logError_(`❌ 音声のアーカイブに失敗しました: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * アーカイブ先のフォルダパス（チャンネル名/日付）を作成する
+ * 日付はスクリプトのタイムゾーン（appsscript.json）で決まる
+ * @param channelId チャンネルID
+ * @param now 現在時刻（エポックミリ秒）
+ */
+function buildArchivePath_(channelId: string, now: number): string[] {
+  const channel = resolveChannel_(channelId);
+  const date = new Date(now);
+  const pad = (value: number) => (value < 10 ? '0' : '') + value;
+  return [
+    channel.name || channel.id,
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+  ];
+}
+
+/**
+ * 文字起こし結果のテキストファイルの内容を作成する
+ * @param file ファイル情報
+ * @param item ファイルごとの文字起こし結果
+ * @param target 元メッセージの情報
+ */
+function buildTranscriptSidecar_(file: SlackFile, item: FileTranscription, target: PostTarget): string {
+  return [
+    `ファイル: ${file.name || file.title || file.id}`,
+    `ファイルID: ${file.id}`,
+    `チャンネル: ${target.channelId}`,
+    `投稿者: ${file.user || target.userId || '不明'}`,
+    `メッセージ: ${target.timestamp || '不明'}`,
+    `文字起こし: ${item.provider}`,
+    '',
+    item.message.text
+  ].join('\n');
+}
@@ -0,0 +1,195 @@
+// 冪等性の台帳
+// Slackのイベントの再送（数分後に届くリトライ）や同時に実行されたdoPostで、同じボイスメモを二重に投稿しないようにする
+// - イベントID（event_id）と、文字起こしの対象となる音声ファイルのIDをキーに、処理状況をスクリプトプロパティへ保存する
+// - 確認と記録はスクリプトロック内で行い、同時に届いたイベントのうち1件だけが処理を始める
+// - 処理が終わったら結果を記録し、再送されたイベントには前回の結果を返す
+// - 記録は保存期間（既定24時間）を過ぎると削除する（すべてのプロパティを読むため、削除は1時間に1回まで）
+
+/**
+ * 処理の結果
+ * posted: 投稿済み / queued: ジョブキューに登録済み / failed: 失敗 / skipped: 処理対象のファイルなし
+ */
+type IdempotencyOutcome = 'posted' | 'queued' | 'failed' | 'skipped';
+
+/**
+ * 台帳の記録
+ */
+interface IdempotencyRecord {
+  keys: string[]; // 同時に記録したキー（イベントID・ファイルID）
+  state: 'processing' | 'completed';
+  outcome?: IdempotencyOutcome;
+  claimedAt: number; // 処理を始めた時刻（エポックミリ秒）
+  expiresAt: number; // 記録を削除する時刻
+}
+
+/**
+ * 処理開始の記録の結果
+ */
+interface IdempotencyClaim {
+  claimed: boolean; // trueの場合は処理してよい、falseの場合は処理済みまたは処理中
+  record: IdempotencyRecord; // 処理済みの場合は前回の記録
+}
+
+// 記録を保存するプロパティキーの接頭辞
+const IDEMPOTENCY_PREFIX = 'IDEMPOTENCY_RECORD_';
+// 保存期間（時間）を保存するプロパティキー
+const IDEMPOTENCY_TTL_HOURS_KEY = 'IDEMPOTENCY_TTL_HOURS';
+// 保存期間の既定値（24時間）
+const DEFAULT_IDEMPOTENCY_TTL_HOURS = 24;
+// 処理中のまま残った記録を無効とみなすまでの時間（実行時間上限の6分）
+const IDEMPOTENCY_PROCESSING_TIMEOUT_MS = 6 * 60 * 1000;
+// 期限切れの記録を最後に削除した時刻を保存するプロパティキー
+const IDEMPOTENCY_LAST_PURGED_AT_KEY = 'IDEMPOTENCY_LAST_PURGED_AT';
+// 期限切れの記録を削除する間隔（1時間）
+const IDEMPOTENCY_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * 保存期間を設定する
+ * @param hours 保存期間（時間）
+ */
+function setIdempotencyTtlHours_(hours: number): void {
+  if (!(hours > 0)) {
+    throw new Error(`保存期間は0より大きい値を指定してください: ${hours}`);
+  }
+  getServices_().properties.setProperty(IDEMPOTENCY_TTL_HOURS_KEY, String(hours));
+  logInfo_(`冪等性の記録の保存期間を設定しました: ${hours}時間`);
+}
+
+/**
+ * 保存期間を取得する
+ * @returns 保存期間（ミリ秒）
+ */
+function getIdempotencyTtlMs_(): number {
+  const value = parseFloat(getServices_().properties.getProperty(IDEMPOTENCY_TTL_HOURS_KEY) || '');
+  return (value > 0 ? value : DEFAULT_IDEMPOTENCY_TTL_HOURS) * 60 * 60 * 1000;
+}
+
+/**
+ * イベントの台帳のキーを作成する
+ * イベントIDがない場合（手動での再送など）はイベントキーを使用する
+ * ファイルはtranscribeVoiceMemo_()が処理する音声ファイルのみをキーにする
+ * @param data イベントのペイロード
+ * @param eventKey createEventKey_()で作成したキー
+ */
+function getEventIdempotencyKeys_(data: any, eventKey: string): string[] {
+  const keys = [data.event_id ? `event_${data.event_id}` : `key_${eventKey}`];
+  for (const file of getAudioFiles_(data.event.files)) {
+    if (file.id) keys.push(`file_${file.id}`);
+  }
+  return keys;
+}
+
+/**
+ * 処理を始めることを記録する
+ * いずれかのキーが処理済み・処理中の場合は記録せず、前回の記録を返す
+ * @param keys 台帳のキー
+ */
+function claimIdempotencyKeys_(keys: string[]): IdempotencyClaim {
+  return withScriptLock_(() => {
+    const now = Date.now();
+    purgeExpiredIdempotencyRecordsIfDue_(now);
+
+    for (const key of keys) {
+      const existing = getIdempotencyRecord_(key);
+      if (existing && isIdempotencyRecordActive_(existing, now)) {
+        return { claimed: false, record: existing };
+      }
+    }
+
+    const record: IdempotencyRecord = { keys, state: 'processing', claimedAt: now, expiresAt: now + getIdempotencyTtlMs_() };
+    saveIdempotencyRecord_(record);
+    return { claimed: true, record };
+  });
+}
+
+/**
+ * 処理の結果を記録する
+ * @param keys claimIdempotencyKeys_()に指定したキー
+ * @param outcome 処理の結果
+ */
+function completeIdempotencyKeys_(keys: string[], outcome: IdempotencyOutcome): void {
+  withScriptLock_(() => {
+    const now = Date.now();
+    saveIdempotencyRecord_({
+      keys,
+      state: 'completed',
+      outcome,
+      claimedAt: (getIdempotencyRecord_(keys[0]) || { claimedAt: now }).claimedAt,
+      expiresAt: now + getIdempotencyTtlMs_()
+    });
+  });
+  logInfo_(`処理結果を記録しました: ${outcome}`);
+}
+
+/**
+ * 台帳の記録を取得する
+ * @param key 台帳のキー
+ * @returns 記録、存在しない場合はnull
+ */
+function getIdempotencyRecord_(key: string): IdempotencyRecord | null {
+  const json = getServices_().properties.getProperty(`${IDEMPOTENCY_PREFIX}${key}`);
+  if (!json) return null;
+
+  try {
+    return JSON.parse(json) as IdempotencyRecord;
+  } catch (error) {
+    logError_(`冪等性の記録の形式が不正です: ${key}`);
+    return null;
+  }
+}
+
+/**
+ * 記録をすべてのキーに保存する
+ * @param record 台帳の記録
+ */
+function saveIdempotencyRecord_(record: IdempotencyRecord): void {
+  const properties = getServices_().properties;
+  const json = JSON.stringify(record);
+  for (const key of record.keys) {
+    properties.setProperty(`${IDEMPOTENCY_PREFIX}${key}`, json);
+  }
+}
+
+/**
+ * 記録が有効か（期限内で、処理中のまま実行時間上限を過ぎていないか）判定する
+ * @param record 台帳の記録
+ * @param now 現在時刻
+ */
+function isIdempotencyRecordActive_(record: IdempotencyRecord, now: number): boolean {
+  if (record.expiresAt <= now) return false;
+  return record.state !== 'processing' || record.claimedAt + IDEMPOTENCY_PROCESSING_TIMEOUT_MS > now;
+}
+
+/**
+ * 前回の削除から一定時間が経過していれば、保存期間を過ぎた記録を削除する
+ * @param now 現在時刻
+ */
+function purgeExpiredIdempotencyRecordsIfDue_(now: number): void {
+  const properties = getServices_().properties;
+  const lastPurgedAt = parseInt(properties.getProperty(IDEMPOTENCY_LAST_PURGED_AT_KEY) || '', 10);
+  if (!isNaN(lastPurgedAt) && now - lastPurgedAt < IDEMPOTENCY_PURGE_INTERVAL_MS) {
+    return;
+  }
+
+  properties.setProperty(IDEMPOTENCY_LAST_PURGED_AT_KEY, String(now));
+  purgeExpiredIdempotencyRecords_(now);
+}
+
+/**
+ * 保存期間を過ぎた記録を削除する
+ * @param now 現在時刻
+ */
+function purgeExpiredIdempotencyRecords_(now: number): void {
+  const properties = getServices_().properties;
+  const all = properties.getProperties();
+  for (const key of Object.keys(all)) {
+    if (key.indexOf(IDEMPOTENCY_PREFIX) !== 0) continue;
+    try {
+      if ((JSON.parse(all[key]) as IdempotencyRecord).expiresAt <= now) {
+        properties.deleteProperty(key);
+      }
+    } catch (error) {
+      properties.deleteProperty(key);
+    }
+  }
+}
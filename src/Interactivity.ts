@@ -0,0 +1,163 @@
+// インタラクティビティ（ショートカット・ボタンなど）
+// Slackはpayloadフォームフィールドに JSON を入れて送信する
+// メッセージショートカット:
+//   transcribe_in_thread … 音声メッセージを文字起こしし、スレッドに返信する
+//   transcribe_ephemeral … 音声メッセージを文字起こしし、実行したユーザーのみに表示する
+// ブロックアクション: App Homeのボタン（AppHome.ts）、元の音声の復元ボタン（VoiceMemoRestore.ts）
+
+/**
+ * メッセージショートカットのペイロード（type: message_action）
+ */
+interface MessageActionPayload {
+  type: 'message_action';
+  callback_id: string;
+  token?: string;
+  team?: { id: string };
+  user?: { id: string };
+  channel: { id: string; name?: string };
+  message: SlackMessage;
+  response_url: string;
+}
+
+/**
+ * ブロックアクションのペイロード（type: block_actions）
+ */
+interface BlockActionsPayload {
+  type: 'block_actions';
+  token?: string;
+  user: { id: string };
+  team?: { id: string };
+  view?: { type: string };
+  container?: { type: string; channel_id?: string; message_ts?: string };
+  message?: SlackMessage;
+  response_url?: string;
+  actions: { action_id: string; value?: string }[];
+}
+
+// スレッドに返信するショートカットのコールバックID
+const TRANSCRIBE_IN_THREAD_CALLBACK_ID = 'transcribe_in_thread';
+// 実行したユーザーのみに表示するショートカットのコールバックID
+const TRANSCRIBE_EPHEMERAL_CALLBACK_ID = 'transcribe_ephemeral';
+
+/**
+ * doPostが受け取ったリクエストがインタラクティビティか判定する
+ * @param e doPostのイベントオブジェクト
+ */
+function isInteractivityRequest_(e: GoogleAppsScript.Events.DoPost): boolean {
+  return !!(e.parameter && e.parameter['payload']);
+}
+
+/**
+ * インタラクティビティのリクエストを検証して処理する
+ * @param e doPostのイベントオブジェクト
+ * @returns 空の応答（Slackへの受信確認）
+ */
+function handleInteractivityRequest_(e: GoogleAppsScript.Events.DoPost): GoogleAppsScript.Content.TextOutput {
+  const payload = JSON.parse(e.parameter['payload']);
+  logInfo_(`🔍 インタラクティビティを受信しました: type=${payload.type}, callback_id=${payload.callback_id}`);
+
+  // リクエストの検証（署名またはVerification Token）
+  const verification = verifySlackRequest_(e, payload);
+  if (!verification.ok) {
+    recordRejectedRequest_(verification);
+    return ContentService.createTextOutput('Unauthorized');
+  }
+
+  if (payload.type === 'message_action') {
+    handleMessageShortcut_(payload as MessageActionPayload);
+  } else if (payload.type === 'block_actions') {
+    handleBlockActions_(payload as BlockActionsPayload);
+  } else {
+    logInfo_(`サポート外のインタラクティビティ: ${payload.type}`);
+  }
+
+  return ContentService.createTextOutput('');
+}
+
+/**
+ * メッセージショートカットを処理する
+ * Slackの応答期限（3秒）に間に合うよう文字起こしはジョブキューに任せ、完了したら選択されたショートカットに応じて返信する
+ * @param payload メッセージショートカットのペイロード
+ */
+function handleMessageShortcut_(payload: MessageActionPayload): void {
+  const ephemeral = payload.callback_id === TRANSCRIBE_EPHEMERAL_CALLBACK_ID;
+  if (!ephemeral && payload.callback_id !== TRANSCRIBE_IN_THREAD_CALLBACK_ID) {
+    logWarning_(`不明なショートカット: ${payload.callback_id}`);
+    return;
+  }
+
+  const notify = (text: string) => {
+    try {
+      slackRespond_(payload.response_url, { response_type: 'ephemeral', text });
+    } catch (error) {
+      logError_(`ショートカットへの応答エラー: ${error}`);
+    }
+  };
+
+  const message = payload.message;
+  const audioFiles = getAudioFiles_(message.files);
+  if (audioFiles.length === 0) {
+    notify('このメッセージには音声ファイルがありません。');
+    return;
+  }
+
+  const decision = evaluateChannelPolicy_(payload.channel.id, getCommandChannelType_(payload.channel.name));
+  if (!decision.allowed) {
+    logInfo_(`処理対象外のチャンネルです: ${decision.channel.name || decision.channel.id}（${decision.reason}）`);
+    notify('このチャンネルでは文字起こしを利用できません。');
+    return;
+  }
+
+  const fileIds = audioFiles.map(file => file.id);
+  const inProgress = fileIds.some(fileId => isTranscriptionJobActive_(getTranscriptionJob_(fileId)));
+
+  // スレッド内のメッセージの場合は親メッセージのtsを保持する
+  const threadTs = message.thread_ts && message.thread_ts !== message.ts ? message.thread_ts : undefined;
+  const target: PostTarget = {
+    channelId: payload.channel.id,
+    timestamp: message.ts,
+    threadTs,
+    teamId: payload.team ? payload.team.id : undefined,
+    userId: message.user,
+    keepOriginal: true
+  };
+  if (ephemeral) {
+    target.responseUrl = payload.response_url;
+    target.ephemeral = true;
+  } else {
+    target.postingStrategy = 'thread';
+  }
+
+  // 文字起こし中の場合は、既存のジョブに返信先を追加する
+  for (const fileId of fileIds) {
+    enqueueTranscriptionJob_(fileId, target, fileIds, false);
+  }
+
+  logInfo_(`ショートカットで文字起こしを受け付けました: ${fileIds.join(', ')}（${ephemeral ? '本人のみ' : 'スレッド'}）`);
+  const reply = ephemeral ? 'あなたにだけ表示' : 'スレッドに返信';
+  notify(inProgress
+    ? `:hourglass_flowing_sand: このボイスメモはすでに文字起こし中です。完了すると${reply}します。`
+    : `:hourglass_flowing_sand: ボイスメモ（${fileIds.length}件）の文字起こしを開始しました。完了すると${reply}します。`);
+}
+
+/**
+ * ボタン操作を処理する
+ * @param payload ブロックアクションのペイロード
+ */
+function handleBlockActions_(payload: BlockActionsPayload): void {
+  const userId = payload.user.id;
+
+  for (const action of payload.actions || []) {
+    logInfo_(`ボタン操作: ${action.action_id}, ユーザー=${userId}`);
+
+    if (action.action_id === RESTORE_ORIGINAL_AUDIO_ACTION_ID && action.value) {
+      handleRestoreAction_(payload, action.value);
+    } else if (!handleAppHomeAction_(userId, action)) {
+      logWarning_(`不明なアクション: ${action.action_id}`);
+    }
+  }
+
+  if (payload.view && payload.view.type === 'home') {
+    publishAppHome_(userId);
+  }
+}
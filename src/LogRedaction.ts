@@ -0,0 +1,151 @@
+// ログのマスキング
+// ログスプレッドシートは共有される可能性があるため、書き込む前に次の情報を伏せる
+// - Slackのトークン（xoxb- / xoxp- / xoxa- など）・署名シークレットなどスクリプトプロパティの秘密の値
+// - プライベートファイルのURL（files.slack.com）
+// - メールアドレス
+// トランスクリプトなどユーザーの内容は describeUserContent_() を通して出力し、プライバシーモードに応じて長さとハッシュだけにする
+
+/**
+ * プライバシーモード
+ * off:         ユーザーの内容をそのまま出力する（先頭100文字）
+ * transcripts: トランスクリプトのみ長さとハッシュにする（既定）
+ * strict:      ユーザーの内容をすべて長さとハッシュにする
+ */
+type LogPrivacyMode = 'off' | 'transcripts' | 'strict';
+
+/** ユーザーの内容の種類 */
+type UserContentKind = 'transcript' | 'text';
+
+// プライバシーモードを保存するプロパティキー
+const LOG_PRIVACY_MODE_KEY = 'LOG_PRIVACY_MODE';
+// 既定のプライバシーモード
+const DEFAULT_LOG_PRIVACY_MODE: LogPrivacyMode = 'transcripts';
+const LOG_PRIVACY_MODES: LogPrivacyMode[] = ['off', 'transcripts', 'strict'];
+// ログに出力するユーザーの内容の最大文字数
+const USER_CONTENT_LOG_LENGTH = 100;
+// 値をログから伏せるスクリプトプロパティ
+const SECRET_PROPERTY_KEYS = [
+  'SLACK_BOT_TOKEN',
+  'SLACK_USER_TOKEN',
+  'SLACK_SIGNING_SECRET',
+  'SLACK_VERIFICATION_TOKEN',
+  'SLACK_CLIENT_SECRET',
+  'WHISPER_API_KEY',
+  'SUMMARIZER_API_KEY',
+  'TRANSLATION_API_KEY',
+  'ADMIN_KEY'
+];
+// コンテキストで値を伏せるキー
+const SECRET_CONTEXT_KEY_PATTERN = /token|secret|password|authorization|api_?key/i;
+// 伏せた値の表示
+const REDACTED = '[REDACTED]';
+
+// ログから伏せるパターン（置換後の文字列）
+const LOG_REDACTION_PATTERNS: { pattern: RegExp; replacement: string }[] = [
+  { pattern: /\bxox[a-z]-[A-Za-z0-9-]+/g, replacement: REDACTED },
+  { pattern: /https?:\/\/files\.slack\.com\/[^\s"'<>]+/g, replacement: `https://files.slack.com/${REDACTED}` },
+  { pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, replacement: '[EMAIL]' }
+];
+
+// プライバシーモードと秘密の値（実行ごとに1回だけ読み込む）
+let cachedLogPrivacyMode: LogPrivacyMode | null = null;
+let cachedLogSecrets: string[] | null = null;
+
+/**
+ * プライバシーモードを設定する
+ * @param mode プライバシーモード（off / transcripts / strict）
+ */
+function setLogPrivacyMode_(mode: LogPrivacyMode): void {
+  if (LOG_PRIVACY_MODES.indexOf(mode) < 0) {
+    throw new Error(`不明なプライバシーモードです: ${mode}`);
+  }
+  getServices_().properties.setProperty(LOG_PRIVACY_MODE_KEY, mode);
+  cachedLogPrivacyMode = mode;
+  logInfo_(`ログのプライバシーモードを設定しました: ${mode}`);
+}
+
+/**
+ * プライバシーモードを取得する
+ */
+function getLogPrivacyMode_(): LogPrivacyMode {
+  if (!cachedLogPrivacyMode) {
+    const value = getServices_().properties.getProperty(LOG_PRIVACY_MODE_KEY) as LogPrivacyMode | null;
+    cachedLogPrivacyMode = value && LOG_PRIVACY_MODES.indexOf(value) >= 0 ? value : DEFAULT_LOG_PRIVACY_MODE;
+  }
+  return cachedLogPrivacyMode;
+}
+
+/**
+ * 読み込んだ設定を破棄する（次のログ出力で読み込み直す）
+ */
+function resetLogRedactionCache_(): void {
+  cachedLogPrivacyMode = null;
+  cachedLogSecrets = null;
+}
+
+/**
+ * ユーザーの内容をログに出力する形式にする
+ * プライバシーモードに応じて、先頭100文字または長さとハッシュ（[120文字 #1a2b3c4d]）を返す
+ * @param text ユーザーの内容
+ * @param kind 内容の種類（トランスクリプトはtranscripts以上のモードで伏せる）
+ */
+function describeUserContent_(text: string, kind: UserContentKind = 'text'): string {
+  const mode = getLogPrivacyMode_();
+  if (mode === 'strict' || (mode === 'transcripts' && kind === 'transcript')) {
+    return `[${text.length}文字 #${hashUserContent_(text)}]`;
+  }
+  return text.length > USER_CONTENT_LOG_LENGTH ? `${text.substring(0, USER_CONTENT_LOG_LENGTH)}...` : text;
+}
+
+/**
+ * ユーザーの内容のハッシュ（SHA-256の先頭8桁）
+ * 同じ内容かどうかを見分けるためのもので、内容は復元できない
+ * @param text ユーザーの内容
+ */
+function hashUserContent_(text: string): string {
+  const digest = Utilities.computeDigest(Utilities.DigestAlgorithm.SHA_256, text, Utilities.Charset.UTF_8);
+  return digest
+    .slice(0, 4)
+    .map(byte => ((byte + 256) % 256).toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * ログのテキストから機密情報を伏せる
+ * @param text メッセージまたはコンテキストのJSON
+ */
+function redactLogText_(text: string): string {
+  let redacted = text;
+  getLogSecrets_().forEach(secret => {
+    redacted = redacted.split(secret).join(REDACTED);
+  });
+  LOG_REDACTION_PATTERNS.forEach(({ pattern, replacement }) => {
+    redacted = redacted.replace(pattern, replacement);
+  });
+  return redacted;
+}
+
+/**
+ * コンテキストをJSONにし、秘密の値を持つキーを伏せる
+ * @param context 付加情報
+ */
+function stringifyLogContext_(context: { [key: string]: any }): string {
+  const json = JSON.stringify(context, (key, value) =>
+    key && SECRET_CONTEXT_KEY_PATTERN.test(key) && value !== null && typeof value !== 'object' ? REDACTED : value
+  );
+  return redactLogText_(json);
+}
+
+/**
+ * ログから伏せるスクリプトプロパティの値を取得する
+ */
+function getLogSecrets_(): string[] {
+  if (!cachedLogSecrets) {
+    const properties = getServices_().properties;
+    cachedLogSecrets = SECRET_PROPERTY_KEYS
+      .map(key => properties.getProperty(key))
+      // 短すぎる値は通常の文字列まで伏せてしまうため対象外
+      .filter((value): value is string => !!value && value.length >= 8);
+  }
+  return cachedLogSecrets;
+}
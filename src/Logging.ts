@@ -0,0 +1,387 @@
+// ログ出力
+// ログはレベル・相関ID（イベントキーなど）・JSONのコンテキストを持つ行として、ログスプレッドシートのLogsシートに書き込む
+// 行はメモリにためて実行の終わり（flushLogs_）または一定件数ごとにまとめて書き込む
+// 保持期間を過ぎた行は毎日のトリガー（rotateLogs）で月別のシート（Logs_yyyy-MM）に移す
+// トリガーが登録されていない場合は、ログを書き込むときに登録する（確認は一定時間に1回）
+
+/** ログレベル */
+type LogLevel = 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
+
+/**
+ * ログレベルの優先度
+ */
+const LOG_LEVEL_PRIORITIES: { [level in LogLevel]: number } = {
+  DEBUG: 10,
+  INFO: 20,
+  WARN: 30,
+  ERROR: 40
+};
+
+// スプレッドシートIDを保存するためのキー
+const SPREADSHEET_ID_KEY = 'SPREADSHEET_ID_KEY';
+// ログのシート名
+const LOG_SHEET_NAME = 'Logs';
+// ログの見出し行（Message列の位置は旧形式と同じ）
+const LOG_SHEET_HEADER = ['Timestamp', 'Level', 'Correlation ID', 'Message', 'Context'];
+// 出力する最小のログレベルを保存するプロパティキー
+const LOG_LEVEL_KEY = 'LOG_LEVEL';
+// 既定の最小のログレベル
+const DEFAULT_LOG_LEVEL: LogLevel = 'INFO';
+// ログを保持する日数を保存するプロパティキー
+const LOG_RETENTION_DAYS_KEY = 'LOG_RETENTION_DAYS';
+// 既定の保持日数
+const DEFAULT_LOG_RETENTION_DAYS = 14;
+// ログのローテーションを実行するトリガーの関数名
+const LOG_ROTATION_HANDLER = 'rotateLogs';
+// ローテーションのトリガーを確認したことを記録するキャッシュキー
+const LOG_ROTATION_CHECK_CACHE_KEY = 'log_rotation_checked';
+// ローテーションのトリガーを確認する間隔（キャッシュの最大保存期間の6時間）
+const LOG_ROTATION_CHECK_CACHE_SECONDS = 6 * 60 * 60;
+// まとめて書き込む件数（これを超えた場合は実行の途中でも書き込む）
+const LOG_BATCH_SIZE = 50;
+
+// 書き込み待ちのログ
+let pendingLogRows: string[][] = [];
+// 現在の処理の相関ID
+let logCorrelationId = '';
+// 出力する最小のログレベル（実行ごとに1回だけ読み込む）
+let cachedLogLevel: LogLevel | null = null;
+// 実行中のエントリーポイントの数（0の場合は手動実行などのため、ためずにすぐ書き込む）
+let loggingScopeDepth = 0;
+
+/**
+ * 出力する最小のログレベルを設定する
+ * @param level ログレベル（DEBUG / INFO / WARN / ERROR）
+ */
+function setLogLevel_(level: LogLevel): void {
+  if (!LOG_LEVEL_PRIORITIES[level]) {
+    throw new Error(`不明なログレベルです: ${level}`);
+  }
+  getServices_().properties.setProperty(LOG_LEVEL_KEY, level);
+  cachedLogLevel = level;
+  logInfo_(`ログレベルを設定しました: ${level}`);
+}
+
+/**
+ * 出力する最小のログレベルを取得する
+ */
+function getLogLevel_(): LogLevel {
+  if (!cachedLogLevel) {
+    const value = getServices_().properties.getProperty(LOG_LEVEL_KEY) as LogLevel | null;
+    cachedLogLevel = value && LOG_LEVEL_PRIORITIES[value] ? value : DEFAULT_LOG_LEVEL;
+  }
+  return cachedLogLevel;
+}
+
+/**
+ * ログを保持する日数を設定する
+ * @param days 日数
+ */
+function setLogRetentionDays_(days: number): void {
+  getServices_().properties.setProperty(LOG_RETENTION_DAYS_KEY, String(Math.max(1, Math.floor(days))));
+  logInfo_(`ログの保持日数を設定しました: ${days}日`);
+}
+
+/**
+ * ログを保持する日数を取得する
+ */
+function getLogRetentionDays_(): number {
+  const days = parseInt(getServices_().properties.getProperty(LOG_RETENTION_DAYS_KEY) || '', 10);
+  return isNaN(days) ? DEFAULT_LOG_RETENTION_DAYS : days;
+}
+
+/**
+ * 現在の相関IDを取得する
+ */
+function getLogCorrelationId_(): string {
+  return logCorrelationId;
+}
+
+/**
+ * 現在の処理の相関IDを設定する
+ * @param correlationId 相関ID（イベントキー、ジョブのファイルIDなど）
+ */
+function setLogCorrelationId_(correlationId: string): void {
+  logCorrelationId = correlationId;
+}
+
+/**
+ * 相関IDを設定して処理を実行し、元の相関IDに戻す
+ * @param correlationId 相関ID
+ * @param fn 実行する処理
+ * @returns 処理の戻り値
+ */
+function withLogCorrelation_<T>(correlationId: string, fn: () => T): T {
+  const previous = logCorrelationId;
+  logCorrelationId = correlationId;
+  try {
+    return fn();
+  } finally {
+    logCorrelationId = previous;
+  }
+}
+
+/**
+ * エントリーポイント（doPost・トリガー）の処理を実行し、最後にログを書き込む
+ * @param correlationId 相関ID（後から setLogCorrelationId_ で変更できる）
+ * @param fn 実行する処理
+ * @returns 処理の戻り値
+ */
+function runWithLogging_<T>(correlationId: string, fn: () => T): T {
+  loggingScopeDepth++;
+  try {
+    return withLogCorrelation_(correlationId, fn);
+  } finally {
+    loggingScopeDepth--;
+    flushLogs_();
+  }
+}
+
+/**
+ * ログを出力する
+ * @param level ログレベル
+ * @param message メッセージ
+ * @param context 付加情報（JSONとしてContext列に出力）
+ */
+function logToSheet_(level: LogLevel, message: string, context?: { [key: string]: any }): void {
+  try {
+    if (LOG_LEVEL_PRIORITIES[level] < LOG_LEVEL_PRIORITIES[getLogLevel_()]) {
+      return;
+    }
+
+    // トークンなどの機密情報を伏せる（LogRedaction.ts）
+    message = redactLogText_(message);
+    const contextJson = context ? stringifyLogContext_(context) : '';
+    // コンソールにも出力（デバッグ時に便利）
+    console.log(`[${level}]${logCorrelationId ? ` [${logCorrelationId}]` : ''} ${message}${contextJson ? ` ${contextJson}` : ''}`);
+
+    pendingLogRows.push([new Date().toISOString(), level, logCorrelationId, message, contextJson]);
+    if (loggingScopeDepth === 0 || pendingLogRows.length >= LOG_BATCH_SIZE) {
+      flushLogs_();
+    }
+  } catch (error) {
+    console.log(`ログ出力エラー: ${error}`);
+    console.log(`元のメッセージ [${level}]: ${message}`);
+  }
+}
+
+/**
+ * 書き込み待ちのログをまとめて書き込む
+ */
+function flushLogs_(): void {
+  const rows = pendingLogRows;
+  pendingLogRows = [];
+  cachedLogLevel = null;
+  resetLogRedactionCache_();
+  if (rows.length === 0) return;
+
+  try {
+    // 同時に実行中のリクエストやトリガーと書き込み位置が重ならないよう、ロック中に追記する
+    withScriptLock_(() => getServices_().logSink.append(rows));
+    ensureLogRotationScheduled_();
+  } catch (error) {
+    console.log(`ログの書き込みエラー: ${error}`);
+  }
+}
+
+/**
+ * ログのローテーションのトリガーが登録されていなければ登録する
+ * ログスプレッドシートが設定されている場合のみ、一定時間に1回だけ確認する
+ */
+function ensureLogRotationScheduled_(): void {
+  const services = getServices_();
+  if (services.cache.get(LOG_ROTATION_CHECK_CACHE_KEY) || !services.properties.getProperty(SPREADSHEET_ID_KEY)) {
+    return;
+  }
+  services.cache.put(LOG_ROTATION_CHECK_CACHE_KEY, '1', LOG_ROTATION_CHECK_CACHE_SECONDS);
+
+  withScriptLock_(() => {
+    if (services.triggers.getHandlerFunctions().indexOf(LOG_ROTATION_HANDLER) !== -1) return;
+
+    services.triggers.scheduleDaily(LOG_ROTATION_HANDLER, 3);
+    logInfo_('ログのローテーションのトリガーが登録されていないため登録しました');
+  });
+}
+
+/**
+ * INFO レベルのログを出力
+ * @param message メッセージ
+ * @param context 付加情報
+ */
+function logInfo_(message: string, context?: { [key: string]: any }): void {
+  logToSheet_('INFO', message, context);
+}
+
+/**
+ * WARNING レベルのログを出力
+ * @param message メッセージ
+ * @param context 付加情報
+ */
+function logWarning_(message: string, context?: { [key: string]: any }): void {
+  logToSheet_('WARN', message, context);
+}
+
+/**
+ * ERROR レベルのログを出力
+ * @param message メッセージ
+ * @param context 付加情報
+ */
+function logError_(message: string, context?: { [key: string]: any }): void {
+  logToSheet_('ERROR', message, context);
+}
+
+/**
+ * DEBUG レベルのログを出力（LOG_LEVELがDEBUGの場合のみ出力）
+ * @param message メッセージ
+ * @param context 付加情報
+ */
+function logDebug_(message: string, context?: { [key: string]: any }): void {
+  logToSheet_('DEBUG', message, context);
+}
+
+/**
+ * 保持期間を過ぎたログを月別のシートに移す（毎日のトリガーから実行）
+ * @returns 移したログの件数
+ */
+function rotateLogs(): number {
+  return runWithLogging_('rotateLogs', () => {
+    const sink = getServices_().logSink;
+    const cutoff = new Date(Date.now() - getLogRetentionDays_() * 24 * 60 * 60 * 1000).toISOString();
+    // 移している間に他の実行がログを追記すると行がずれるため、読み込みから削除までロックする
+    return withScriptLock_(() => {
+      const expired = findExpiredLogRows_(sink.getRows(), cutoff);
+      if (expired.length === 0) {
+        return 0;
+      }
+
+      const sheets = groupLogRowsBySheet_(expired);
+      for (const name of Object.keys(sheets)) {
+        sink.appendToSheet(name, sheets[name]);
+      }
+      sink.deleteOldest(expired.length);
+
+      logInfo_(`保持期間を過ぎたログを移しました: ${expired.length}件`, { sheets: Object.keys(sheets), cutoff });
+      return expired.length;
+    });
+  });
+}
+
+/**
+ * 保持期間を過ぎたログを先頭から取り出す（ログは古い順に並んでいる）
+ * @param rows ログの行
+ * @param cutoff この日時（ISO 8601）より前のログを対象にする
+ */
+function findExpiredLogRows_(rows: string[][], cutoff: string): string[][] {
+  let count = 0;
+  while (count < rows.length && String(rows[count][0]) < cutoff) {
+    count++;
+  }
+  return rows.slice(0, count);
+}
+
+/**
+ * ログを移す先のシート名（Logs_yyyy-MM）ごとに分ける
+ * @param rows ログの行
+ */
+function groupLogRowsBySheet_(rows: string[][]): { [sheetName: string]: string[][] } {
+  const sheets: { [sheetName: string]: string[][] } = {};
+  for (const row of rows) {
+    const name = `${LOG_SHEET_NAME}_${String(row[0]).substring(0, 7)}`;
+    (sheets[name] = sheets[name] || []).push(row);
+  }
+  return sheets;
+}
+
+/**
+ * ログのローテーションを毎日実行するトリガーを登録する
+ */
+function setupLogRotation_(): void {
+  const triggers = getServices_().triggers;
+  triggers.deleteByHandler(LOG_ROTATION_HANDLER);
+  triggers.scheduleDaily(LOG_ROTATION_HANDLER, 3);
+  logInfo_(`ログのローテーションを登録しました: 毎日3時、保持日数=${getLogRetentionDays_()}日`);
+}
+
+/**
+ * スプレッドシートIDを設定する関数（改善版）
+ */
+function setupLogSpreadsheet_(): void {
+  // 既存のスプレッドシートがあるか確認
+  const existingId = getServices_().properties.getProperty(SPREADSHEET_ID_KEY);
+
+  let spreadsheetId: string;
+  let ss: GoogleAppsScript.Spreadsheet.Spreadsheet;
+
+  if (existingId) {
+    try {
+      // 既存のスプレッドシートを開く
+      ss = SpreadsheetApp.openById(existingId);
+      spreadsheetId = existingId;
+      logInfo_(`既存のログスプレッドシートを使用します: ${spreadsheetId}`);
+    } catch (e) {
+      // 既存のIDが無効な場合は新規作成
+      logWarning_(`既存のスプレッドシートが見つかりません: ${e}`);
+      ss = SpreadsheetApp.create('Slack Voice Converter Logs');
+      spreadsheetId = ss.getId();
+    }
+  } else {
+    // 新規作成
+    ss = SpreadsheetApp.create('Slack Voice Converter Logs');
+    spreadsheetId = ss.getId();
+    logInfo_(`新しいログスプレッドシートを作成しました: ${spreadsheetId}`);
+  }
+
+  // スプレッドシートIDを保存
+  getServices_().properties.setProperty(
+    SPREADSHEET_ID_KEY,
+    spreadsheetId
+  );
+
+  // シートが存在するか確認し、なければ作成（旧形式の見出し行は新しい列に置き換える）
+  const sheet = ss.getSheetByName(LOG_SHEET_NAME) || ss.insertSheet(LOG_SHEET_NAME);
+  formatLogSheet_(sheet);
+
+  // 文字起こし結果の後処理に使う用語集のシート
+  if (!ss.getSheetByName(GLOSSARY_SHEET_NAME)) {
+    const glossarySheet = ss.insertSheet(GLOSSARY_SHEET_NAME);
+    glossarySheet.appendRow(['Pattern', 'Replacement', 'Note']);
+    glossarySheet.setColumnWidth(1, 240); // Pattern（正規表現）
+    glossarySheet.setColumnWidth(2, 240); // Replacement
+    glossarySheet.setColumnWidth(3, 300); // Note
+    glossarySheet.setFrozenRows(1);
+    glossarySheet.getRange(1, 1, 1, 3).setBackground('#f3f3f3').setFontWeight('bold');
+  }
+
+  // 文字起こし結果を保存・検索するシート
+  if (!ss.getSheetByName(TRANSCRIPT_SHEET_NAME)) {
+    formatTranscriptSheet_(ss.insertSheet(TRANSCRIPT_SHEET_NAME));
+  }
+
+  setupLogRotation_();
+
+  // 設定情報を記録
+  logInfo_('ログスプレッドシートの設定が完了しました');
+
+  // スプレッドシートへのリンクをログに記録
+  logInfo_(`ログスプレッドシートURL: ${ss.getUrl()}`);
+}
+
+/**
+ * ログのシートに見出し行と書式を設定する
+ * @param sheet ログのシート
+ */
+function formatLogSheet_(sheet: GoogleAppsScript.Spreadsheet.Sheet): void {
+  sheet.getRange(1, 1, 1, LOG_SHEET_HEADER.length).setValues([LOG_SHEET_HEADER]);
+  // タイムスタンプを日付に変換させない（文字列のまま比較する）
+  sheet.getRange('A:A').setNumberFormat('@');
+  // 列の幅を調整
+  sheet.setColumnWidth(1, 180); // Timestamp
+  sheet.setColumnWidth(2, 70);  // Level
+  sheet.setColumnWidth(3, 200); // Correlation ID
+  sheet.setColumnWidth(4, 600); // Message
+  sheet.setColumnWidth(5, 300); // Context
+  // ヘッダー行を固定
+  sheet.setFrozenRows(1);
+  // ヘッダー行の書式設定
+  sheet.getRange(1, 1, 1, LOG_SHEET_HEADER.length).setBackground('#f3f3f3').setFontWeight('bold');
+}
@@ -0,0 +1,281 @@
+// 文字起こし結果のメッセージ（Block Kit）を組み立てる
+
+/** 文字起こしの状態 */
+type TranscriptStatus = 'complete' | 'partial' | 'processing' | 'failed' | 'unavailable';
+
+/**
+ * メッセージに表示する文字起こし結果
+ */
+interface TranscriptMessage {
+  text: string;
+  status: TranscriptStatus;
+  userId?: string; // ボイスメモの投稿者
+  durationMs?: number; // 音声の長さ
+  fileName?: string; // 元のファイル名
+  summary?: TranscriptSummary; // 長いボイスメモの要約（Summarizer.ts）
+  translation?: TranscriptTranslation; // 翻訳（Translation.ts）
+}
+
+/**
+ * Slackに送信するメッセージ本体
+ * textは通知やBlock Kit非対応クライアント向けのフォールバック
+ */
+interface RenderedMessage {
+  text: string;
+  blocks: any[];
+}
+
+// セクションブロックのテキスト上限
+const SLACK_SECTION_TEXT_LIMIT = 3000;
+// 1メッセージあたりのブロック数上限
+const SLACK_MAX_BLOCKS = 50;
+// プレビューのみの場合に付与する注記
+const PARTIAL_TRANSCRIPT_SUFFIX = ' (続きがあります)';
+
+/**
+ * 状態ごとの表示ラベル
+ */
+const TRANSCRIPT_STATUS_LABELS: { [status in TranscriptStatus]: string } = {
+  complete: ':white_check_mark: 完了',
+  partial: ':warning: プレビューのみ（続きがあります）',
+  processing: ':hourglass_flowing_sand: 処理中',
+  failed: ':x: 失敗',
+  unavailable: ':grey_question: 文字起こし情報なし'
+};
+
+/**
+ * Slackのファイル情報から表示用のメタデータを取り出す
+ * @param file ファイル情報オブジェクト
+ * @param text 表示する本文
+ * @param status 文字起こしの状態
+ */
+function createTranscriptMessage_(file: SlackFile, text: string, status: TranscriptStatus): TranscriptMessage {
+  return {
+    text: text,
+    status: status,
+    userId: file && file.user,
+    durationMs: file && file.duration_ms,
+    fileName: file && (file.name || file.title)
+  };
+}
+
+/**
+ * 文字起こし結果をBlock Kitのメッセージに変換する
+ * @param message 文字起こし結果
+ * @returns 送信用のメッセージ
+ */
+function renderTranscriptMessage_(message: TranscriptMessage): RenderedMessage {
+  return renderTranscriptMessages_([message]);
+}
+
+/**
+ * 複数ファイルの文字起こし結果を、元の順序で1件のBlock Kitメッセージにまとめる
+ * @param messages ファイルごとの文字起こし結果
+ * @returns 送信用のメッセージ
+ */
+function renderTranscriptMessages_(messages: TranscriptMessage[]): RenderedMessage {
+  const multiple = messages.length > 1;
+  const blocks: any[] = [];
+  let truncated = false;
+
+  // ヘッダー・区切り線とフッターの分を残し、本文（と翻訳）に使えるブロック数をファイルごとに割り当てる
+  const translatedCount = messages.filter(message => message.translation).length;
+  const bodyBudget = Math.max(1, Math.floor(
+    (SLACK_MAX_BLOCKS - 2 - messages.length * 2 - translatedCount) / Math.max(messages.length + translatedCount, 1)
+  ));
+
+  messages.forEach((message, index) => {
+    if (index > 0) {
+      blocks.push({ type: 'divider' });
+    }
+
+    const title = multiple
+      ? `:memo: *ボイスメモの文字起こし（${index + 1}/${messages.length}）*`
+      : ':memo: *ボイスメモの文字起こし*';
+    blocks.push({ type: 'section', text: { type: 'mrkdwn', text: title }, fields: buildTranscriptFields_(message) });
+
+    // 本文はセクションブロックの上限に合わせて分割する
+    const chunks = splitTextForBlocks_(escapeMrkdwn_(message.text.trim() || '（内容なし）'), SLACK_SECTION_TEXT_LIMIT);
+    for (const chunk of chunks.slice(0, bodyBudget)) {
+      blocks.push({ type: 'section', text: { type: 'mrkdwn', text: chunk } });
+    }
+    if (chunks.length > bodyBudget) {
+      truncated = true;
+    }
+
+    // 翻訳は本文の後に別のブロックとして表示する
+    if (message.translation) {
+      blocks.push({
+        type: 'section',
+        text: { type: 'mrkdwn', text: `:globe_with_meridians: *翻訳（${escapeMrkdwn_(message.translation.language)}）*` }
+      });
+      const translated = splitTextForBlocks_(escapeMrkdwn_(message.translation.text), SLACK_SECTION_TEXT_LIMIT);
+      for (const chunk of translated.slice(0, bodyBudget)) {
+        blocks.push({ type: 'section', text: { type: 'mrkdwn', text: chunk } });
+      }
+      if (translated.length > bodyBudget) {
+        truncated = true;
+      }
+    }
+  });
+
+  const footer = [':microphone: Slack Voice Converter'];
+  if (messages.some(message => message.status === 'partial')) {
+    footer.push('全文を取得できなかったため、プレビューのみ表示しています');
+  }
+  if (truncated) {
+    footer.push('文字数が多いため一部を省略しました');
+  }
+  blocks.push({ type: 'divider' });
+  blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: footer.join(' | ') }] });
+
+  const fallback = multiple
+    ? messages.map((message, index) => `[${index + 1}] ${message.fileName || ''}\n${buildFallbackText_(message)}`).join('\n\n')
+    : buildFallbackText_(messages[0] || { text: '', status: 'unavailable' });
+
+  return {
+    text: fallback,
+    blocks: blocks.slice(0, SLACK_MAX_BLOCKS)
+  };
+}
+
+/**
+ * 要約とアクションアイテムのメッセージを組み立てる（全文はスレッドへの返信として別に投稿する）
+ * 要約のないファイルは本文をそのまま表示する
+ * @param messages ファイルごとの文字起こし結果
+ * @returns 送信用のメッセージ
+ */
+function renderTranscriptSummaryMessage_(messages: TranscriptMessage[]): RenderedMessage {
+  const multiple = messages.length > 1;
+  const blocks: any[] = [];
+  const fallback: string[] = [];
+
+  messages.forEach((message, index) => {
+    if (index > 0) {
+      blocks.push({ type: 'divider' });
+    }
+
+    const title = multiple
+      ? `:memo: *ボイスメモの要約（${index + 1}/${messages.length}）*`
+      : ':memo: *ボイスメモの要約*';
+    blocks.push({ type: 'section', text: { type: 'mrkdwn', text: title }, fields: buildTranscriptFields_(message) });
+
+    const summary = message.summary;
+    const body = summary ? summary.summary : buildFallbackText_(message);
+    blocks.push({
+      type: 'section',
+      text: { type: 'mrkdwn', text: splitTextForBlocks_(escapeMrkdwn_(body || '（内容なし）'), SLACK_SECTION_TEXT_LIMIT)[0] || '（内容なし）' }
+    });
+    fallback.push(body);
+
+    if (summary && summary.actionItems.length > 0) {
+      const items = summary.actionItems.map(item => `• ${escapeMrkdwn_(item)}`).join('\n');
+      blocks.push({
+        type: 'section',
+        text: { type: 'mrkdwn', text: splitTextForBlocks_(`*アクションアイテム*\n${items}`, SLACK_SECTION_TEXT_LIMIT)[0] }
+      });
+      fallback.push(summary.actionItems.map(item => `• ${item}`).join('\n'));
+    }
+  });
+
+  blocks.push({ type: 'divider' });
+  blocks.push({
+    type: 'context',
+    elements: [{ type: 'mrkdwn', text: ':microphone: Slack Voice Converter | 全文はスレッドに投稿しました' }]
+  });
+
+  return {
+    text: fallback.join('\n\n'),
+    blocks: blocks.slice(0, SLACK_MAX_BLOCKS)
+  };
+}
+
+/**
+ * 投稿者・長さ・ファイル名・状態のフィールドを作成する
+ * @param message 文字起こし結果
+ */
+function buildTranscriptFields_(message: TranscriptMessage): any[] {
+  const fields: any[] = [];
+
+  if (message.userId) {
+    fields.push({ type: 'mrkdwn', text: `*投稿者*\n<@${message.userId}>` });
+  }
+  if (message.durationMs) {
+    fields.push({ type: 'mrkdwn', text: `*長さ*\n${formatDuration_(message.durationMs)}` });
+  }
+  if (message.fileName) {
+    fields.push({ type: 'mrkdwn', text: `*ファイル*\n${escapeMrkdwn_(message.fileName)}` });
+  }
+  fields.push({ type: 'mrkdwn', text: `*状態*\n${TRANSCRIPT_STATUS_LABELS[message.status]}` });
+
+  return fields;
+}
+
+/**
+ * 通知用のプレーンテキストを作成する
+ * @param message 文字起こし結果
+ */
+function buildFallbackText_(message: TranscriptMessage): string {
+  let body = message.text.trim();
+  if (message.status === 'partial') {
+    body = `${body}${PARTIAL_TRANSCRIPT_SUFFIX}`;
+  }
+  if (message.translation) {
+    body = `${body}\n\n[${message.translation.language}] ${message.translation.text}`;
+  }
+  return body;
+}
+
+/**
+ * テキストを指定文字数以下のチャンクに分割する
+ * なるべく改行・句点の位置で区切る
+ * @param text 分割するテキスト
+ * @param limit 1チャンクの最大文字数
+ * @returns 分割されたテキスト
+ */
+function splitTextForBlocks_(text: string, limit: number): string[] {
+  const chunks: string[] = [];
+  let rest = text;
+
+  while (rest.length > limit) {
+    const window = rest.substring(0, limit);
+    let cut = Math.max(window.lastIndexOf('\n'), window.lastIndexOf('。'), window.lastIndexOf('. '));
+    // 区切りが見つからない、または前半すぎる場合は上限で強制的に区切る
+    if (cut < limit / 2) {
+      cut = limit;
+      // エスケープ済みの文字参照（&amp;など）の途中で区切らない
+      const amp = window.lastIndexOf('&');
+      if (amp > limit - 6 && window.indexOf(';', amp) === -1) {
+        cut = amp;
+      }
+    } else {
+      cut += 1;
+    }
+    chunks.push(rest.substring(0, cut).trim());
+    rest = rest.substring(cut);
+  }
+
+  if (rest.trim()) {
+    chunks.push(rest.trim());
+  }
+  return chunks;
+}
+
+/**
+ * ミリ秒をm:ss形式に変換する
+ * @param ms ミリ秒
+ */
+function formatDuration_(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds < 10 ? '0' : ''}${seconds}`;
+}
+
+/**
+ * mrkdwnの制御文字をエスケープする
+ * @param text エスケープするテキスト
+ */
+function escapeMrkdwn_(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,120 @@
+// 文字起こし結果の投稿方法
+// channel: チャンネルに新規メッセージとして投稿（従来の動作）
+// thread:  元のボイスメモへのスレッド返信として投稿
+// replace: 元のボイスメモのメッセージを文字起こし結果で更新（chat.update）
+
+type PostingStrategy = 'channel' | 'thread' | 'replace';
+
+/**
+ * 投稿先となる元メッセージの情報
+ */
+interface PostTarget {
+  channelId: string;
+  timestamp: string; // 元メッセージのts
+  threadTs?: string; // 元メッセージがスレッド内で投稿された場合の親メッセージのts
+  teamId?: string; // ワークスペースID（ワークスペース別の設定に使用）
+  userId?: string; // ボイスメモの投稿者（ユーザー別の設定に使用）
+  responseUrl?: string; // スラッシュコマンド・ショートカットから依頼された場合のresponse_url
+  ephemeral?: boolean; // response_urlで依頼者のみに表示する場合はtrue
+  postingStrategy?: PostingStrategy; // 依頼ごとに指定された投稿方法（チャンネル設定より優先）
+  keepOriginal?: boolean; // 元のファイルを削除しない場合はtrue
+}
+
+/**
+ * 投稿結果
+ */
+interface PublishResult {
+  ok: boolean;
+  ts?: string; // 投稿（または更新）したメッセージのts（response_urlの場合は不明）
+  threadTs?: string; // スレッド内に投稿した場合の親メッセージのts
+}
+
+// 投稿方法を保存するプロパティキー
+const POSTING_STRATEGY_KEY = 'SLACK_POST_STRATEGY';
+
+/**
+ * 設定されている投稿方法を取得する
+ * @returns 投稿方法（未設定・不正な値の場合はchannel）
+ */
+function getPostingStrategy_(): PostingStrategy {
+  const value = getServices_().properties.getProperty(POSTING_STRATEGY_KEY);
+  if (value === 'thread' || value === 'replace' || value === 'channel') {
+    return value;
+  }
+  if (value) {
+    logWarning_(`不明な投稿方法が設定されています: ${value}。channelとして扱います`);
+  }
+  return 'channel';
+}
+
+/**
+ * 投稿方法を設定する
+ * @param strategy 投稿方法（channel / thread / replace）
+ */
+function setPostingStrategy_(strategy: PostingStrategy): void {
+  getServices_().properties.setProperty(POSTING_STRATEGY_KEY, strategy);
+  logInfo_(`投稿方法を設定しました: ${strategy}`);
+}
+
+/**
+ * 設定された投稿方法に従って文字起こし結果を投稿する
+ * replaceは文字起こしが完了した場合（final=true）のみ適用し、
+ * 処理中・失敗などの通知は元メッセージを残したままスレッドに返信する
+ * @param target 元メッセージの情報
+ * @param message 投稿するメッセージ
+ * @param final 文字起こしが完了した結果かどうか
+ * @returns 投稿結果
+ */
+function publishTranscription_(target: PostTarget, message: RenderedMessage, final: boolean): PublishResult {
+  // スラッシュコマンド・ショートカットからの依頼は投稿方法に関わらずresponse_urlで返す
+  if (target.responseUrl) {
+    return { ok: respondToCommand_(target.responseUrl, message, !!target.ephemeral) };
+  }
+
+  const post = (threadTs?: string): PublishResult => {
+    const ts = postTranscription_(target.channelId, message.text, threadTs, message.blocks, target.userId);
+    return ts ? { ok: true, ts, threadTs } : { ok: false };
+  };
+
+  // 依頼ごとの指定、投稿者の設定、チャンネル別の設定の順に優先する
+  const strategy = target.postingStrategy
+    || getUserPreferences_(target.userId).postingStrategy
+    || getChannelSettings_(target.channelId).postingStrategy
+    || getPostingStrategy_();
+  // 元メッセージがスレッド内にある場合は、同じスレッドに返信する
+  const replyThreadTs = target.threadTs || target.timestamp;
+
+  if (strategy === 'replace' && final && target.timestamp) {
+    // 元メッセージは投稿者のものなので、投稿者のトークン（ない場合はSLACK_USER_TOKEN）で更新する
+    if (updateMessage_(target.channelId, target.timestamp, message.text, message.blocks, getAuthorActionToken_(target.userId))) {
+      return { ok: true, ts: target.timestamp, threadTs: target.threadTs };
+    }
+    logWarning_('元メッセージの更新に失敗したため、スレッド返信として投稿します');
+    return post(replyThreadTs);
+  }
+
+  if (strategy === 'thread' || strategy === 'replace') {
+    return post(replyThreadTs);
+  }
+
+  // channel: スレッド内のボイスメモの場合のみ同じスレッドに投稿する
+  return post(target.threadTs);
+}
+
+/**
+ * 要約を投稿した後に、全文をスレッドへの返信として投稿する
+ * response_urlで依頼された場合は、同じresponse_urlに続けて返す
+ * @param target 元メッセージの情報
+ * @param result 要約の投稿結果
+ * @param message 全文のメッセージ
+ * @returns 投稿成功のブール値
+ */
+function publishFullTranscriptReply_(target: PostTarget, result: PublishResult, message: RenderedMessage): boolean {
+  if (target.responseUrl) {
+    return respondToCommand_(target.responseUrl, message, !!target.ephemeral);
+  }
+  if (!result.ts) {
+    return false;
+  }
+  return postTranscription_(target.channelId, message.text, result.threadTs || result.ts, message.blocks, target.userId) !== null;
+}
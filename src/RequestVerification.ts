@@ -0,0 +1,142 @@
+// Slackリクエストの検証
+// GASのdoPostではHTTPヘッダーを参照できないため、以下のいずれかで検証する
+// 1. 署名検証: リレー（Cloudflare Workers等）がX-Slack-Signature / X-Slack-Request-Timestampを
+//    クエリパラメータ slack_signature / slack_request_timestamp に載せ替えて転送する
+// 2. 検証トークン: ペイロードに含まれる token をアプリのVerification Tokenと照合する
+
+/** 検証結果 */
+interface RequestVerificationResult {
+  ok: boolean;
+  method: 'signature' | 'token' | 'none';
+  reason?: string;
+}
+
+// 署名のタイムスタンプとして許容する時刻のずれ（5分）
+const SLACK_SIGNATURE_MAX_AGE_SECONDS = 60 * 5;
+// 拒否したリクエストの件数を保存するキー
+const REJECTED_REQUEST_COUNT_KEY = 'REJECTED_REQUEST_COUNT';
+// 最後に拒否したリクエストの情報を保存するキー
+const LAST_REJECTED_REQUEST_KEY = 'LAST_REJECTED_REQUEST';
+
+/**
+ * doPostが受け取ったリクエストがSlackから送信されたものか検証する
+ * @param e doPostのイベントオブジェクト
+ * @param data パース済みのペイロード
+ * @returns 検証結果
+ */
+function verifySlackRequest_(e: GoogleAppsScript.Events.DoPost, data: any): RequestVerificationResult {
+  const scriptProperties = getServices_().properties;
+  const signingSecret = scriptProperties.getProperty('SLACK_SIGNING_SECRET');
+  const verificationToken = scriptProperties.getProperty('SLACK_VERIFICATION_TOKEN');
+  const requireSignature = scriptProperties.getProperty('SLACK_REQUIRE_SIGNATURE') === 'true';
+
+  const parameter = e.parameter || {};
+  const signature = parameter['slack_signature'];
+  const timestamp = parameter['slack_request_timestamp'];
+
+  // リレー経由で署名が転送されている場合は署名を検証する
+  if (signingSecret && signature && timestamp) {
+    return verifySlackSignature_(signingSecret, signature, timestamp, e.postData.contents, Date.now());
+  }
+
+  if (requireSignature) {
+    return { ok: false, method: 'signature', reason: '署名ヘッダーが転送されていません' };
+  }
+
+  // 検証トークンが設定されている場合はペイロードのtokenと照合する
+  if (verificationToken) {
+    if (data && typeof data.token === 'string' && safeEqual_(data.token, verificationToken)) {
+      return { ok: true, method: 'token' };
+    }
+    return { ok: false, method: 'token', reason: '検証トークンが一致しません' };
+  }
+
+  if (signingSecret) {
+    return { ok: false, method: 'signature', reason: '署名ヘッダーが転送されておらず、検証トークンも設定されていません' };
+  }
+
+  // 何も設定されていない場合は従来通り受け付ける
+  logWarning_('リクエスト検証用のシークレットが設定されていません。setupCredentials_()で署名シークレットを設定してください。');
+  return { ok: true, method: 'none' };
+}
+
+/**
+ * Slackの署名（v0）を検証する
+ * @param signingSecret 署名シークレット
+ * @param signature X-Slack-Signatureの値（v0=...）
+ * @param timestamp X-Slack-Request-Timestampの値（秒）
+ * @param body リクエストボディ（未加工）
+ * @param now 現在時刻（ミリ秒）
+ * @returns 検証結果
+ */
+function verifySlackSignature_(
+  signingSecret: string,
+  signature: string,
+  timestamp: string,
+  body: string,
+  now: number
+): RequestVerificationResult {
+  const requestTime = parseInt(timestamp, 10);
+  if (isNaN(requestTime)) {
+    return { ok: false, method: 'signature', reason: 'タイムスタンプが不正です' };
+  }
+
+  // リプレイ攻撃対策: 古すぎる（または未来すぎる）リクエストは拒否する
+  if (Math.abs(Math.floor(now / 1000) - requestTime) > SLACK_SIGNATURE_MAX_AGE_SECONDS) {
+    return { ok: false, method: 'signature', reason: 'タイムスタンプが許容範囲外です' };
+  }
+
+  const baseString = `v0:${timestamp}:${body}`;
+  const digest = Utilities.computeHmacSha256Signature(baseString, signingSecret, Utilities.Charset.UTF_8);
+  const expected = `v0=${bytesToHex_(digest)}`;
+
+  if (!safeEqual_(expected, signature)) {
+    return { ok: false, method: 'signature', reason: '署名が一致しません' };
+  }
+
+  return { ok: true, method: 'signature' };
+}
+
+/**
+ * バイト配列を16進文字列に変換する（GASのバイトは符号付き）
+ * @param bytes バイト配列
+ */
+function bytesToHex_(bytes: number[]): string {
+  return bytes
+    .map(b => (b < 0 ? b + 256 : b).toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * タイミング攻撃を避けるため、一定時間で文字列を比較する
+ * @param a 比較する文字列
+ * @param b 比較する文字列
+ */
+function safeEqual_(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * 拒否したリクエストを記録する
+ * @param result 検証結果
+ */
+function recordRejectedRequest_(result: RequestVerificationResult): void {
+  const count = withScriptLock_(() => {
+    const scriptProperties = getServices_().properties;
+    const next = parseInt(scriptProperties.getProperty(REJECTED_REQUEST_COUNT_KEY) || '0', 10) + 1;
+    scriptProperties.setProperty(REJECTED_REQUEST_COUNT_KEY, String(next));
+    scriptProperties.setProperty(
+      LAST_REJECTED_REQUEST_KEY,
+      JSON.stringify({ at: new Date().toISOString(), method: result.method, reason: result.reason })
+    );
+    return next;
+  });
+
+  logWarning_(`⛔ リクエストを拒否しました（累計${count}件）: 方式=${result.method}, 理由=${result.reason}`);
+}
@@ -0,0 +1,413 @@
+// GASサービスの抽象化
+// パイプラインはGASのグローバルサービスを直接参照せず、getServices_()経由で利用する
+// テスト時はsetServices()でインメモリの実装に差し替えることで、Node上で実行できる
+
+/**
+ * スクリプトプロパティ（PropertiesService）
+ */
+interface PropertyStore {
+  getProperty(key: string): string | null;
+  setProperty(key: string, value: string): void;
+  deleteProperty(key: string): void;
+  getProperties(): { [key: string]: string };
+}
+
+/**
+ * スクリプトキャッシュ（CacheService）
+ */
+interface KeyValueCache {
+  get(key: string): string | null;
+  put(key: string, value: string, expirationInSeconds?: number): void;
+  remove(key: string): void;
+}
+
+/**
+ * プロジェクトトリガー（ScriptApp）
+ */
+interface TriggerScheduler {
+  /** 登録済みトリガーのハンドラー関数名を取得する */
+  getHandlerFunctions(): string[];
+  /** 指定時間後に1回実行する時間主導型トリガーを登録する */
+  scheduleAfter(handlerFunction: string, delayMs: number): void;
+  /** 毎日指定した時刻に実行する時間主導型トリガーを登録する */
+  scheduleDaily(handlerFunction: string, hour: number): void;
+  /** 指定したハンドラー関数のトリガーをすべて削除し、削除した件数を返す */
+  deleteByHandler(handlerFunction: string): number;
+}
+
+/**
+ * HTTPレスポンス（UrlFetchAppのHTTPResponseのうち使用する部分）
+ */
+interface HttpResponse {
+  getResponseCode(): number;
+  getContentText(): string;
+  getBlob(): GoogleAppsScript.Base.Blob;
+  getHeaders(): object;
+}
+
+/**
+ * HTTPクライアント（UrlFetchApp）
+ */
+interface HttpClient {
+  fetch(url: string, params: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions): HttpResponse;
+}
+
+/**
+ * 排他制御（LockService）
+ */
+interface ScriptLock {
+  runExclusive<T>(fn: () => T): T;
+}
+
+/**
+ * 待機（Utilities.sleep）
+ */
+interface Clock {
+  sleep(ms: number): void;
+}
+
+/**
+ * アーカイブしたファイル
+ */
+interface ArchivedFile {
+  id: string;
+  url: string;
+}
+
+/**
+ * ファイルの保存先（DriveApp）
+ */
+interface FileArchive {
+  /** ルートフォルダ配下のパス（存在しないフォルダは作成する）にファイルを保存する */
+  saveFile(rootFolderId: string, path: string[], blob: GoogleAppsScript.Base.Blob): ArchivedFile;
+  /** ルートフォルダ配下のパスにテキストファイルを保存する */
+  saveText(rootFolderId: string, path: string[], name: string, content: string): ArchivedFile;
+  /** 保存したファイルを取得する */
+  getFile(id: string): GoogleAppsScript.Base.Blob;
+}
+
+/**
+ * ログの出力先（SpreadsheetApp）
+ */
+interface LogSink {
+  /** Logsシートの末尾に行をまとめて追加する */
+  append(rows: string[][]): void;
+  /** Logsシートの行（見出し行を除く、古い順）を取得する */
+  getRows(): string[][];
+  /** Logsシートの古い行から指定件数を削除する */
+  deleteOldest(count: number): void;
+  /** 指定したシート（なければ作成する）の末尾に行を追加する */
+  appendToSheet(name: string, rows: string[][]): void;
+}
+
+/**
+ * 翻訳（LanguageApp）
+ */
+interface Translator {
+  /** テキストを翻訳する（元の言語が空文字の場合は自動判定） */
+  translate(text: string, sourceLanguage: string, targetLanguage: string): string;
+}
+
+/**
+ * 用語集の取得元（SpreadsheetApp）
+ */
+interface GlossarySource {
+  /** 用語集の行（見出し行を除く）を取得する */
+  getRows(): string[][];
+}
+
+/**
+ * 文字起こし結果の保存先（SpreadsheetApp）
+ */
+interface TranscriptStore {
+  /** 文字起こし結果を追加する */
+  append(entries: StoredTranscript[]): void;
+  /** 保存した文字起こし結果をすべて取得する（古い順） */
+  getAll(): StoredTranscript[];
+}
+
+/**
+ * パイプラインが使用するサービス一式
+ */
+interface Services {
+  properties: PropertyStore;
+  cache: KeyValueCache;
+  triggers: TriggerScheduler;
+  http: HttpClient;
+  lock: ScriptLock;
+  clock: Clock;
+  archive: FileArchive;
+  logSink: LogSink;
+  glossary: GlossarySource;
+  translator: Translator;
+  transcriptStore: TranscriptStore;
+}
+
+// テスト用に差し替えられたサービス
+let servicesOverride: Services | null = null;
+
+/**
+ * 現在のサービスを取得する
+ * @returns 差し替えられたサービス、なければGASのサービス
+ */
+function getServices_(): Services {
+  return servicesOverride || createGasServices_();
+}
+
+/**
+ * サービスを差し替える（テスト用）
+ * @param services 使用するサービス、nullでGASのサービスに戻す
+ */
+function setServices_(services: Services | null): void {
+  servicesOverride = services;
+}
+
+/**
+ * GASのサービスを使用する実装を作成する
+ */
+function createGasServices_(): Services {
+  return {
+    properties: PropertiesService.getScriptProperties(),
+    cache: CacheService.getScriptCache(),
+    triggers: createGasTriggerScheduler_(),
+    http: UrlFetchApp,
+    lock: createGasScriptLock_(),
+    clock: { sleep: (ms: number) => Utilities.sleep(ms) },
+    archive: createDriveFileArchive_(),
+    logSink: createSpreadsheetLogSink_(),
+    glossary: createSpreadsheetGlossarySource_(),
+    translator: { translate: (text, sourceLanguage, targetLanguage) => LanguageApp.translate(text, sourceLanguage, targetLanguage) },
+    transcriptStore: createSpreadsheetTranscriptStore_()
+  };
+}
+
+/**
+ * ScriptAppを使用するトリガー管理
+ */
+function createGasTriggerScheduler_(): TriggerScheduler {
+  return {
+    getHandlerFunctions(): string[] {
+      return ScriptApp.getProjectTriggers().map(trigger => trigger.getHandlerFunction());
+    },
+    scheduleAfter(handlerFunction: string, delayMs: number): void {
+      ScriptApp.newTrigger(handlerFunction)
+        .timeBased()
+        .after(delayMs)
+        .create();
+    },
+    scheduleDaily(handlerFunction: string, hour: number): void {
+      ScriptApp.newTrigger(handlerFunction)
+        .timeBased()
+        .everyDays(1)
+        .atHour(hour)
+        .create();
+    },
+    deleteByHandler(handlerFunction: string): number {
+      let deleted = 0;
+      for (const trigger of ScriptApp.getProjectTriggers()) {
+        if (trigger.getHandlerFunction() === handlerFunction) {
+          ScriptApp.deleteTrigger(trigger);
+          deleted++;
+        }
+      }
+      return deleted;
+    }
+  };
+}
+
+/**
+ * LockServiceのスクリプトロックを使用する排他制御
+ * ロック中の処理からログを書き込むなど、同じ実行の中で入れ子になった場合は取得し直さない
+ */
+function createGasScriptLock_(): ScriptLock {
+  let depth = 0;
+  return {
+    runExclusive<T>(fn: () => T): T {
+      if (depth > 0) {
+        return fn();
+      }
+
+      const lock = LockService.getScriptLock();
+      lock.waitLock(10000);
+      depth++;
+      try {
+        return fn();
+      } finally {
+        depth--;
+        lock.releaseLock();
+      }
+    }
+  };
+}
+
+/**
+ * DriveAppを使用するファイルの保存先
+ */
+function createDriveFileArchive_(): FileArchive {
+  const getFolder = (rootFolderId: string, path: string[]): GoogleAppsScript.Drive.Folder => {
+    let folder = DriveApp.getFolderById(rootFolderId);
+    for (const name of path) {
+      const existing = folder.getFoldersByName(name);
+      folder = existing.hasNext() ? existing.next() : folder.createFolder(name);
+    }
+    return folder;
+  };
+
+  return {
+    saveFile(rootFolderId: string, path: string[], blob: GoogleAppsScript.Base.Blob): ArchivedFile {
+      const file = getFolder(rootFolderId, path).createFile(blob);
+      return { id: file.getId(), url: file.getUrl() };
+    },
+    saveText(rootFolderId: string, path: string[], name: string, content: string): ArchivedFile {
+      const file = getFolder(rootFolderId, path).createFile(name, content, MimeType.PLAIN_TEXT);
+      return { id: file.getId(), url: file.getUrl() };
+    },
+    getFile(id: string): GoogleAppsScript.Base.Blob {
+      return DriveApp.getFileById(id).getBlob();
+    }
+  };
+}
+
+/**
+ * ログスプレッドシートのLogsシートに書き込む出力先
+ */
+function createSpreadsheetLogSink_(): LogSink {
+  const openSpreadsheet = (): GoogleAppsScript.Spreadsheet.Spreadsheet | null => {
+    const spreadsheetId = PropertiesService.getScriptProperties().getProperty(SPREADSHEET_ID_KEY);
+    return spreadsheetId ? SpreadsheetApp.openById(spreadsheetId) : null;
+  };
+  const appendRows = (sheet: GoogleAppsScript.Spreadsheet.Sheet, rows: string[][]) => {
+    sheet.getRange(sheet.getLastRow() + 1, 1, rows.length, rows[0].length).setValues(rows);
+  };
+
+  return {
+    append(rows: string[][]): void {
+      const ss = openSpreadsheet();
+      if (!ss) {
+        return; // スプレッドシートが設定されていない場合は早期リターン
+      }
+
+      const sheet = ss.getSheetByName(LOG_SHEET_NAME);
+      if (!sheet) {
+        console.log('ログシートが見つかりません');
+        return;
+      }
+      appendRows(sheet, rows);
+    },
+    getRows(): string[][] {
+      const ss = openSpreadsheet();
+      const sheet = ss && ss.getSheetByName(LOG_SHEET_NAME);
+      if (!sheet || sheet.getLastRow() < 2) {
+        return [];
+      }
+
+      return sheet.getRange(2, 1, sheet.getLastRow() - 1, LOG_SHEET_HEADER.length).getValues()
+        .map(row => row.map(value => (value instanceof Date ? value.toISOString() : String(value))));
+    },
+    deleteOldest(count: number): void {
+      const ss = openSpreadsheet();
+      const sheet = ss && ss.getSheetByName(LOG_SHEET_NAME);
+      if (sheet && count > 0) {
+        sheet.deleteRows(2, count);
+      }
+    },
+    appendToSheet(name: string, rows: string[][]): void {
+      const ss = openSpreadsheet();
+      if (!ss || rows.length === 0) return;
+
+      let sheet = ss.getSheetByName(name);
+      if (!sheet) {
+        sheet = ss.insertSheet(name);
+        formatLogSheet_(sheet);
+      }
+      appendRows(sheet, rows);
+    }
+  };
+}
+
+/**
+ * ログスプレッドシートのGlossaryシートから用語集を読み込む取得元
+ */
+function createSpreadsheetGlossarySource_(): GlossarySource {
+  return {
+    getRows(): string[][] {
+      const spreadsheetId = PropertiesService.getScriptProperties().getProperty(SPREADSHEET_ID_KEY);
+      if (!spreadsheetId) {
+        return [];
+      }
+
+      const sheet = SpreadsheetApp.openById(spreadsheetId).getSheetByName(GLOSSARY_SHEET_NAME);
+      if (!sheet || sheet.getLastRow() < 2) {
+        return [];
+      }
+
+      return sheet.getRange(2, 1, sheet.getLastRow() - 1, 2).getDisplayValues();
+    }
+  };
+}
+
+/**
+ * ログスプレッドシートのTranscriptsシートに保存する文字起こし結果の保存先
+ * tsは数値に、=・+・-・@で始まる本文は数式に変換されないよう文字列として書き込む
+ */
+function createSpreadsheetTranscriptStore_(): TranscriptStore {
+  // セルに保存できる最大文字数
+  const maxCellLength = 50000;
+  const asText = (value: string) => (value ? `'${value}` : '');
+  const getSheet = (create: boolean): GoogleAppsScript.Spreadsheet.Sheet | null => {
+    const spreadsheetId = PropertiesService.getScriptProperties().getProperty(SPREADSHEET_ID_KEY);
+    if (!spreadsheetId) {
+      return null;
+    }
+
+    const ss = SpreadsheetApp.openById(spreadsheetId);
+    let sheet = ss.getSheetByName(TRANSCRIPT_SHEET_NAME);
+    if (!sheet && create) {
+      sheet = ss.insertSheet(TRANSCRIPT_SHEET_NAME);
+      formatTranscriptSheet_(sheet);
+    }
+    return sheet;
+  };
+
+  return {
+    append(entries: StoredTranscript[]): void {
+      const sheet = getSheet(true);
+      if (!sheet) {
+        throw new Error('ログスプレッドシートが設定されていません');
+      }
+
+      const rows = entries.map(entry => [
+        entry.createdAt,
+        entry.fileId,
+        entry.userId,
+        entry.channelId,
+        asText(entry.messageTs),
+        asText(entry.postedTs),
+        asText(entry.threadTs),
+        entry.durationMs,
+        entry.provider,
+        asText(entry.text.substring(0, maxCellLength - 1))
+      ]);
+      sheet.getRange(sheet.getLastRow() + 1, 1, rows.length, TRANSCRIPT_SHEET_HEADER.length).setValues(rows);
+    },
+    getAll(): StoredTranscript[] {
+      const sheet = getSheet(false);
+      if (!sheet || sheet.getLastRow() < 2) {
+        return [];
+      }
+
+      return sheet.getRange(2, 1, sheet.getLastRow() - 1, TRANSCRIPT_SHEET_HEADER.length).getValues().map(row => ({
+        createdAt: row[0] instanceof Date ? row[0].toISOString() : String(row[0]),
+        fileId: String(row[1]),
+        userId: String(row[2]),
+        channelId: String(row[3]),
+        messageTs: String(row[4]),
+        postedTs: String(row[5]),
+        threadTs: String(row[6]),
+        durationMs: Number(row[7]) || 0,
+        provider: String(row[8]),
+        text: String(row[9])
+      }));
+    }
+  };
+}
@@ -0,0 +1,442 @@
+// Slack Web APIクライアント
+// - 読み取り系はGET（クエリパラメータ）、書き込み系はPOST（JSON）で呼び出す
+// - HTTP 429はRetry-Afterに従って待機し、5xxは指数バックオフで再試行する
+// - ok:false の応答はSlackApiErrorとして送出する
+// - メソッドごとにボットトークン・ユーザートークンを使い分ける
+
+/**
+ * Slackネイティブの文字起こし情報
+ */
+interface SlackTranscription {
+  status: 'complete' | 'processing' | 'failed' | string;
+  locale?: string;
+  preview?: { content: string; has_more: boolean };
+  full?: { content: string };
+}
+
+/**
+ * Slackのファイル情報（files.info）
+ */
+interface SlackFile {
+  id: string;
+  name?: string;
+  title?: string;
+  filetype?: string;
+  mimetype?: string;
+  user?: string;
+  size?: number;
+  duration_ms?: number;
+  url_private_download?: string;
+  permalink?: string;
+  channels?: string[]; // 共有されている公開チャンネル
+  groups?: string[]; // 共有されているプライベートチャンネル
+  ims?: string[]; // 共有されているDM
+  transcription?: SlackTranscription;
+}
+
+/**
+ * Slackのチャンネル情報（conversations.info）
+ */
+interface SlackChannel {
+  id: string;
+  name?: string;
+  is_private?: boolean;
+  is_im?: boolean;
+  is_mpim?: boolean;
+}
+
+/**
+ * Slackのメッセージ（conversations.history / conversations.replies）
+ */
+interface SlackMessage {
+  ts: string;
+  thread_ts?: string;
+  user?: string;
+  subtype?: string;
+  text?: string;
+  files?: SlackFile[];
+  blocks?: any[];
+}
+
+/**
+ * Slack APIの共通応答
+ */
+interface SlackApiResponse {
+  ok: boolean;
+  error?: string;
+  [key: string]: any;
+}
+
+/**
+ * 投稿したメッセージの情報（chat.postMessage / chat.update）
+ */
+interface SlackMessageResponse extends SlackApiResponse {
+  channel: string;
+  ts: string;
+}
+
+/** 使用するトークンの種類 */
+type SlackTokenType = 'bot' | 'user';
+
+/**
+ * APIメソッドの呼び出し方法
+ */
+interface SlackMethodSpec {
+  httpMethod: 'get' | 'post';
+  token: SlackTokenType;
+}
+
+/**
+ * 呼び出しごとのオプション
+ */
+interface SlackCallOptions {
+  token?: string; // 指定した場合はメソッドの既定より優先する
+}
+
+/**
+ * Slack APIがok:falseを返した場合のエラー
+ */
+class SlackApiError extends Error {
+  constructor(public readonly method: string, public readonly code: string) {
+    super(`Slack API ${method} エラー: ${code}`);
+    this.name = 'SlackApiError';
+  }
+}
+
+/**
+ * 再試行しても成功しなかったHTTPエラー
+ */
+class SlackHttpError extends Error {
+  constructor(public readonly method: string, public readonly status: number) {
+    super(`Slack API ${method} HTTPエラー: ${status}`);
+    this.name = 'SlackHttpError';
+  }
+}
+
+// メソッドごとの呼び出し方法（未登録のメソッドはボットトークンでPOST）
+const SLACK_METHOD_SPECS: { [method: string]: SlackMethodSpec } = {
+  'auth.test': { httpMethod: 'post', token: 'bot' },
+  'conversations.history': { httpMethod: 'get', token: 'bot' },
+  'conversations.info': { httpMethod: 'get', token: 'bot' },
+  'conversations.replies': { httpMethod: 'get', token: 'bot' },
+  'files.info': { httpMethod: 'get', token: 'bot' },
+  'views.publish': { httpMethod: 'post', token: 'bot' },
+  // ユーザーとして投稿・編集・削除するためユーザートークンを使用する
+  'chat.postMessage': { httpMethod: 'post', token: 'user' },
+  'chat.update': { httpMethod: 'post', token: 'user' },
+  'files.delete': { httpMethod: 'post', token: 'user' },
+  'auth.revoke': { httpMethod: 'post', token: 'user' },
+  // files.uploadV2相当（アップロードURLの取得はフォーム形式のみ受け付けるためGET）
+  'files.getUploadURLExternal': { httpMethod: 'get', token: 'user' },
+  'files.completeUploadExternal': { httpMethod: 'post', token: 'user' }
+};
+
+// 5xxエラー時の最大再試行回数
+const SLACK_MAX_RETRIES = 3;
+// 5xxエラー時の初回待機時間（以降倍々で増やす）
+const SLACK_RETRY_BASE_DELAY_MS = 1000;
+// Retry-Afterで待機する時間の上限（GASの実行時間を使い切らないため）
+const SLACK_MAX_RETRY_AFTER_MS = 30000;
+
+/**
+ * Slack Web APIを呼び出す
+ * @param method APIメソッド名（例: files.info）
+ * @param params パラメータ
+ * @param options 呼び出しオプション
+ * @returns 応答（ok:trueのもの）
+ * @throws SlackApiError ok:falseの場合
+ * @throws SlackHttpError 再試行しても200以外の場合
+ */
+function callSlackApi_<T extends SlackApiResponse>(
+  method: string,
+  params: { [key: string]: any } = {},
+  options: SlackCallOptions = {}
+): T {
+  const spec = SLACK_METHOD_SPECS[method] || { httpMethod: 'post', token: 'bot' };
+  const token = options.token || getSlackToken_(spec.token);
+
+  let url = `https://slack.com/api/${method}`;
+  const request: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {
+    method: spec.httpMethod,
+    headers: { Authorization: `Bearer ${token}` },
+    muteHttpExceptions: true
+  };
+
+  if (spec.httpMethod === 'get') {
+    const query = Object.keys(params)
+      .filter(key => params[key] !== undefined && params[key] !== null)
+      .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(String(params[key]))}`)
+      .join('&');
+    if (query) url += `?${query}`;
+  } else {
+    request.contentType = 'application/json; charset=utf-8';
+    request.payload = JSON.stringify(params);
+  }
+
+  const response = fetchWithRetry_(method, url, request);
+  const data = JSON.parse(response.getContentText()) as T;
+  logDebug_(`Slack API ${method}`, { method, ok: data.ok, error: data.error });
+
+  if (!data.ok) {
+    throw new SlackApiError(method, data.error || 'unknown_error');
+  }
+  return data;
+}
+
+/**
+ * 429・5xxを再試行しながらリクエストを送信する
+ * @param method APIメソッド名（ログ・エラー用）
+ * @param url リクエストURL
+ * @param request リクエストオプション
+ * @returns 200の応答
+ * @throws SlackHttpError 再試行しても200以外の場合
+ */
+function fetchWithRetry_(
+  method: string,
+  url: string,
+  request: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions
+): HttpResponse {
+  const services = getServices_();
+  let attempt = 0;
+
+  while (true) {
+    const response = services.http.fetch(url, request);
+    const status = response.getResponseCode();
+    if (status === 200) {
+      return response;
+    }
+
+    if (attempt >= SLACK_MAX_RETRIES || (status !== 429 && status < 500)) {
+      throw new SlackHttpError(method, status);
+    }
+
+    const delayMs = status === 429
+      ? Math.min(getRetryAfterMs_(response), SLACK_MAX_RETRY_AFTER_MS)
+      : SLACK_RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
+    logWarning_(
+      `Slack API ${method} が ${status} を返したため ${delayMs}ms 後に再試行します（${attempt + 1}/${SLACK_MAX_RETRIES}）`,
+      { method, status, attempt: attempt + 1, delayMs }
+    );
+    services.clock.sleep(delayMs);
+    attempt++;
+  }
+}
+
+/**
+ * Retry-Afterヘッダーから待機時間を取得する
+ * @param response HTTPレスポンス
+ * @returns 待機時間（ミリ秒）、ヘッダーがない場合は1秒
+ */
+function getRetryAfterMs_(response: HttpResponse): number {
+  const headers = response.getHeaders() as { [key: string]: string };
+  for (const key of Object.keys(headers)) {
+    if (key.toLowerCase() === 'retry-after') {
+      const seconds = parseInt(headers[key], 10);
+      if (!isNaN(seconds)) return seconds * 1000;
+    }
+  }
+  return 1000;
+}
+
+/**
+ * 種類に応じたトークンを取得する
+ * @param type トークンの種類
+ */
+function getSlackToken_(type: SlackTokenType): string {
+  const config = getSlackConfig_();
+  return type === 'user' ? config.userToken : config.token;
+}
+
+/**
+ * ファイル情報を取得する（files.info）
+ * @param fileId ファイルID
+ * @param getTranscript 文字起こしの全文を含めるか
+ */
+function slackGetFile_(fileId: string, getTranscript: boolean = false): SlackFile {
+  const params: { [key: string]: any } = { file: fileId };
+  if (getTranscript) params.get_transcript = true;
+  return callSlackApi_<SlackApiResponse>('files.info', params).file as SlackFile;
+}
+
+/**
+ * チャンネル情報を取得する（conversations.info）
+ * @param channelId チャンネルID
+ */
+function slackGetChannel_(channelId: string): SlackChannel {
+  return callSlackApi_<SlackApiResponse>('conversations.info', { channel: channelId }).channel as SlackChannel;
+}
+
+/**
+ * チャンネルのメッセージ履歴を新しい順に取得する（conversations.history）
+ * @param channelId チャンネルID
+ * @param limit 取得する件数
+ */
+function slackGetHistory_(channelId: string, limit: number): SlackMessage[] {
+  return callSlackApi_<SlackApiResponse>('conversations.history', { channel: channelId, limit }).messages || [];
+}
+
+/**
+ * 指定したtsのメッセージを1件取得する（conversations.replies）
+ * スレッド内の返信も取得できるよう、conversations.historyではなくrepliesを使用する
+ * @param channelId チャンネルID
+ * @param ts メッセージのts
+ * @param threadTs スレッド内のメッセージの場合は親メッセージのts
+ * @returns メッセージ、見つからない場合はnull
+ */
+function slackGetMessage_(channelId: string, ts: string, threadTs?: string): SlackMessage | null {
+  const messages: SlackMessage[] = callSlackApi_<SlackApiResponse>('conversations.replies', {
+    channel: channelId,
+    ts: threadTs || ts,
+    oldest: ts,
+    latest: ts,
+    inclusive: true,
+    limit: 1
+  }).messages || [];
+  return messages.find(message => message.ts === ts) || null;
+}
+
+/**
+ * メッセージを投稿する（chat.postMessage）
+ * @param params channel・text・blocks・thread_tsなど
+ * @param options 呼び出しオプション
+ */
+function slackPostMessage_(params: { [key: string]: any }, options: SlackCallOptions = {}): SlackMessageResponse {
+  return callSlackApi_<SlackMessageResponse>('chat.postMessage', params, options);
+}
+
+/**
+ * メッセージを更新する（chat.update）
+ * @param params channel・ts・text・blocksなど
+ * @param options 呼び出しオプション
+ */
+function slackUpdateMessage_(params: { [key: string]: any }, options: SlackCallOptions = {}): SlackMessageResponse {
+  return callSlackApi_<SlackMessageResponse>('chat.update', params, options);
+}
+
+/**
+ * ファイルを削除する（files.delete）
+ * @param fileId ファイルID
+ * @param options 呼び出しオプション
+ */
+function slackDeleteFile_(fileId: string, options: SlackCallOptions = {}): void {
+  callSlackApi_<SlackApiResponse>('files.delete', { file: fileId }, options);
+}
+
+/**
+ * ファイルをアップロードしてチャンネルに共有する（files.uploadV2相当）
+ * アップロードURLを取得し、ファイルを送信してから共有を完了する
+ * @param blob アップロードするファイル
+ * @param channelId 共有先のチャンネルID
+ * @param threadTs スレッドに共有する場合の親メッセージのts
+ * @param options 呼び出しオプション
+ * @returns アップロードしたファイルのID
+ */
+function slackUploadFile_(
+  blob: GoogleAppsScript.Base.Blob,
+  channelId: string,
+  threadTs?: string,
+  options: SlackCallOptions = {}
+): string {
+  const bytes = blob.getBytes();
+  const upload = callSlackApi_<SlackApiResponse>('files.getUploadURLExternal', {
+    filename: blob.getName(),
+    length: bytes.length
+  }, options);
+
+  fetchWithRetry_('files.upload', upload.upload_url, {
+    method: 'post',
+    payload: bytes,
+    contentType: 'application/octet-stream',
+    muteHttpExceptions: true
+  });
+
+  const params: { [key: string]: any } = {
+    files: [{ id: upload.file_id, title: blob.getName() }],
+    channel_id: channelId
+  };
+  if (threadTs) params.thread_ts = threadTs;
+  callSlackApi_<SlackApiResponse>('files.completeUploadExternal', params, options);
+
+  return upload.file_id;
+}
+
+/**
+ * トークンを検証する（auth.test）
+ * @param token 検証するトークン
+ */
+function slackAuthTest_(token: string): SlackApiResponse {
+  return callSlackApi_<SlackApiResponse>('auth.test', {}, { token });
+}
+
+/**
+ * トークンを無効にする（auth.revoke）
+ * @param token 無効にするトークン
+ */
+function slackRevokeToken_(token: string): void {
+  callSlackApi_<SlackApiResponse>('auth.revoke', {}, { token });
+}
+
+/**
+ * OAuthの認可コードをトークンに交換する（oauth.v2.access）
+ * クライアント認証のためトークンは使わず、フォーム形式で送信する
+ * @param clientId アプリのClient ID
+ * @param clientSecret アプリのClient Secret
+ * @param code 認可コード
+ * @param redirectUri 認証時に指定したリダイレクトURL
+ * @throws SlackApiError ok:falseの場合
+ */
+function slackOAuthAccess_(clientId: string, clientSecret: string, code: string, redirectUri?: string): SlackApiResponse {
+  const payload: { [key: string]: string } = { client_id: clientId, client_secret: clientSecret, code };
+  if (redirectUri) payload.redirect_uri = redirectUri;
+
+  const response = fetchWithRetry_('oauth.v2.access', 'https://slack.com/api/oauth.v2.access', {
+    method: 'post',
+    payload,
+    muteHttpExceptions: true
+  });
+  const data = JSON.parse(response.getContentText()) as SlackApiResponse;
+  logDebug_('Slack API oauth.v2.access', { method: 'oauth.v2.access', ok: data.ok, error: data.error });
+
+  if (!data.ok) {
+    throw new SlackApiError('oauth.v2.access', data.error || 'unknown_error');
+  }
+  return data;
+}
+
+/**
+ * ユーザーのApp Homeタブを公開する（views.publish）
+ * @param userId 表示するユーザーのID
+ * @param view ホームタブのビュー（type: home）
+ */
+function slackPublishView_(userId: string, view: { [key: string]: any }): void {
+  callSlackApi_<SlackApiResponse>('views.publish', { user_id: userId, view });
+}
+
+/**
+ * スラッシュコマンドのresponse_urlにメッセージを送信する
+ * @param responseUrl スラッシュコマンドのペイロードに含まれるresponse_url
+ * @param body 送信するメッセージ（response_type・text・blocksなど）
+ * @throws SlackHttpError 再試行しても200以外の場合
+ */
+function slackRespond_(responseUrl: string, body: { [key: string]: any }): void {
+  fetchWithRetry_('response_url', responseUrl, {
+    method: 'post',
+    contentType: 'application/json; charset=utf-8',
+    payload: JSON.stringify(body),
+    muteHttpExceptions: true
+  });
+}
+
+/**
+ * プライベートファイルをダウンロードする（ボットトークンを使用）
+ * @param url url_private_download
+ * @returns ファイルのBlob
+ * @throws SlackHttpError 再試行しても200以外の場合
+ */
+function slackDownloadFile_(url: string): GoogleAppsScript.Base.Blob {
+  return fetchWithRetry_('files.download', url, {
+    method: 'get',
+    headers: { Authorization: `Bearer ${getSlackToken_('bot')}` },
+    muteHttpExceptions: true
+  }).getBlob();
+}
@@ -0,0 +1,242 @@
+// スラッシュコマンド（/transcribe）
+// アプリ導入前に投稿されたボイスメモなど、既存のボイスメモをオンデマンドで文字起こしする
+//   /transcribe                 … このチャンネルの最新のボイスメモ
+//   /transcribe <ファイルのリンク>  … 指定したファイル
+//   /transcribe <メッセージのリンク> … 指定したメッセージに含まれる音声ファイル
+//   /transcribe settings ...     … 個人設定の表示・変更（UserPreferences.ts）
+//   /transcribe search ...       … 保存した文字起こし結果の検索（TranscriptStore.ts）
+// コマンドには受付結果をエフェメラルで即時に応答し、文字起こし結果はジョブキュー経由でresponse_urlに投稿する
+// 他のチャンネルの内容をボットのトークンで取得して公開しないよう、対象はコマンドを実行したチャンネルのボイスメモに限る
+
+/**
+ * スラッシュコマンドのペイロード（application/x-www-form-urlencoded）
+ */
+interface SlashCommandPayload {
+  command: string;
+  text?: string;
+  token?: string;
+  team_id?: string;
+  channel_id: string;
+  channel_name?: string;
+  user_id?: string;
+  response_url: string;
+}
+
+/**
+ * /transcribe の対象指定
+ * latest: チャンネルの最新のボイスメモ / file: ファイルID / message: メッセージのリンク
+ */
+type TranscribeCommandArgument =
+  | { kind: 'latest' }
+  | { kind: 'file'; fileId: string }
+  | { kind: 'message'; channelId: string; ts: string; threadTs?: string };
+
+/**
+ * 文字起こし対象として特定したボイスメモ
+ */
+interface VoiceMemoSource {
+  files: SlackFile[];
+  timestamp: string; // ボイスメモのメッセージのts（ファイル指定の場合は空）
+  userId?: string; // ボイスメモの投稿者
+}
+
+// 文字起こしを行うスラッシュコマンド名
+const TRANSCRIBE_COMMAND = '/transcribe';
+// 最新のボイスメモを探すときに遡るメッセージ数
+const LATEST_VOICE_MEMO_SEARCH_LIMIT = 50;
+// コマンドの使い方
+const TRANSCRIBE_COMMAND_USAGE =
+  '使い方: `/transcribe [ファイルのリンク または メッセージのリンク]`（省略時はこのチャンネルの最新のボイスメモ）、`/transcribe search <キーワード>`';
+// 他のチャンネルのボイスメモを指定した場合の応答
+const OTHER_CHANNEL_VOICE_MEMO_MESSAGE = 'このチャンネルに投稿されたボイスメモのみ文字起こしできます。';
+
+/**
+ * doPostが受け取ったリクエストがスラッシュコマンドか判定する
+ * @param e doPostのイベントオブジェクト
+ */
+function isSlashCommandRequest_(e: GoogleAppsScript.Events.DoPost): boolean {
+  return !!(e.parameter && e.parameter['command']);
+}
+
+/**
+ * スラッシュコマンドのリクエストを検証して処理する
+ * @param e doPostのイベントオブジェクト
+ * @returns エフェメラルで表示される応答
+ */
+function handleSlashCommandRequest_(e: GoogleAppsScript.Events.DoPost): GoogleAppsScript.Content.TextOutput {
+  const payload = e.parameter as unknown as SlashCommandPayload;
+  logInfo_(`🔍 スラッシュコマンドを受信しました: ${payload.command} ${describeUserContent_(payload.text || '')}`);
+
+  // リクエストの検証（署名またはVerification Token）
+  const verification = verifySlackRequest_(e, payload);
+  if (!verification.ok) {
+    recordRejectedRequest_(verification);
+    return ContentService.createTextOutput('Unauthorized');
+  }
+
+  return ContentService.createTextOutput(handleSlashCommand_(payload));
+}
+
+/**
+ * スラッシュコマンドを処理する
+ * @param payload スラッシュコマンドのペイロード
+ * @returns エフェメラルで表示する応答テキスト
+ */
+function handleSlashCommand_(payload: SlashCommandPayload): string {
+  if (payload.command !== TRANSCRIBE_COMMAND) {
+    logWarning_(`サポート外のコマンド: ${payload.command}`);
+    return `サポートされていないコマンドです: ${payload.command}`;
+  }
+
+  // 個人設定はチャンネルに関係なく変更できる
+  const settings = (payload.text || '').trim().match(/^settings(?:\s+(.*))?$/i);
+  if (settings) {
+    return handleSettingsCommand_(payload.user_id, settings[1] || '');
+  }
+
+  // 文字起こし結果の検索もチャンネルに関係なく利用できる
+  const search = (payload.text || '').trim().match(/^search(?:\s+(.*))?$/i);
+  if (search) {
+    return handleTranscriptSearchCommand_(payload.user_id, payload.channel_id, search[1] || '');
+  }
+
+  const argument = parseTranscribeCommandArgument_(payload.text || '');
+  if (!argument) {
+    return TRANSCRIBE_COMMAND_USAGE;
+  }
+
+  // ボイスメモのチャンネルと結果を投稿するチャンネルは同じため、コマンドを実行したチャンネルのポリシーを確認する
+  if (argument.kind === 'message' && argument.channelId !== payload.channel_id) {
+    logWarning_(`他のチャンネルのメッセージが指定されました: ${argument.channelId}`);
+    return OTHER_CHANNEL_VOICE_MEMO_MESSAGE;
+  }
+  const decision = evaluateChannelPolicy_(payload.channel_id, getCommandChannelType_(payload.channel_name));
+  if (!decision.allowed) {
+    logInfo_(`処理対象外のチャンネルです: ${decision.channel.name || decision.channel.id}（${decision.reason}）`);
+    return 'このチャンネルでは文字起こしを利用できません。';
+  }
+
+  let source: VoiceMemoSource | null;
+  try {
+    source = findVoiceMemo_(payload.channel_id, argument);
+  } catch (error) {
+    logError_(`ボイスメモの取得エラー: ${error}`);
+    if (error instanceof SlackApiError && error.code === 'not_in_channel') {
+      return 'ボイスメモを取得できませんでした。アプリをチャンネルに招待してください。';
+    }
+    return `ボイスメモを取得できませんでした: ${error instanceof SlackApiError ? error.code : error}`;
+  }
+
+  if (!source) {
+    return 'ボイスメモが見つかりませんでした。';
+  }
+  if (argument.kind === 'file' && !isFileSharedInChannel_(source.files[0], payload.channel_id)) {
+    logWarning_(`このチャンネルに共有されていないファイルが指定されました: ${source.files[0].id}`);
+    return OTHER_CHANNEL_VOICE_MEMO_MESSAGE;
+  }
+
+  const fileIds = source.files.map(file => file.id);
+  const inProgress = fileIds.some(fileId => isTranscriptionJobActive_(getTranscriptionJob_(fileId)));
+
+  // 文字起こしはジョブキューに任せ、完了したらresponse_urlで投稿する（文字起こし中の場合は返信先を追加する）
+  const target: PostTarget = {
+    channelId: payload.channel_id,
+    timestamp: source.timestamp,
+    teamId: payload.team_id,
+    userId: source.userId,
+    responseUrl: payload.response_url,
+    keepOriginal: true
+  };
+  for (const fileId of fileIds) {
+    enqueueTranscriptionJob_(fileId, target, fileIds, false);
+  }
+
+  logInfo_(`スラッシュコマンドで文字起こしを受け付けました: ${fileIds.join(', ')}`);
+  if (inProgress) {
+    return ':hourglass_flowing_sand: このボイスメモはすでに文字起こし中です。完了するとこのチャンネルにも投稿します。';
+  }
+  return `:hourglass_flowing_sand: ボイスメモ（${fileIds.length}件）の文字起こしを開始しました。完了するとこのチャンネルに投稿します。`;
+}
+
+/**
+ * /transcribe の引数を解釈する
+ * @param text コマンドの引数
+ * @returns 対象指定、解釈できない場合はnull
+ */
+function parseTranscribeCommandArgument_(text: string): TranscribeCommandArgument | null {
+  // リンクが <url|label> 形式でエスケープされている場合はURL部分を取り出す
+  const value = text.trim().replace(/^<([^|>]+)(\|[^>]*)?>$/, '$1');
+  if (!value) {
+    return { kind: 'latest' };
+  }
+
+  // メッセージのリンク: https://xxx.slack.com/archives/C0123/p1700000000000100(?thread_ts=...)
+  const permalink = value.match(/\/archives\/([A-Z0-9]+)\/p(\d{10})(\d{6})(?:\?(.*))?$/);
+  if (permalink) {
+    const threadTs = (permalink[4] || '').match(/(?:^|&)thread_ts=(\d+\.\d+)/);
+    return {
+      kind: 'message',
+      channelId: permalink[1],
+      ts: `${permalink[2]}.${permalink[3]}`,
+      threadTs: threadTs ? threadTs[1] : undefined
+    };
+  }
+
+  // ファイルのリンク（/files/U0123/F0123/name.m4a、/files-pri/T0123-F0123/...）またはファイルID
+  const file = value.match(/(?:^|[\/-])(F[A-Z0-9]{6,})(?:[\/?#]|$)/);
+  if (file) {
+    return { kind: 'file', fileId: file[1] };
+  }
+
+  return null;
+}
+
+/**
+ * 引数で指定されたボイスメモを特定する
+ * @param channelId コマンドを実行したチャンネルのID
+ * @param argument 対象指定
+ * @returns 音声ファイルと元メッセージ、見つからない場合はnull
+ * @throws SlackApiError / SlackHttpError メッセージの取得に失敗した場合
+ */
+function findVoiceMemo_(channelId: string, argument: TranscribeCommandArgument): VoiceMemoSource | null {
+  if (argument.kind === 'file') {
+    const file = getFileInfo_(argument.fileId);
+    if (!file || getAudioFiles_([file]).length === 0) {
+      return null;
+    }
+    return { files: [file], timestamp: '', userId: file.user };
+  }
+
+  if (argument.kind === 'message') {
+    const message = slackGetMessage_(argument.channelId, argument.ts, argument.threadTs);
+    const files = message ? getAudioFiles_(message.files) : [];
+    return message && files.length > 0 ? { files, timestamp: argument.ts, userId: message.user } : null;
+  }
+
+  // 新しい順に並んだ履歴から、音声ファイルを含む最初のメッセージを探す
+  for (const message of slackGetHistory_(channelId, LATEST_VOICE_MEMO_SEARCH_LIMIT)) {
+    const files = getAudioFiles_(message.files);
+    if (files.length > 0) {
+      return { files, timestamp: message.ts, userId: message.user };
+    }
+  }
+  return null;
+}
+
+/**
+ * ファイルがチャンネルに共有されているか判定する
+ * @param file files.infoで取得したファイル
+ * @param channelId チャンネルID
+ */
+function isFileSharedInChannel_(file: SlackFile, channelId: string): boolean {
+  return [...(file.channels || []), ...(file.groups || []), ...(file.ims || [])].indexOf(channelId) !== -1;
+}
+
+/**
+ * コマンド・ショートカットのペイロードに含まれるチャンネル名からchannel_typeを推定する
+ * （DMの場合はチャンネル名がdirectmessageになる）
+ * @param channelName ペイロードのチャンネル名
+ */
+function getCommandChannelType_(channelName: string | undefined): string | undefined {
+  return channelName === 'directmessage' ? 'im' : undefined;
+}
@@ -0,0 +1,127 @@
+// 長いボイスメモの要約
+// 一定の文字数を超えるトランスクリプトは、OpenAI互換のChat Completions API（ローカルのモデルサーバーも可）で
+// 要約とアクションアイテムを作成し、要約をメッセージに、全文をスレッドへの返信として投稿する
+
+/**
+ * 要約の結果
+ */
+interface TranscriptSummary {
+  summary: string;
+  actionItems: string[]; // アクションアイテム・TODO
+}
+
+/**
+ * 要約に使用するChat Completions APIの設定
+ */
+interface SummarizerConfig extends ChatCompletionConfig {
+  minLength: number; // 要約する最小の文字数
+}
+
+// 要約に使用するAPIの設定を保存するプロパティキー
+const SUMMARIZER_API_BASE_URL_KEY = 'SUMMARIZER_API_BASE_URL';
+const SUMMARIZER_API_KEY_KEY = 'SUMMARIZER_API_KEY';
+const SUMMARIZER_MODEL_KEY = 'SUMMARIZER_MODEL';
+const SUMMARIZER_MIN_LENGTH_KEY = 'SUMMARIZER_MIN_LENGTH';
+// 既定のモデル
+const DEFAULT_SUMMARIZER_MODEL = 'gpt-4o-mini';
+// 既定の要約する最小の文字数
+const DEFAULT_SUMMARIZER_MIN_LENGTH = 800;
+// 要約を依頼するプロンプト
+const SUMMARIZER_SYSTEM_PROMPT = [
+  'あなたはボイスメモの文字起こしを整理するアシスタントです。',
+  '文字起こしを3文以内で要約し、話し手が行う予定のこと・依頼されたこと（アクションアイテム・TODO）を抜き出してください。',
+  '要約とアクションアイテムは文字起こしと同じ言語で書いてください。',
+  '次のJSONのみを返してください: {"summary": "要約", "actionItems": ["アクションアイテム"]}',
+  'アクションアイテムがない場合はactionItemsを空の配列にしてください。'
+].join('\n');
+
+/**
+ * 要約に使用するAPIを設定する
+ * @param baseUrl APIのベースURL（例: https://api.openai.com/v1、http://localhost:11434/v1）、空文字で要約を無効化
+ * @param apiKey APIキー（ローカルサーバーなど不要な場合は省略）
+ * @param model モデル名
+ * @param minLength 要約する最小の文字数
+ */
+function setupSummarizer_(baseUrl: string, apiKey?: string, model?: string, minLength?: number): void {
+  const scriptProperties = getServices_().properties;
+  if (!baseUrl) {
+    scriptProperties.deleteProperty(SUMMARIZER_API_BASE_URL_KEY);
+    logInfo_('要約を無効化しました');
+    return;
+  }
+
+  scriptProperties.setProperty(SUMMARIZER_API_BASE_URL_KEY, baseUrl);
+  if (apiKey) scriptProperties.setProperty(SUMMARIZER_API_KEY_KEY, apiKey);
+  if (model) scriptProperties.setProperty(SUMMARIZER_MODEL_KEY, model);
+  if (minLength !== undefined) scriptProperties.setProperty(SUMMARIZER_MIN_LENGTH_KEY, String(minLength));
+  logInfo_(`要約に使用するAPIを設定しました: URL=${baseUrl}, モデル=${model || DEFAULT_SUMMARIZER_MODEL}`);
+}
+
+/**
+ * スクリプトプロパティから要約に使用するAPIの設定を取得する
+ * @returns 設定、要約が無効な場合はnull
+ */
+function getSummarizerConfig_(): SummarizerConfig | null {
+  const scriptProperties = getServices_().properties;
+  const baseUrl = scriptProperties.getProperty(SUMMARIZER_API_BASE_URL_KEY);
+  if (!baseUrl) return null;
+
+  const minLength = parseInt(scriptProperties.getProperty(SUMMARIZER_MIN_LENGTH_KEY) || '', 10);
+  return {
+    baseUrl: baseUrl.replace(/\/+$/, ''),
+    apiKey: scriptProperties.getProperty(SUMMARIZER_API_KEY_KEY),
+    model: scriptProperties.getProperty(SUMMARIZER_MODEL_KEY) || DEFAULT_SUMMARIZER_MODEL,
+    minLength: isNaN(minLength) ? DEFAULT_SUMMARIZER_MIN_LENGTH : minLength
+  };
+}
+
+/**
+ * 長いトランスクリプトを要約する
+ * 要約が無効な場合、文字数が少ない場合、APIの呼び出しに失敗した場合はnullを返す（全文のみを投稿する）
+ * @param text トランスクリプト
+ * @returns 要約、要約しない場合はnull
+ */
+function summarizeTranscript_(text: string): TranscriptSummary | null {
+  const config = getSummarizerConfig_();
+  if (!config || text.trim().length < config.minLength) {
+    return null;
+  }
+
+  logInfo_(`トランスクリプトを要約します: ${text.length}文字, モデル=${config.model}`);
+
+  try {
+    const summary = parseTranscriptSummary_(requestChatCompletion_(config, SUMMARIZER_SYSTEM_PROMPT, text));
+    if (!summary) {
+      logWarning_('要約APIの応答を解析できませんでした');
+    }
+    return summary;
+  } catch (error) {
+    logError_(`要約中のエラー: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * モデルの応答から要約を取り出す
+ * コードブロックや前後の文章が含まれていても、最初のJSONオブジェクトを解析する
+ * @param content モデルの応答
+ * @returns 要約、解析できない場合はnull
+ */
+function parseTranscriptSummary_(content: string): TranscriptSummary | null {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const data = JSON.parse(content.substring(start, end + 1));
+    const summary = typeof data.summary === 'string' ? data.summary.trim() : '';
+    if (!summary) return null;
+
+    const actionItems = Array.isArray(data.actionItems)
+      ? data.actionItems.map((item: any) => String(item).trim()).filter((item: string) => item)
+      : [];
+    return { summary, actionItems };
+  } catch (error) {
+    return null;
+  }
+}
@@ -0,0 +1,179 @@
+// 文字起こし履歴
+// ボイスメモ（メッセージ）ごとの処理結果を投稿者別にスクリプトプロパティへ保存し、App Homeに表示する
+// 1件のプロパティ（9KBまで）に収まるよう、新しいものから一定件数だけ保持する
+
+/**
+ * 処理したボイスメモ1件分の記録
+ */
+interface TranscriptRecord {
+  id: string; // 先頭の音声ファイルのID
+  userId: string; // ボイスメモの投稿者
+  teamId?: string;
+  channelId: string;
+  messageTs: string; // 元メッセージのts（ファイル指定の場合は空）
+  threadTs?: string;
+  postedTs?: string; // 文字起こし結果を投稿したメッセージのts
+  keepOriginal?: boolean; // 元のファイルを削除しない依頼（スラッシュコマンド・ショートカット）の場合はtrue
+  ephemeral?: boolean; // 依頼者のみに表示した場合はtrue
+  fileIds: string[];
+  fileNames: string[];
+  status: TranscriptStatus;
+  error?: string;
+  restoredAt?: number; // 削除した元の音声を復元した日時
+  createdAt: number;
+  updatedAt: number;
+}
+
+// 履歴を保存するプロパティキーの接頭辞
+const TRANSCRIPT_HISTORY_PREFIX = 'TRANSCRIPT_HISTORY_';
+// ユーザーごとに保持する件数
+const TRANSCRIPT_HISTORY_LIMIT = 20;
+// 1件のプロパティに保存する最大サイズ（スクリプトプロパティの上限9KBに余裕を持たせる）
+const TRANSCRIPT_HISTORY_MAX_BYTES = 8000;
+
+/**
+ * ユーザーの文字起こし履歴を新しい順に取得する
+ * @param userId SlackのユーザーID
+ */
+function getTranscriptHistory_(userId: string): TranscriptRecord[] {
+  const json = getServices_().properties.getProperty(`${TRANSCRIPT_HISTORY_PREFIX}${userId}`);
+  if (!json) return [];
+
+  try {
+    return JSON.parse(json) as TranscriptRecord[];
+  } catch (error) {
+    logError_(`文字起こし履歴の形式が不正です: ${userId}, ${error}`);
+    return [];
+  }
+}
+
+/**
+ * 履歴から1件取得する
+ * @param userId SlackのユーザーID
+ * @param recordId 記録のID
+ * @returns 記録、存在しない場合はnull
+ */
+function findTranscriptRecord_(userId: string, recordId: string): TranscriptRecord | null {
+  return getTranscriptHistory_(userId).find(record => record.id === recordId) || null;
+}
+
+/**
+ * 記録を保存する（同じIDの記録は置き換えて先頭に移動する）
+ * @param record 保存する記録
+ */
+function saveTranscriptRecord_(record: TranscriptRecord): void {
+  withScriptLock_(() => {
+    const history = [record, ...getTranscriptHistory_(record.userId).filter(existing => existing.id !== record.id)]
+      .slice(0, TRANSCRIPT_HISTORY_LIMIT);
+
+    let json = JSON.stringify(history);
+    while (history.length > 1 && json.length > TRANSCRIPT_HISTORY_MAX_BYTES) {
+      history.pop();
+      json = JSON.stringify(history);
+    }
+
+    getServices_().properties.setProperty(`${TRANSCRIPT_HISTORY_PREFIX}${record.userId}`, json);
+  });
+}
+
+/**
+ * ジョブキューに登録したボイスメモを処理中として記録する
+ * @param target 元メッセージの情報
+ * @param files 音声ファイル
+ */
+function recordTranscriptProcessing_(target: PostTarget, files: SlackFile[]): void {
+  if (!target.userId || files.length === 0) return;
+
+  saveTranscriptRecord_(createTranscriptRecord_(target, files.map(file => file.id), files.map(file => file.name || file.title || file.id), 'processing'));
+}
+
+/**
+ * 投稿した文字起こし結果を記録する
+ * @param target 元メッセージの情報
+ * @param items ファイルごとの文字起こし結果
+ * @param result 投稿結果
+ */
+function recordTranscriptResult_(target: PostTarget, items: FileTranscription[], result: PublishResult): void {
+  if (!target.userId || items.length === 0) return;
+
+  const statuses = items.map(item => item.message.status);
+  let status: TranscriptStatus;
+  if (statuses.every(value => value === 'complete')) {
+    status = 'complete';
+  } else if (statuses.every(value => value === 'complete' || value === 'partial')) {
+    status = 'partial';
+  } else {
+    status = 'failed';
+  }
+
+  const record = createTranscriptRecord_(
+    target,
+    items.map(item => item.fileId),
+    items.map(item => item.message.fileName || item.fileId),
+    result.ok ? status : 'failed'
+  );
+  record.postedTs = result.ts;
+  if (!result.ok) {
+    record.error = '文字起こし結果の投稿に失敗しました';
+  } else if (status === 'failed') {
+    record.error = '文字起こしできなかったファイルがあります';
+  }
+  saveTranscriptRecord_(record);
+}
+
+/**
+ * 記録を作成する（既存の記録があれば作成日時を引き継ぐ）
+ * @param target 元メッセージの情報
+ * @param fileIds 音声ファイルのID
+ * @param fileNames 音声ファイルの名前
+ * @param status 状態
+ */
+function createTranscriptRecord_(
+  target: PostTarget,
+  fileIds: string[],
+  fileNames: string[],
+  status: TranscriptStatus
+): TranscriptRecord {
+  const userId = target.userId as string;
+  const now = Date.now();
+  const existing = findTranscriptRecord_(userId, fileIds[0]);
+
+  return {
+    id: fileIds[0],
+    userId,
+    teamId: target.teamId,
+    channelId: target.channelId,
+    messageTs: target.timestamp,
+    threadTs: target.threadTs,
+    keepOriginal: target.keepOriginal,
+    ephemeral: target.ephemeral,
+    fileIds,
+    fileNames,
+    status,
+    createdAt: existing ? existing.createdAt : now,
+    updatedAt: now
+  };
+}
+
+/**
+ * 削除した元の音声を復元したことを記録する
+ * @param userId SlackのユーザーID
+ * @param recordId 記録のID
+ */
+function markTranscriptRecordRestored_(userId: string, recordId: string): void {
+  const record = findTranscriptRecord_(userId, recordId);
+  if (!record) return;
+
+  record.restoredAt = Date.now();
+  record.updatedAt = record.restoredAt;
+  saveTranscriptRecord_(record);
+}
+
+/**
+ * メッセージへのリンクを作成する
+ * @param channelId チャンネルID
+ * @param ts メッセージのts
+ */
+function buildMessageLink_(channelId: string, ts: string): string {
+  return `https://slack.com/archives/${channelId}/p${ts.replace('.', '')}`;
+}
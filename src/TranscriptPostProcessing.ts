@@ -0,0 +1,203 @@
+// 文字起こし結果の後処理
+// 取得したトランスクリプトを投稿前に整形する（フィラーの除去・句読点の補完・文の分割・全角半角の統一・用語集による置換）
+// 各ステップは純粋な関数で、スクリプトプロパティで有効・無効を切り替えられる
+// 用語集はログスプレッドシートのGlossaryシート（A列: 正規表現、B列: 置換後の文字列）で管理する
+
+/**
+ * 後処理のステップ
+ */
+type PostProcessingStep = 'fillers' | 'punctuation' | 'sentences' | 'width' | 'glossary';
+
+/**
+ * 用語集の1行
+ */
+interface GlossaryEntry {
+  pattern: RegExp;
+  replacement: string;
+}
+
+// 有効なステップを保存するプロパティキー
+const POST_PROCESSING_STEPS_KEY = 'POST_PROCESSING_STEPS';
+// ステップの実行順（既定ではすべて有効）
+const POST_PROCESSING_STEPS: PostProcessingStep[] = ['fillers', 'width', 'punctuation', 'sentences', 'glossary'];
+// 用語集のシート名
+const GLOSSARY_SHEET_NAME = 'Glossary';
+
+// 除去するフィラー（「あの人」「その後」のような指示語を消さないよう、伸ばし音または区切りが続くものに限る）
+const FILLER_PATTERN = /(^|[\s、。，．,.！？!?])(?:え[ーぇ]+(?:と|っと)?|えっと|ええと|あ[ーぁ]+|あのー+|あの(?=[\s、,])|そのー+|その(?=[\s、,])|うーん|うー+|んー+|まぁ|まあ(?=[\s、,]))[ー〜]*[\s、,]*/g;
+// 日本語の文字（ひらがな・カタカナ・漢字・長音）
+const JAPANESE_CHAR = '[\\u3040-\\u30FF\\u3400-\\u9FFF\\uFF66-\\uFF9F]';
+// 文末とみなす語尾
+const SENTENCE_ENDING = /(?:です|ます|でした|ました|ません|ましょう|ください|でしょう|だった|ですね|ますね|ですよ|ますよ|ですか|ますか)$/;
+
+/**
+ * 有効な後処理のステップを設定する
+ * @param steps 有効にするステップ（空配列ですべて無効）
+ */
+function setPostProcessingSteps_(steps: PostProcessingStep[]): void {
+  const unknown = steps.filter(step => POST_PROCESSING_STEPS.indexOf(step) === -1);
+  if (unknown.length > 0) {
+    throw new Error(`不明な後処理のステップです: ${unknown.join(', ')}`);
+  }
+  getServices_().properties.setProperty(POST_PROCESSING_STEPS_KEY, steps.join(','));
+  logInfo_(`後処理のステップを設定しました: ${steps.join(', ') || 'なし'}`);
+}
+
+/**
+ * 有効な後処理のステップを実行順に取得する
+ */
+function getPostProcessingSteps_(): PostProcessingStep[] {
+  const value = getServices_().properties.getProperty(POST_PROCESSING_STEPS_KEY);
+  if (value === null) {
+    return POST_PROCESSING_STEPS.slice();
+  }
+  const enabled = value.split(',').map(step => step.trim());
+  return POST_PROCESSING_STEPS.filter(step => enabled.indexOf(step) !== -1);
+}
+
+/**
+ * 設定に従ってトランスクリプトを後処理する
+ * @param text 取得したトランスクリプト
+ * @returns 後処理したトランスクリプト（失敗した場合は元のテキスト）
+ */
+function applyTranscriptPostProcessing_(text: string): string {
+  const steps = getPostProcessingSteps_();
+  if (steps.length === 0) return text;
+
+  try {
+    const glossary = steps.indexOf('glossary') !== -1 ? loadGlossary_() : [];
+    return postProcessTranscript_(text, steps, glossary);
+  } catch (error) {
+    logError_(`トランスクリプトの後処理エラー: ${error}`);
+    return text;
+  }
+}
+
+/**
+ * トランスクリプトを後処理する
+ * @param text トランスクリプト
+ * @param steps 実行するステップ（実行順は固定）
+ * @param glossary 用語集
+ */
+function postProcessTranscript_(text: string, steps: PostProcessingStep[], glossary: GlossaryEntry[]): string {
+  let result = text;
+  for (const step of POST_PROCESSING_STEPS) {
+    if (steps.indexOf(step) === -1) continue;
+
+    switch (step) {
+      case 'fillers':
+        result = removeFillers_(result);
+        break;
+      case 'width':
+        result = normalizeWidth_(result);
+        break;
+      case 'punctuation':
+        result = normalizePunctuation_(result);
+        break;
+      case 'sentences':
+        result = splitSentences_(result);
+        break;
+      case 'glossary':
+        result = applyGlossary_(result, glossary);
+        break;
+    }
+  }
+  return result;
+}
+
+/**
+ * フィラー（えー、あのー など）を除去する
+ * @param text テキスト
+ */
+function removeFillers_(text: string): string {
+  // 連続するフィラーに対応するため、変化がなくなるまで繰り返す
+  let previous: string;
+  let result = text;
+  do {
+    previous = result;
+    result = result.replace(FILLER_PATTERN, '$1');
+  } while (result !== previous);
+
+  return result.replace(/^[\s、]+/, '').replace(/[ \t]{2,}/g, ' ');
+}
+
+/**
+ * 全角英数字・記号を半角に、半角カタカナを全角に統一する
+ * @param text テキスト
+ */
+function normalizeWidth_(text: string): string {
+  return text
+    .replace(/[！-～]/g, char => {
+      // 日本語の文中で使う句読点・括弧は全角のまま残す
+      if ('！？（）：'.indexOf(char) !== -1) return char;
+      return String.fromCharCode(char.charCodeAt(0) - 0xFEE0);
+    })
+    .replace(/　/g, ' ')
+    .replace(/[｡-ﾟ]+/g, chars => chars.normalize('NFKC'));
+}
+
+/**
+ * 句読点を補う
+ * 日本語の間の半角の句読点を全角にし、日本語の間の空白を文末なら「。」、それ以外は「、」に置き換える
+ * @param text テキスト
+ */
+function normalizePunctuation_(text: string): string {
+  const between = (pattern: string) => new RegExp(`(${JAPANESE_CHAR})${pattern}(?=${JAPANESE_CHAR})`, 'g');
+
+  let result = text
+    .replace(between('\\s*[,，]\\s*'), '$1、')
+    .replace(between('\\s*[.．]\\s*'), '$1。')
+    .replace(between('[ \\t\\u3000]+'), (match, char, offset, whole: string) => {
+      const before = whole.substring(0, offset) + char;
+      return char + (SENTENCE_ENDING.test(before) ? '。' : '、');
+    })
+    .replace(/([、。])[、。]+/g, '$1');
+
+  // 文末の語尾で終わっている場合は「。」を補う
+  result = result.replace(/[ \t]+$/gm, '');
+  return result.split('\n').map(line => (SENTENCE_ENDING.test(line) ? `${line}。` : line)).join('\n');
+}
+
+/**
+ * 1文ずつ改行する
+ * @param text テキスト
+ */
+function splitSentences_(text: string): string {
+  return text.replace(/([。！？])[ \t　]*(?=[^\s。！？」』）])/g, '$1\n');
+}
+
+/**
+ * 用語集の置換を適用する
+ * @param text テキスト
+ * @param glossary 用語集（上の行から順に適用する）
+ */
+function applyGlossary_(text: string, glossary: GlossaryEntry[]): string {
+  return glossary.reduce((result, entry) => result.replace(entry.pattern, entry.replacement), text);
+}
+
+/**
+ * 用語集の行を解析する
+ * 空行と正規表現として不正な行は除外する
+ * @param rows シートの行（A列: 正規表現、B列: 置換後の文字列）
+ */
+function parseGlossary_(rows: string[][]): GlossaryEntry[] {
+  const entries: GlossaryEntry[] = [];
+  for (const row of rows) {
+    const source = String(row[0] || '').trim();
+    if (!source) continue;
+
+    try {
+      entries.push({ pattern: new RegExp(source, 'g'), replacement: String(row[1] || '') });
+    } catch (error) {
+      logWarning_(`用語集の正規表現が不正です: ${source}, ${error}`);
+    }
+  }
+  return entries;
+}
+
+/**
+ * ログスプレッドシートの用語集を読み込む
+ */
+function loadGlossary_(): GlossaryEntry[] {
+  return parseGlossary_(getServices_().glossary.getRows());
+}
@@ -0,0 +1,221 @@
+// 文字起こし結果の保存と検索
+// 完了した文字起こし結果をファイルごとに保存先（既定はログスプレッドシートのTranscriptsシート）へ全文で保存し、
+// /transcribe search で検索できるようにする（元のファイルを削除した後も内容を探せるように）
+// 検索結果は、自分のボイスメモ・コマンドを実行したチャンネル・公開チャンネルのものに限る
+//   /transcribe search <キーワード> [from:@user] [in:#channel] [after:yyyy-mm-dd]
+
+/**
+ * 保存した文字起こし結果（ファイル1件分）
+ */
+interface StoredTranscript {
+  createdAt: string; // 保存した日時（ISO 8601）
+  fileId: string;
+  userId: string; // ボイスメモの投稿者
+  channelId: string;
+  messageTs: string; // 元メッセージのts（ファイル指定の場合は空）
+  postedTs: string; // 文字起こし結果を投稿したメッセージのts（response_urlの場合は空）
+  threadTs: string; // 投稿したスレッドの親メッセージのts
+  durationMs: number; // 音声の長さ（不明な場合は0）
+  provider: string; // 文字起こしプロバイダー
+  text: string; // 後処理済みの全文
+}
+
+/**
+ * /transcribe search の検索条件
+ */
+interface TranscriptSearchQuery {
+  keywords: string[]; // すべてを含むものを検索する（大文字・小文字は区別しない）
+  userId?: string; // from:@user
+  channelId?: string; // in:#channel
+  after?: number; // after:yyyy-mm-dd（その日の0時以降）
+}
+
+// 文字起こし結果のシート名
+const TRANSCRIPT_SHEET_NAME = 'Transcripts';
+// 文字起こし結果のシートの見出し行
+const TRANSCRIPT_SHEET_HEADER = [
+  'Created At', 'File ID', 'User ID', 'Channel ID', 'Message TS', 'Posted TS', 'Thread TS', 'Duration (ms)', 'Provider', 'Text'
+];
+// 検索結果に表示する最大件数
+const TRANSCRIPT_SEARCH_LIMIT = 10;
+// 検索結果の抜粋の前後の文字数
+const TRANSCRIPT_SNIPPET_CONTEXT = 40;
+// 検索コマンドの使い方
+const TRANSCRIPT_SEARCH_USAGE =
+  '使い方: `/transcribe search <キーワード> [from:@ユーザー] [in:#チャンネル] [after:2026-01-31]`';
+
+/**
+ * 投稿した文字起こし結果を保存する
+ * 文字起こしが完了して内容があるファイルのみ保存する
+ * @param target 元メッセージの情報
+ * @param items ファイルごとの文字起こし結果
+ * @param result 投稿結果
+ */
+function storeTranscripts_(target: PostTarget, items: FileTranscription[], result: PublishResult): void {
+  const createdAt = new Date().toISOString();
+  const entries: StoredTranscript[] = items
+    .filter(item => !item.empty && (item.message.status === 'complete' || item.message.status === 'partial'))
+    .map(item => ({
+      createdAt,
+      fileId: item.fileId,
+      userId: target.userId || item.message.userId || '',
+      channelId: target.channelId,
+      messageTs: target.timestamp,
+      postedTs: result.ts || '',
+      threadTs: result.threadTs || '',
+      durationMs: item.message.durationMs || 0,
+      provider: item.provider,
+      text: item.message.text
+    }));
+  if (entries.length === 0) return;
+
+  try {
+    // 同時に保存する他の実行と書き込み位置が重ならないよう、ロック中に追記する
+    withScriptLock_(() => getServices_().transcriptStore.append(entries));
+    logInfo_(`文字起こし結果を保存しました: ${entries.map(entry => entry.fileId).join(', ')}`);
+  } catch (error) {
+    // 保存に失敗しても投稿・削除の処理は続ける
+    logError_(`❌ 文字起こし結果の保存に失敗しました: ${error}`);
+  }
+}
+
+/**
+ * /transcribe search の引数を解釈する
+ * ユーザー・チャンネルはエスケープされた形式（<@U0123|name>・<#C0123|name>）またはIDで指定する
+ * @param text search以降の引数
+ * @returns 検索条件、キーワードも条件もない場合・日付が不正な場合はnull
+ */
+function parseTranscriptSearchQuery_(text: string): TranscriptSearchQuery | null {
+  const query: TranscriptSearchQuery = { keywords: [] };
+
+  for (const token of text.trim().split(/\s+/).filter(Boolean)) {
+    const option = token.match(/^(from|in|after):(.+)$/i);
+    if (!option) {
+      query.keywords.push(token.toLowerCase());
+      continue;
+    }
+
+    const value = option[2];
+    switch (option[1].toLowerCase()) {
+      case 'from': {
+        const user = value.match(/^<@([UW][A-Z0-9]+)(?:\|[^>]*)?>$/) || value.match(/^@?([UW][A-Z0-9]+)$/);
+        if (!user) return null;
+        query.userId = user[1];
+        break;
+      }
+      case 'in': {
+        const channel = value.match(/^<#([CGD][A-Z0-9]+)(?:\|[^>]*)?>$/) || value.match(/^#?([CGD][A-Z0-9]+)$/);
+        if (!channel) return null;
+        query.channelId = channel[1];
+        break;
+      }
+      default: {
+        const date = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+        if (!date) return null;
+        query.after = new Date(Number(date[1]), Number(date[2]) - 1, Number(date[3])).getTime();
+      }
+    }
+  }
+
+  const hasCondition = query.keywords.length > 0 || !!query.userId || !!query.channelId || query.after !== undefined;
+  return hasCondition ? query : null;
+}
+
+/**
+ * 保存した文字起こし結果を検索する
+ * @param query 検索条件
+ * @returns 条件に一致した文字起こし結果（新しい順）
+ */
+function searchTranscripts_(query: TranscriptSearchQuery): StoredTranscript[] {
+  return getServices_().transcriptStore.getAll()
+    .filter(entry => {
+      if (query.userId && entry.userId !== query.userId) return false;
+      if (query.channelId && entry.channelId !== query.channelId) return false;
+      if (query.after !== undefined && new Date(entry.createdAt).getTime() < query.after) return false;
+      const text = entry.text.toLowerCase();
+      return query.keywords.every(keyword => text.indexOf(keyword) >= 0);
+    })
+    .reverse();
+}
+
+/**
+ * 検索したユーザーが文字起こし結果を閲覧できるか判定する
+ * 自分のボイスメモ、コマンドを実行したチャンネル、公開チャンネルのものは閲覧できる
+ * DM（D・Gで始まるID）や、ボットが退出するなどして確認できないチャンネルは非公開とみなす
+ * @param entry 文字起こし結果
+ * @param userId 検索したユーザー
+ * @param channelId コマンドを実行したチャンネル
+ */
+function canViewStoredTranscript_(entry: StoredTranscript, userId: string | undefined, channelId: string): boolean {
+  if (entry.userId === userId || entry.channelId === channelId) {
+    return true;
+  }
+  if (/^[DG]/.test(entry.channelId)) {
+    return false;
+  }
+  const channel = resolveChannel_(entry.channelId);
+  return !channel.unresolved && !channel.isPrivate && !channel.isDirectMessage;
+}
+
+/**
+ * /transcribe search を処理する
+ * @param userId 検索したユーザー
+ * @param channelId コマンドを実行したチャンネル
+ * @param text search以降の引数
+ * @returns エフェメラルで表示する応答テキスト（一致した抜粋とリンク）
+ */
+function handleTranscriptSearchCommand_(userId: string | undefined, channelId: string, text: string): string {
+  const query = parseTranscriptSearchQuery_(text);
+  if (!query) {
+    return TRANSCRIPT_SEARCH_USAGE;
+  }
+
+  let matches: StoredTranscript[];
+  try {
+    matches = searchTranscripts_(query).filter(entry => canViewStoredTranscript_(entry, userId, channelId));
+  } catch (error) {
+    logError_(`❌ 文字起こし結果の検索に失敗しました: ${error}`);
+    return '文字起こし結果を検索できませんでした。';
+  }
+
+  logInfo_(`文字起こし結果を検索しました: ${matches.length}件`);
+  if (matches.length === 0) {
+    return '一致する文字起こし結果は見つかりませんでした。';
+  }
+
+  const lines = matches.slice(0, TRANSCRIPT_SEARCH_LIMIT).map(entry => {
+    const ts = entry.postedTs || entry.messageTs;
+    const date = entry.createdAt.substring(0, 10);
+    const link = ts ? `<${buildMessageLink_(entry.channelId, ts)}|${date}>` : date;
+    return `• ${link} <@${entry.userId}> <#${entry.channelId}>\n> ${buildTranscriptSnippet_(entry.text, query.keywords)}`;
+  });
+  const more = matches.length > TRANSCRIPT_SEARCH_LIMIT ? `\n（ほか${matches.length - TRANSCRIPT_SEARCH_LIMIT}件）` : '';
+  return `:mag: ${matches.length}件の文字起こし結果が見つかりました\n${lines.join('\n')}${more}`;
+}
+
+/**
+ * 最初に一致したキーワードの前後を抜粋する
+ * @param text 全文
+ * @param keywords キーワード（小文字）
+ */
+function buildTranscriptSnippet_(text: string, keywords: string[]): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const positions = keywords.map(keyword => flat.toLowerCase().indexOf(keyword)).filter(index => index >= 0);
+  const index = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, index - TRANSCRIPT_SNIPPET_CONTEXT);
+  const end = Math.min(flat.length, index + TRANSCRIPT_SNIPPET_CONTEXT * 2);
+  return `${start > 0 ? '…' : ''}${flat.substring(start, end)}${end < flat.length ? '…' : ''}`;
+}
+
+/**
+ * 文字起こし結果のシートに見出し行と書式を設定する
+ * @param sheet 文字起こし結果のシート
+ */
+function formatTranscriptSheet_(sheet: GoogleAppsScript.Spreadsheet.Sheet): void {
+  sheet.getRange(1, 1, 1, TRANSCRIPT_SHEET_HEADER.length).setValues([TRANSCRIPT_SHEET_HEADER]);
+  sheet.setColumnWidth(1, 180); // Created At
+  sheet.setColumnWidth(TRANSCRIPT_SHEET_HEADER.length, 600); // Text
+  sheet.setFrozenRows(1);
+  sheet.getRange(1, 1, 1, TRANSCRIPT_SHEET_HEADER.length).setBackground('#f3f3f3').setFontWeight('bold');
+}
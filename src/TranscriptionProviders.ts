@@ -0,0 +1,258 @@
+// 文字起こしプロバイダー
+// slack:   Slackネイティブの文字起こし（file.transcription）を使用する
+// whisper: 音声をダウンロードし、OpenAI Whisper互換のAPI（ローカルサーバーも可）で文字起こしする
+
+/**
+ * 文字起こしの結果
+ */
+interface TranscriptionResult {
+  status: TranscriptStatus;
+  text: string;
+  provider: string;
+  language?: string; // 文字起こしのメタデータから分かった音声の言語（ロケール）
+  error?: string;
+}
+
+/**
+ * 文字起こしのオプション
+ */
+interface TranscriptionOptions {
+  language?: string; // 音声の言語（チャンネル設定などで指定）
+}
+
+/**
+ * 文字起こしプロバイダー
+ */
+interface TranscriptionProvider {
+  name: string;
+  /**
+   * ファイルを文字起こしする
+   * @param file Slackのファイル情報オブジェクト
+   * @param options 文字起こしのオプション
+   */
+  transcribe(file: SlackFile, options: TranscriptionOptions): TranscriptionResult;
+}
+
+/**
+ * Whisper互換APIの設定
+ */
+interface WhisperConfig {
+  baseUrl: string;
+  apiKey: string | null;
+  model: string;
+  language: string | null;
+}
+
+// プロバイダーのフォールバック順を保存するキー（ワークスペース別は末尾に _<チームID> を付与）
+const TRANSCRIPTION_PROVIDERS_KEY = 'TRANSCRIPTION_PROVIDERS';
+// 既定のフォールバック順
+const DEFAULT_TRANSCRIPTION_PROVIDERS = ['slack'];
+// Whisper APIに送信できるファイルサイズの上限（25MB）
+const WHISPER_MAX_FILE_BYTES = 25 * 1024 * 1024;
+
+/**
+ * ワークスペースで使用するプロバイダーの順序を取得する
+ * @param teamId ワークスペースID（指定した場合はワークスペース別の設定を優先）
+ * @returns プロバイダー名の配列
+ */
+function getTranscriptionProviderNames_(teamId?: string): string[] {
+  const scriptProperties = getServices_().properties;
+  const value =
+    (teamId && scriptProperties.getProperty(`${TRANSCRIPTION_PROVIDERS_KEY}_${teamId}`)) ||
+    scriptProperties.getProperty(TRANSCRIPTION_PROVIDERS_KEY);
+
+  if (!value) {
+    return DEFAULT_TRANSCRIPTION_PROVIDERS;
+  }
+
+  const names = value.split(',').map(name => name.trim()).filter(name => name);
+  return names.length > 0 ? names : DEFAULT_TRANSCRIPTION_PROVIDERS;
+}
+
+/**
+ * プロバイダーのフォールバック順を設定する
+ * @param names プロバイダー名の配列（例: ['slack', 'whisper']）
+ * @param teamId ワークスペースID（省略時は全ワークスペース共通）
+ */
+function setTranscriptionProviders_(names: string[], teamId?: string): void {
+  const key = teamId ? `${TRANSCRIPTION_PROVIDERS_KEY}_${teamId}` : TRANSCRIPTION_PROVIDERS_KEY;
+  getServices_().properties.setProperty(key, names.join(','));
+  logInfo_(`文字起こしプロバイダーを設定しました: ${names.join(' → ')}${teamId ? ` (ワークスペース=${teamId})` : ''}`);
+}
+
+/**
+ * 名前からプロバイダーを生成する
+ * @param name プロバイダー名
+ * @returns プロバイダー、不明な名前の場合はnull
+ */
+function getTranscriptionProvider_(name: string): TranscriptionProvider | null {
+  switch (name) {
+    case 'slack':
+      return createSlackTranscriptionProvider_();
+    case 'whisper':
+      return createWhisperTranscriptionProvider_(getWhisperConfig_());
+    default:
+      logWarning_(`不明な文字起こしプロバイダー: ${name}`);
+      return null;
+  }
+}
+
+/**
+ * フォールバックチェーンに従って文字起こしを行う
+ * 本文を取得できたプロバイダーの結果を採用し、どのプロバイダーも取得できなかった場合は
+ * 最初のプロバイダーの結果を返す
+ * @param file Slackのファイル情報オブジェクト
+ * @param teamId ワークスペースID
+ * @param options 文字起こしのオプション
+ * @returns 文字起こし結果
+ */
+function transcribeWithFallback_(file: SlackFile, teamId?: string, options: TranscriptionOptions = {}): TranscriptionResult {
+  const results: TranscriptionResult[] = [];
+
+  for (const name of getTranscriptionProviderNames_(teamId)) {
+    const provider = getTranscriptionProvider_(name);
+    if (!provider) continue;
+
+    let result: TranscriptionResult;
+    try {
+      result = provider.transcribe(file, options);
+    } catch (error) {
+      result = { status: 'failed', text: '', provider: name, error: String(error) };
+    }
+
+    logInfo_(`文字起こしプロバイダー ${name}: 状態=${result.status}${result.error ? `, エラー=${result.error}` : ''}`);
+
+    if ((result.status === 'complete' || result.status === 'partial') && result.text.trim()) {
+      return result;
+    }
+    results.push(result);
+  }
+
+  return results[0] || { status: 'unavailable', text: '', provider: 'none', error: 'プロバイダーが設定されていません' };
+}
+
+/**
+ * Slackネイティブの文字起こしを使用するプロバイダー
+ */
+function createSlackTranscriptionProvider_(): TranscriptionProvider {
+  return {
+    name: 'slack',
+    transcribe(file: SlackFile): TranscriptionResult {
+      if (!file.transcription) {
+        return { status: 'unavailable', text: '', provider: 'slack' };
+      }
+
+      const transcriptionStatus = file.transcription.status;
+      if (transcriptionStatus === 'processing' || transcriptionStatus === 'failed') {
+        return { status: transcriptionStatus, text: '', provider: 'slack' };
+      }
+      if (transcriptionStatus !== 'complete') {
+        return { status: 'unavailable', text: '', provider: 'slack', error: `不明な状態: ${transcriptionStatus}` };
+      }
+
+      const language = file.transcription.locale;
+      const preview = file.transcription.preview;
+      if (!preview || !preview.content) {
+        logInfo_('トランスクリプションが完了していますが、内容が見つかりません');
+        return { status: 'complete', text: '', provider: 'slack', language };
+      }
+
+      // プレビューのみで一部の場合は完全版を取得
+      if (preview.has_more) {
+        logInfo_('トランスクリプションの続きがあります。完全版を取得します。');
+        const fullTranscription = getFullTranscription_(file.id);
+        if (fullTranscription) {
+          return { status: 'complete', text: fullTranscription, provider: 'slack', language };
+        }
+        logInfo_('完全版トランスクリプトの取得に失敗しました。プレビュー版を使用します。');
+        return { status: 'partial', text: preview.content, provider: 'slack', language };
+      }
+
+      return { status: 'complete', text: preview.content, provider: 'slack', language };
+    }
+  };
+}
+
+/**
+ * スクリプトプロパティからWhisper互換APIの設定を取得する
+ */
+function getWhisperConfig_(): WhisperConfig {
+  const scriptProperties = getServices_().properties;
+  return {
+    baseUrl: (scriptProperties.getProperty('WHISPER_API_BASE_URL') || 'https://api.openai.com/v1').replace(/\/+$/, ''),
+    apiKey: scriptProperties.getProperty('WHISPER_API_KEY'),
+    model: scriptProperties.getProperty('WHISPER_MODEL') || 'whisper-1',
+    language: scriptProperties.getProperty('WHISPER_LANGUAGE')
+  };
+}
+
+/**
+ * Whisper互換APIの設定を保存する
+ * @param baseUrl APIのベースURL（例: https://api.openai.com/v1、http://localhost:8000/v1）
+ * @param apiKey APIキー（ローカルサーバーなど不要な場合は省略）
+ * @param model モデル名
+ * @param language 音声の言語（例: ja）
+ */
+function setupWhisperProvider_(baseUrl: string, apiKey?: string, model?: string, language?: string): void {
+  const scriptProperties = getServices_().properties;
+  scriptProperties.setProperty('WHISPER_API_BASE_URL', baseUrl);
+  if (apiKey) scriptProperties.setProperty('WHISPER_API_KEY', apiKey);
+  if (model) scriptProperties.setProperty('WHISPER_MODEL', model);
+  if (language) scriptProperties.setProperty('WHISPER_LANGUAGE', language);
+  logInfo_(`Whisper互換APIを設定しました: URL=${baseUrl}, モデル=${model || 'whisper-1'}`);
+}
+
+/**
+ * Whisper互換APIを使用するプロバイダー
+ * @param config APIの設定
+ */
+function createWhisperTranscriptionProvider_(config: WhisperConfig): TranscriptionProvider {
+  return {
+    name: 'whisper',
+    transcribe(file: SlackFile, options: TranscriptionOptions): TranscriptionResult {
+      if (!file.url_private_download) {
+        return { status: 'failed', text: '', provider: 'whisper', error: 'ダウンロードURLがありません' };
+      }
+      if (file.size && file.size > WHISPER_MAX_FILE_BYTES) {
+        return { status: 'failed', text: '', provider: 'whisper', error: `ファイルサイズが上限を超えています: ${file.size}` };
+      }
+
+      const audio = downloadSlackFile_(file.url_private_download);
+      if (!audio) {
+        return { status: 'failed', text: '', provider: 'whisper', error: '音声ファイルのダウンロードに失敗しました' };
+      }
+      audio.setName(file.name || `${file.id}.${file.filetype || 'm4a'}`);
+
+      const payload: { [key: string]: any } = {
+        file: audio,
+        model: config.model,
+        response_format: 'json'
+      };
+      const language = options.language || config.language;
+      if (language) {
+        payload.language = language;
+      }
+
+      const headers: { [key: string]: string } = {};
+      if (config.apiKey) {
+        headers['Authorization'] = `Bearer ${config.apiKey}`;
+      }
+
+      // payloadにBlobを含めるとmultipart/form-dataとして送信される
+      const response = getServices_().http.fetch(`${config.baseUrl}/audio/transcriptions`, {
+        method: 'post',
+        headers: headers,
+        payload: payload,
+        muteHttpExceptions: true
+      });
+
+      const responseCode = response.getResponseCode();
+      if (responseCode !== 200) {
+        return { status: 'failed', text: '', provider: 'whisper', error: `ステータスコード ${responseCode}` };
+      }
+
+      const responseData = JSON.parse(response.getContentText());
+      return { status: 'complete', text: responseData.text || '', provider: 'whisper' };
+    }
+  };
+}
@@ -0,0 +1,713 @@
+// トランスクリプションジョブキュー
+// ファイルIDごとにジョブをスクリプトプロパティへ永続化し、単一のディスパッチャートリガーで処理する
+// 文字起こしの完了はfile_change・file_sharedイベントで検出し（handleTrackedFileEvent_）、
+// ディスパッチャーによるポーリングはイベントが届かない場合の予備として指数バックオフで行う
+
+/**
+ * ジョブの状態
+ * queued: 登録済み / polling: 文字起こし完了待ち / transcribed: 結果確定（同じメッセージの他ファイル待ち）
+ * posted: 投稿済み / failed: 投稿失敗
+ */
+type TranscriptionJobState = 'queued' | 'polling' | 'transcribed' | 'posted' | 'failed';
+
+/**
+ * トランスクリプション待ちのジョブ
+ */
+interface TranscriptionJob {
+  fileId: string;
+  channelId: string;
+  timestamp: string;
+  threadTs?: string;
+  teamId?: string;
+  userId?: string;
+  responseUrl?: string; // スラッシュコマンド・ショートカットから依頼された場合のresponse_url
+  ephemeral?: boolean;
+  postingStrategy?: PostingStrategy;
+  keepOriginal?: boolean;
+  correlationId?: string; // 登録したときの相関ID（ログ用、イベントキーなど）
+  groupFileIds: string[]; // 同じメッセージに含まれる音声ファイル（元の順序）
+  state: TranscriptionJobState;
+  retryCount: number;
+  durationMs?: number; // 音声の長さ（期限の計算に使用する）
+  deadlineAt?: number; // 文字起こしの完了を待つ期限（エポックミリ秒）、過ぎたら最新の状態で投稿する
+  nextAttemptAt: number; // 次回チェック予定時刻（エポックミリ秒）
+  leaseUntil: number; // ディスパッチャーが処理中の間は他の実行から取得されない
+  createdAt: number;
+  updatedAt: number;
+  lastError?: string;
+}
+
+// ジョブを保存するプロパティキーの接頭辞
+const TRANSCRIPTION_JOB_PREFIX = 'TRANSCRIPTION_JOB_';
+// 処理中のジョブに重ねて依頼された返信先を保存するプロパティキーの接頭辞
+// （ディスパッチャーが保存するジョブで上書きされないよう、ジョブとは別に保存する）
+const TRANSCRIPTION_REPLY_TARGETS_PREFIX = 'TRANSCRIPTION_REPLY_TARGETS_';
+// ディスパッチャーとして登録するトリガーの関数名
+const TRANSCRIPTION_DISPATCHER_HANDLER = 'dispatchTranscriptionJobs';
+// 初回の再チェック間隔（10秒、以降は倍々に延ばす）
+const TRANSCRIPTION_POLL_INTERVAL_MS = 10000;
+// 再チェック間隔の上限（5分）
+const TRANSCRIPTION_MAX_POLL_INTERVAL_MS = 5 * 60 * 1000;
+// 完了を待つ期限: 2分＋音声の長さの2倍（上限30分）
+const TRANSCRIPTION_DEADLINE_BASE_MS = 2 * 60 * 1000;
+const TRANSCRIPTION_DEADLINE_DURATION_FACTOR = 2;
+const TRANSCRIPTION_MAX_DEADLINE_MS = 30 * 60 * 1000;
+// 音声の長さが分からない場合の期限（5分）
+const TRANSCRIPTION_DEFAULT_DEADLINE_MS = 5 * 60 * 1000;
+// ディスパッチャー実行中のジョブ占有時間（実行時間上限の6分）
+const TRANSCRIPTION_JOB_LEASE_MS = 6 * 60 * 1000;
+// 完了・失敗したジョブを保持する期間（24時間）
+const FINISHED_JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+// 文字起こし結果をキャッシュする期間（6時間、CacheServiceの上限）
+const FILE_TRANSCRIPTION_CACHE_SECONDS = 6 * 60 * 60;
+// 旧バージョンで使用していた単一スロットのプロパティキー
+const LEGACY_PENDING_TRANSCRIPTION_KEY = 'PENDING_TRANSCRIPTION';
+
+/**
+ * スクリプトロックを取得して処理を実行する
+ * @param fn ロック中に実行する処理
+ * @returns 処理の戻り値
+ */
+function withScriptLock_<T>(fn: () => T): T {
+  return getServices_().lock.runExclusive(fn);
+}
+
+/**
+ * ジョブを保存するプロパティキーを取得する
+ * @param fileId ファイルID
+ */
+function getTranscriptionJobKey_(fileId: string): string {
+  return `${TRANSCRIPTION_JOB_PREFIX}${fileId}`;
+}
+
+/**
+ * ジョブを取得する
+ * @param fileId ファイルID
+ * @returns ジョブ、存在しない場合はnull
+ */
+function getTranscriptionJob_(fileId: string): TranscriptionJob | null {
+  const json = getServices_().properties.getProperty(getTranscriptionJobKey_(fileId));
+  return json ? JSON.parse(json) as TranscriptionJob : null;
+}
+
+/**
+ * ジョブを保存する
+ * @param job 保存するジョブ
+ */
+function saveTranscriptionJob_(job: TranscriptionJob): void {
+  job.updatedAt = Date.now();
+  getServices_().properties.setProperty(
+    getTranscriptionJobKey_(job.fileId),
+    JSON.stringify(job)
+  );
+}
+
+/**
+ * ジョブを削除する
+ * @param fileId ファイルID
+ */
+function deleteTranscriptionJob_(fileId: string): void {
+  getServices_().properties.deleteProperty(getTranscriptionJobKey_(fileId));
+  getServices_().properties.deleteProperty(`${TRANSCRIPTION_REPLY_TARGETS_PREFIX}${fileId}`);
+}
+
+/**
+ * 保存されているすべてのジョブを取得する
+ * @returns 作成日時順のジョブ一覧
+ */
+function listTranscriptionJobs_(): TranscriptionJob[] {
+  const properties = getServices_().properties.getProperties();
+  const jobs: TranscriptionJob[] = [];
+
+  for (const key of Object.keys(properties)) {
+    if (key.indexOf(TRANSCRIPTION_JOB_PREFIX) !== 0) continue;
+    try {
+      jobs.push(JSON.parse(properties[key]) as TranscriptionJob);
+    } catch (error) {
+      logWarning_(`不正なジョブデータを無視します: ${key}`);
+    }
+  }
+
+  return jobs.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * 文字起こしの完了を待つ期限を計算する
+ * @param startedAt 待ち始めた時刻
+ * @param durationMs 音声の長さ（不明な場合は既定の期限）
+ */
+function computeTranscriptionDeadline_(startedAt: number, durationMs?: number): number {
+  if (!durationMs) {
+    return startedAt + TRANSCRIPTION_DEFAULT_DEADLINE_MS;
+  }
+  return startedAt + Math.min(
+    TRANSCRIPTION_DEADLINE_BASE_MS + durationMs * TRANSCRIPTION_DEADLINE_DURATION_FACTOR,
+    TRANSCRIPTION_MAX_DEADLINE_MS
+  );
+}
+
+/**
+ * ジョブの期限を取得する（期限のない旧バージョンのジョブは作成から既定の期限）
+ * @param job ジョブ
+ */
+function getTranscriptionJobDeadline_(job: TranscriptionJob): number {
+  return job.deadlineAt || computeTranscriptionDeadline_(job.createdAt, job.durationMs);
+}
+
+/**
+ * 再チェックまでの待ち時間（指数バックオフ）
+ * @param retryCount これまでの試行回数
+ */
+function getTranscriptionPollDelayMs_(retryCount: number): number {
+  return Math.min(TRANSCRIPTION_POLL_INTERVAL_MS * Math.pow(2, retryCount), TRANSCRIPTION_MAX_POLL_INTERVAL_MS);
+}
+
+/**
+ * ジョブが投稿前（処理中）か判定する
+ * @param job ジョブ
+ */
+function isTranscriptionJobActive_(job: TranscriptionJob | null): boolean {
+  return !!job && (job.state === 'queued' || job.state === 'polling' || job.state === 'transcribed');
+}
+
+/**
+ * 返信先を比較するためのキー（投稿先と投稿方法が同じなら同じ返信先とみなす）
+ * @param target 返信先
+ */
+function getTranscriptionReplyKey_(target: PostTarget): string {
+  return [
+    target.channelId,
+    target.timestamp,
+    target.threadTs || '',
+    target.responseUrl || '',
+    target.ephemeral ? 'ephemeral' : '',
+    target.postingStrategy || ''
+  ].join('|');
+}
+
+/**
+ * 処理中のジョブに、重ねて依頼された返信先を追加する
+ * 元のファイルを残す指定は既存の返信先にも引き継ぐ
+ * @param fileId ファイルID
+ * @param target 追加する返信先
+ * @returns ジョブが処理中で返信先を引き継いだ場合はtrue、処理中でなくなっていた場合はfalse
+ */
+function attachTranscriptionReplyTarget_(fileId: string, target: PostTarget): boolean {
+  return withScriptLock_(() => {
+    const job = getTranscriptionJob_(fileId);
+    if (!job || !isTranscriptionJobActive_(job)) {
+      return false;
+    }
+
+    const key = getTranscriptionReplyKey_(target);
+    if (key === getTranscriptionReplyKey_(getTranscriptionJobTarget_(job)) && (!target.keepOriginal || job.keepOriginal)) {
+      return true;
+    }
+
+    const replyTargets = getTranscriptionReplyTargets_(fileId);
+    const existing = replyTargets.filter(replyTarget => getTranscriptionReplyKey_(replyTarget) === key)[0];
+    if (existing) {
+      existing.keepOriginal = existing.keepOriginal || target.keepOriginal;
+    } else {
+      replyTargets.push(target);
+    }
+    getServices_().properties.setProperty(`${TRANSCRIPTION_REPLY_TARGETS_PREFIX}${fileId}`, JSON.stringify(replyTargets));
+    logInfo_(`処理中のジョブに返信先を追加しました: ファイルID=${fileId}`);
+    return true;
+  });
+}
+
+/**
+ * 処理中のジョブに重ねて依頼された返信先を取得する
+ * @param fileId ファイルID
+ */
+function getTranscriptionReplyTargets_(fileId: string): PostTarget[] {
+  const json = getServices_().properties.getProperty(`${TRANSCRIPTION_REPLY_TARGETS_PREFIX}${fileId}`);
+  return json ? JSON.parse(json) as PostTarget[] : [];
+}
+
+/**
+ * 同じメッセージのジョブに重ねて依頼された返信先を取り出し、保存していたものを削除する
+ * @param fileIds 同じメッセージに含まれる音声ファイルID
+ * @returns 重複を除いた返信先
+ */
+function takeTranscriptionReplyTargets_(fileIds: string[]): PostTarget[] {
+  const replyTargets: { [key: string]: PostTarget } = {};
+  for (const fileId of fileIds) {
+    for (const target of getTranscriptionReplyTargets_(fileId)) {
+      const key = getTranscriptionReplyKey_(target);
+      const existing = replyTargets[key];
+      replyTargets[key] = existing ? { ...existing, keepOriginal: existing.keepOriginal || target.keepOriginal } : target;
+    }
+    getServices_().properties.deleteProperty(`${TRANSCRIPTION_REPLY_TARGETS_PREFIX}${fileId}`);
+  }
+  return Object.keys(replyTargets).map(key => replyTargets[key]);
+}
+
+/**
+ * トランスクリプション待ちのジョブを登録し、ディスパッチャーを起動する
+ * 同じファイルIDのジョブが処理中の場合は、返信先を追加して既存のジョブを返す
+ * @param fileId ファイルID
+ * @param target 元メッセージの情報
+ * @param groupFileIds 同じメッセージに含まれる音声ファイルID（元の順序）
+ * @param transcribed 文字起こし結果が確定済み（saveFileTranscriptionで保存済み）かどうか
+ * @param durationMs 音声の長さ（期限の計算に使用する）
+ * @returns 登録されたジョブ
+ */
+function enqueueTranscriptionJob_(
+  fileId: string,
+  target: PostTarget,
+  groupFileIds: string[] = [fileId],
+  transcribed: boolean = false,
+  durationMs?: number
+): TranscriptionJob {
+  const existing = getTranscriptionJob_(fileId);
+  if (existing && isTranscriptionJobActive_(existing) && attachTranscriptionReplyTarget_(fileId, target)) {
+    logInfo_(`ジョブはすでに登録されています: ファイルID=${fileId}, 状態=${existing.state}`);
+    return existing;
+  }
+
+  const now = Date.now();
+  const job: TranscriptionJob = {
+    fileId: fileId,
+    channelId: target.channelId,
+    timestamp: target.timestamp,
+    threadTs: target.threadTs,
+    teamId: target.teamId,
+    userId: target.userId,
+    responseUrl: target.responseUrl,
+    ephemeral: target.ephemeral,
+    postingStrategy: target.postingStrategy,
+    keepOriginal: target.keepOriginal,
+    correlationId: getLogCorrelationId_() || undefined,
+    groupFileIds: groupFileIds,
+    state: transcribed ? 'transcribed' : 'queued',
+    retryCount: 0,
+    durationMs,
+    deadlineAt: computeTranscriptionDeadline_(now, durationMs),
+    nextAttemptAt: now + TRANSCRIPTION_POLL_INTERVAL_MS,
+    leaseUntil: 0,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  saveTranscriptionJob_(job);
+  logInfo_(`ジョブを登録しました: ファイルID=${fileId}`);
+
+  scheduleTranscriptionDispatcher_(TRANSCRIPTION_POLL_INTERVAL_MS);
+  return job;
+}
+
+/**
+ * ディスパッチャートリガーを登録する（既に登録済みの場合は何もしない）
+ * @param delayMs 実行までの待ち時間
+ */
+function scheduleTranscriptionDispatcher_(delayMs: number): void {
+  withScriptLock_(() => {
+    const triggers = getServices_().triggers;
+    if (triggers.getHandlerFunctions().indexOf(TRANSCRIPTION_DISPATCHER_HANDLER) !== -1) return;
+
+    triggers.scheduleAfter(TRANSCRIPTION_DISPATCHER_HANDLER, Math.max(delayMs, 1000));
+    logInfo_(`ディスパッチャーをスケジュールしました: ${delayMs}ms後`);
+  });
+}
+
+/**
+ * 登録済みのディスパッチャートリガーを削除する
+ */
+function removeTranscriptionDispatcherTriggers_(): void {
+  withScriptLock_(() => {
+    const triggers = getServices_().triggers;
+    triggers.deleteByHandler(TRANSCRIPTION_DISPATCHER_HANDLER);
+    triggers.deleteByHandler('retryTranscriptionCheck');
+  });
+}
+
+/**
+ * 実行時刻に達したジョブを取得し、処理中として占有する
+ * @param now 現在時刻
+ * @returns 処理対象のジョブ一覧
+ */
+function claimDueTranscriptionJobs_(now: number): TranscriptionJob[] {
+  return withScriptLock_(() => {
+    const claimed: TranscriptionJob[] = [];
+
+    for (const job of listTranscriptionJobs_()) {
+      if (job.state !== 'queued' && job.state !== 'polling') continue;
+      if (job.nextAttemptAt > now || job.leaseUntil > now) continue;
+
+      job.leaseUntil = now + TRANSCRIPTION_JOB_LEASE_MS;
+      saveTranscriptionJob_(job);
+      claimed.push(job);
+    }
+
+    return claimed;
+  });
+}
+
+/**
+ * ディスパッチャー本体
+ * タイムトリガーから呼び出され、実行時刻に達したすべてのジョブを処理する
+ */
+function dispatchTranscriptionJobs(): void {
+  runWithLogging_(TRANSCRIPTION_DISPATCHER_HANDLER, () => {
+    // このトリガーは実行済みなので削除し、必要に応じて最後に再登録する
+    removeTranscriptionDispatcherTriggers_();
+    migrateLegacyPendingTranscription_();
+
+    try {
+      const jobs = claimDueTranscriptionJobs_(Date.now());
+      logInfo_(`ディスパッチャー実行: 処理対象ジョブ数=${jobs.length}`);
+
+      for (const job of jobs) {
+        // ジョブのログには登録元のイベントと同じ相関IDを付与する
+        withLogCorrelation_(job.correlationId || job.fileId, () => {
+          try {
+            processTranscriptionJob_(job);
+          } catch (error) {
+            logError_(`ジョブ処理エラー: ファイルID=${job.fileId}, ${error}`, { fileId: job.fileId, retryCount: job.retryCount });
+            job.lastError = String(error);
+            rescheduleOrFailTranscriptionJob_(job);
+          }
+        });
+      }
+
+      purgeFinishedTranscriptionJobs_(Date.now());
+    } finally {
+      scheduleNextTranscriptionDispatch_();
+    }
+  });
+}
+
+/**
+ * ジョブを1回チェックする
+ * トランスクリプションが完了しているか、期限に達していれば結果を確定する
+ * @param job 処理するジョブ
+ */
+function processTranscriptionJob_(job: TranscriptionJob): void {
+  logInfo_(`トランスクリプション再チェック: ファイルID=${job.fileId}, 試行回数=${job.retryCount + 1}`);
+
+  const file = getFileInfo_(job.fileId);
+  if (!file) {
+    job.lastError = 'ファイル情報の再取得に失敗';
+    logError_(`${job.lastError}: ファイルID=${job.fileId}`);
+    rescheduleOrFailTranscriptionJob_(job);
+    return;
+  }
+
+  // 登録時に音声の長さが分からなかった場合は、ここで期限を計算し直す
+  if (!job.durationMs && file.duration_ms) {
+    job.durationMs = file.duration_ms;
+    job.deadlineAt = computeTranscriptionDeadline_(job.createdAt, file.duration_ms);
+  }
+
+  const isComplete = isTranscriptionReady_(file, job.teamId);
+  if (!isComplete && Date.now() < getTranscriptionJobDeadline_(job)) {
+    // まだ処理中の場合は再度スケジュール
+    rescheduleOrFailTranscriptionJob_(job);
+    return;
+  }
+
+  if (isComplete) {
+    logInfo_(`トランスクリプション${file.transcription && file.transcription.status === 'failed' ? '失敗' : '完了'}を検出、処理を実行します`);
+  } else {
+    logInfo_('期限に達しました。最新の状態で処理を実行します');
+  }
+
+  saveFileTranscription_(transcribeFile_(file, getTranscriptionJobTarget_(job)));
+  job.retryCount++;
+  markTranscriptionJobTranscribed_(job);
+}
+
+/**
+ * 試行回数を加算し、期限前なら指数バックオフで次回チェックを予約する（期限を超える場合は期限に合わせる）
+ * 期限を過ぎた場合は失敗として結果を確定する
+ * @param job 対象のジョブ
+ */
+function rescheduleOrFailTranscriptionJob_(job: TranscriptionJob): void {
+  job.retryCount++;
+  job.leaseUntil = 0;
+
+  const now = Date.now();
+  const deadline = getTranscriptionJobDeadline_(job);
+  if (now >= deadline) {
+    logWarning_(`ジョブが期限に達したため失敗としました: ファイルID=${job.fileId}`);
+    saveFileTranscription_(createFailedFileTranscription_({ id: job.fileId }, '音声の文字起こしに失敗しました。'));
+    markTranscriptionJobTranscribed_(job);
+    return;
+  }
+
+  job.state = 'polling';
+  job.nextAttemptAt = Math.min(now + getTranscriptionPollDelayMs_(job.retryCount), deadline);
+  saveTranscriptionJob_(job);
+}
+
+/**
+ * ファイルの文字起こしが完了または失敗しており、これ以上待つ必要がないか判定する
+ * Slackネイティブの文字起こしを使用しない設定の場合は待たない
+ * @param file ファイル情報
+ * @param teamId ワークスペースID（プロバイダーの設定に使用）
+ */
+function isTranscriptionReady_(file: SlackFile, teamId: string | undefined): boolean {
+  return getTranscriptionProviderNames_(teamId).indexOf('slack') === -1 || isSlackTranscriptionSettled_(file);
+}
+
+/**
+ * file_change・file_sharedイベントで、ジョブキューで待機中のファイルの文字起こしが完了したか確認する
+ * 完了していればポーリングを待たずに結果を確定し、同じメッセージのファイルが揃っていれば投稿する
+ * @param fileId イベントのファイルID
+ * @returns 結果を確定した場合はtrue
+ */
+function handleTrackedFileEvent_(fileId: string): boolean {
+  const job = getTranscriptionJob_(fileId);
+  if (!job || (job.state !== 'queued' && job.state !== 'polling')) {
+    return false;
+  }
+
+  const file = getFileInfo_(fileId);
+  if (!file || !isTranscriptionReady_(file, job.teamId)) {
+    logInfo_(`文字起こしはまだ完了していません: ファイルID=${fileId}`);
+    return false;
+  }
+
+  // ディスパッチャーや同時に届いたイベントと二重に処理しないよう、ロック中にジョブを占有する
+  const claimed = withScriptLock_(() => {
+    const now = Date.now();
+    const current = getTranscriptionJob_(fileId);
+    if (!current || (current.state !== 'queued' && current.state !== 'polling') || current.leaseUntil > now) {
+      return null;
+    }
+    current.leaseUntil = now + TRANSCRIPTION_JOB_LEASE_MS;
+    saveTranscriptionJob_(current);
+    return current;
+  });
+  if (!claimed) {
+    return false;
+  }
+
+  withLogCorrelation_(claimed.correlationId || fileId, () => {
+    logInfo_(`ファイルの更新イベントで文字起こしの完了を検出しました: ファイルID=${fileId}`);
+    saveFileTranscription_(transcribeFile_(file, getTranscriptionJobTarget_(claimed)));
+    claimed.retryCount++;
+    markTranscriptionJobTranscribed_(claimed);
+  });
+  return true;
+}
+
+/**
+ * ジョブの結果を確定し、同じメッセージのファイルがすべて揃っていれば投稿する
+ * @param job 対象のジョブ
+ */
+function markTranscriptionJobTranscribed_(job: TranscriptionJob): void {
+  job.state = 'transcribed';
+  job.leaseUntil = 0;
+  saveTranscriptionJob_(job);
+  finalizeTranscriptionGroup_(job);
+}
+
+/**
+ * 同じメッセージに含まれるすべてのジョブの結果が確定していれば、まとめて投稿する
+ * @param job グループ内のいずれかのジョブ
+ */
+function finalizeTranscriptionGroup_(job: TranscriptionJob): void {
+  const groupFileIds = job.groupFileIds && job.groupFileIds.length > 0 ? job.groupFileIds : [job.fileId];
+
+  // 二重投稿を防ぐため、ロック中に全件の確定を確認して投稿済みにする
+  // 投稿済みにした後は返信先を追加できないため、重ねて依頼された返信先も同時に取り出す
+  const group = withScriptLock_(() => {
+    const groupJobs = groupFileIds.map(fileId => getTranscriptionJob_(fileId));
+    if (groupJobs.some(groupJob => !groupJob || groupJob.state !== 'transcribed')) {
+      return null;
+    }
+    for (const groupJob of groupJobs as TranscriptionJob[]) {
+      groupJob.state = 'posted';
+      saveTranscriptionJob_(groupJob);
+    }
+    return { jobs: groupJobs as TranscriptionJob[], replyTargets: takeTranscriptionReplyTargets_(groupFileIds) };
+  });
+
+  if (!group) {
+    logInfo_(`同じメッセージの他のファイルを待機します: ファイルID=${job.fileId}`);
+    return;
+  }
+
+  const jobs = group.jobs;
+  const target = getTranscriptionJobTarget_(job);
+  // 重ねて依頼された返信先のいずれかが元のファイルを残す指定の場合は残す
+  target.keepOriginal = target.keepOriginal || group.replyTargets.some(replyTarget => !!replyTarget.keepOriginal);
+  const items = jobs.map(groupJob => loadFileTranscription_(groupJob.fileId, target));
+  const posted = publishFileTranscriptions_(target, items);
+
+  // 重ねて依頼された返信先には結果のメッセージのみを返信する（履歴の記録・ファイルの削除は行わない）
+  const targetKey = getTranscriptionReplyKey_(target);
+  for (const replyTarget of group.replyTargets) {
+    if (getTranscriptionReplyKey_(replyTarget) === targetKey) continue;
+    if (!postFileTranscriptions_(replyTarget, items, false).result.ok) {
+      logWarning_(`重ねて依頼された返信先への投稿に失敗しました: ファイルID=${job.fileId}`);
+    }
+  }
+
+  if (!posted) {
+    for (const groupJob of jobs) {
+      groupJob.state = 'failed';
+      groupJob.lastError = '文字起こし結果の投稿に失敗';
+      saveTranscriptionJob_(groupJob);
+    }
+  }
+}
+
+/**
+ * ジョブから投稿先の情報を取り出す
+ * @param job 対象のジョブ
+ */
+function getTranscriptionJobTarget_(job: TranscriptionJob): PostTarget {
+  return {
+    channelId: job.channelId,
+    timestamp: job.timestamp,
+    threadTs: job.threadTs,
+    teamId: job.teamId,
+    userId: job.userId,
+    responseUrl: job.responseUrl,
+    ephemeral: job.ephemeral,
+    postingStrategy: job.postingStrategy,
+    keepOriginal: job.keepOriginal
+  };
+}
+
+/**
+ * 確定した文字起こし結果を、まとめて投稿するまでキャッシュに保存する
+ * （スクリプトプロパティは1件9KBの制限があるため、本文はキャッシュに置く）
+ * @param item 文字起こし結果
+ */
+function saveFileTranscription_(item: FileTranscription): void {
+  getServices_().cache.put(
+    `file_transcription_${item.fileId}`,
+    JSON.stringify(item),
+    FILE_TRANSCRIPTION_CACHE_SECONDS
+  );
+}
+
+/**
+ * 保存した文字起こし結果を取得する
+ * キャッシュから消えていた場合はファイル情報を取得し直して文字起こしする
+ * @param fileId ファイルID
+ * @param target 元メッセージの情報
+ */
+function loadFileTranscription_(fileId: string, target: PostTarget): FileTranscription {
+  const cached = getServices_().cache.get(`file_transcription_${fileId}`);
+  if (cached) {
+    return JSON.parse(cached) as FileTranscription;
+  }
+
+  logWarning_(`保存した文字起こし結果が見つからないため再取得します: ファイルID=${fileId}`);
+  const file = getFileInfo_(fileId);
+  if (!file) {
+    return createFailedFileTranscription_({ id: fileId }, 'ファイル情報の取得に失敗しました。');
+  }
+  return transcribeFile_(file, target);
+}
+
+/**
+ * 未完了のジョブが残っていれば、最も早い実行予定時刻に合わせてディスパッチャーを再登録する
+ */
+function scheduleNextTranscriptionDispatch_(): void {
+  const pending = listTranscriptionJobs_().filter(
+    job => job.state === 'queued' || job.state === 'polling'
+  );
+  if (pending.length === 0) {
+    logInfo_('未完了のジョブはありません');
+    return;
+  }
+
+  const now = Date.now();
+  const nextAt = Math.min(...pending.map(job => Math.max(job.nextAttemptAt, job.leaseUntil)));
+  scheduleTranscriptionDispatcher_(Math.max(nextAt - now, TRANSCRIPTION_POLL_INTERVAL_MS));
+}
+
+/**
+ * 保持期間を過ぎた完了・失敗ジョブを削除する
+ * @param now 現在時刻
+ */
+function purgeFinishedTranscriptionJobs_(now: number): void {
+  for (const job of listTranscriptionJobs_()) {
+    if (job.state !== 'posted' && job.state !== 'failed' && job.state !== 'transcribed') continue;
+    if (now - job.updatedAt > FINISHED_JOB_RETENTION_MS) {
+      deleteTranscriptionJob_(job.fileId);
+    }
+  }
+}
+
+/**
+ * ジョブを再実行する（管理ページから呼び出す）
+ * 処理中のジョブは待ち時間をなくして次のディスパッチャーの実行でチェックし、失敗・確定済みのジョブは同じメッセージのファイルごと登録し直す
+ * @param fileId ファイルID
+ * @returns 再実行した場合はtrue、ジョブが存在しない場合はfalse
+ */
+function retryTranscriptionJob_(fileId: string): boolean {
+  const job = getTranscriptionJob_(fileId);
+  if (!job) {
+    logWarning_(`再実行するジョブが見つかりません: ファイルID=${fileId}`);
+    return false;
+  }
+
+  if (isTranscriptionJobActive_(job)) {
+    withScriptLock_(() => {
+      job.nextAttemptAt = Date.now();
+      job.leaseUntil = 0;
+      saveTranscriptionJob_(job);
+    });
+    scheduleTranscriptionDispatcher_(0);
+    logInfo_(`ジョブを次のディスパッチャーの実行でチェックします: ファイルID=${fileId}`);
+    return true;
+  }
+
+  const groupFileIds = job.groupFileIds && job.groupFileIds.length > 0 ? job.groupFileIds : [job.fileId];
+  const target = getTranscriptionJobTarget_(job);
+  for (const groupFileId of groupFileIds) {
+    enqueueTranscriptionJob_(groupFileId, target, groupFileIds);
+  }
+  logInfo_(`ジョブを再登録しました: ファイルID=${groupFileIds.join(', ')}`);
+  return true;
+}
+
+/**
+ * 旧バージョンの単一スロット（PENDING_TRANSCRIPTION）に残っている情報をキューへ移行する
+ */
+function migrateLegacyPendingTranscription_(): void {
+  const scriptProperties = getServices_().properties;
+  const legacy = scriptProperties.getProperty(LEGACY_PENDING_TRANSCRIPTION_KEY);
+  if (!legacy) return;
+
+  try {
+    const { fileId, channelId, timestamp } = JSON.parse(legacy);
+    if (fileId && !getTranscriptionJob_(fileId)) {
+      const now = Date.now();
+      saveTranscriptionJob_({
+        fileId: fileId,
+        channelId: channelId,
+        timestamp: timestamp,
+        groupFileIds: [fileId],
+        state: 'queued',
+        retryCount: 0,
+        deadlineAt: computeTranscriptionDeadline_(now),
+        nextAttemptAt: now,
+        leaseUntil: 0,
+        createdAt: now,
+        updatedAt: now
+      });
+      logInfo_(`旧形式の保留データをキューへ移行しました: ファイルID=${fileId}`);
+    }
+  } catch (error) {
+    logWarning_(`旧形式の保留データを移行できませんでした: ${error}`);
+  }
+
+  scriptProperties.deleteProperty(LEGACY_PENDING_TRANSCRIPTION_KEY);
+}
+
+/**
+ * 旧バージョンで登録されたトリガーとの互換用
+ * 残っているトリガーから呼び出された場合はディスパッチャーに処理を委譲する
+ */
+function retryTranscriptionCheck(): void {
+  dispatchTranscriptionJobs();
+}
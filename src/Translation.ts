@@ -0,0 +1,163 @@
+// 文字起こし結果の翻訳
+// チャンネル設定・個人設定で翻訳先の言語を指定すると、トランスクリプトの翻訳をメッセージに追加する
+// languageapp: GASのLanguageApp（Google翻訳）を使用する（既定）
+// llm:         OpenAI互換のChat Completions API（ローカルのモデルサーバーも可）を使用する
+
+/**
+ * 翻訳結果
+ */
+interface TranscriptTranslation {
+  language: string; // 翻訳先の言語
+  text: string;
+}
+
+/**
+ * 翻訳プロバイダー
+ */
+interface TranslationProvider {
+  name: string;
+  /**
+   * テキストを翻訳する
+   * @param text 翻訳するテキスト
+   * @param sourceLanguage 元の言語（不明な場合はnullで自動判定）
+   * @param targetLanguage 翻訳先の言語
+   */
+  translate(text: string, sourceLanguage: string | null, targetLanguage: string): string;
+}
+
+// 翻訳プロバイダーを保存するプロパティキー
+const TRANSLATION_PROVIDER_KEY = 'TRANSLATION_PROVIDER';
+// 翻訳に使用するAPIの設定を保存するプロパティキー
+const TRANSLATION_API_BASE_URL_KEY = 'TRANSLATION_API_BASE_URL';
+const TRANSLATION_API_KEY_KEY = 'TRANSLATION_API_KEY';
+const TRANSLATION_MODEL_KEY = 'TRANSLATION_MODEL';
+// 既定のモデル
+const DEFAULT_TRANSLATION_MODEL = 'gpt-4o-mini';
+// 翻訳しない設定（チャンネルで翻訳が有効でも、個人設定で無効にする場合）
+const TRANSLATION_DISABLED = 'none';
+
+/**
+ * 翻訳プロバイダーを設定する
+ * @param name プロバイダー名（languageapp / llm）
+ * @param baseUrl llmの場合のAPIのベースURL（例: https://api.openai.com/v1、http://localhost:11434/v1）
+ * @param apiKey llmの場合のAPIキー（ローカルサーバーなど不要な場合は省略）
+ * @param model llmの場合のモデル名
+ */
+function setupTranslationProvider_(name: 'languageapp' | 'llm', baseUrl?: string, apiKey?: string, model?: string): void {
+  const scriptProperties = getServices_().properties;
+  scriptProperties.setProperty(TRANSLATION_PROVIDER_KEY, name);
+  if (baseUrl) scriptProperties.setProperty(TRANSLATION_API_BASE_URL_KEY, baseUrl);
+  if (apiKey) scriptProperties.setProperty(TRANSLATION_API_KEY_KEY, apiKey);
+  if (model) scriptProperties.setProperty(TRANSLATION_MODEL_KEY, model);
+  logInfo_(`翻訳プロバイダーを設定しました: ${name}${baseUrl ? `, URL=${baseUrl}` : ''}`);
+}
+
+/**
+ * 設定されている翻訳プロバイダーを生成する
+ * @returns プロバイダー、設定が不正な場合はnull
+ */
+function getTranslationProvider_(): TranslationProvider | null {
+  const scriptProperties = getServices_().properties;
+  const name = scriptProperties.getProperty(TRANSLATION_PROVIDER_KEY) || 'languageapp';
+
+  switch (name) {
+    case 'languageapp':
+      return createLanguageAppTranslationProvider_();
+    case 'llm': {
+      const baseUrl = scriptProperties.getProperty(TRANSLATION_API_BASE_URL_KEY);
+      if (!baseUrl) {
+        logWarning_('翻訳に使用するAPIのURLが設定されていません');
+        return null;
+      }
+      return createLlmTranslationProvider_({
+        baseUrl: baseUrl.replace(/\/+$/, ''),
+        apiKey: scriptProperties.getProperty(TRANSLATION_API_KEY_KEY),
+        model: scriptProperties.getProperty(TRANSLATION_MODEL_KEY) || DEFAULT_TRANSLATION_MODEL
+      });
+    }
+    default:
+      logWarning_(`不明な翻訳プロバイダー: ${name}`);
+      return null;
+  }
+}
+
+/**
+ * 翻訳先の言語を取得する
+ * 投稿者の設定、チャンネル別の設定の順に優先する
+ * @param target 元メッセージの情報
+ * @returns 翻訳先の言語、翻訳しない場合はnull
+ */
+function getTranslationLanguage_(target: PostTarget): string | null {
+  const language = getUserPreferences_(target.userId).translateTo || getChannelSettings_(target.channelId).translateTo;
+  return language && language !== TRANSLATION_DISABLED ? language : null;
+}
+
+/**
+ * トランスクリプトを翻訳する
+ * 元の言語と翻訳先の言語が同じ場合、翻訳に失敗した場合はnullを返す（翻訳を表示しない）
+ * @param text トランスクリプト
+ * @param sourceLanguage 元の言語（Slackの文字起こしのロケールなど、不明な場合はnull）
+ * @param targetLanguage 翻訳先の言語
+ */
+function translateTranscript_(text: string, sourceLanguage: string | null, targetLanguage: string): TranscriptTranslation | null {
+  const source = sourceLanguage ? normalizeLanguageCode_(sourceLanguage) : null;
+  const destination = normalizeLanguageCode_(targetLanguage);
+  if (source === destination) {
+    return null;
+  }
+
+  const provider = getTranslationProvider_();
+  if (!provider) return null;
+
+  logInfo_(`トランスクリプトを翻訳します: ${source || '自動判定'} → ${destination}, プロバイダー=${provider.name}`);
+
+  try {
+    const translated = provider.translate(text, source, destination).trim();
+    return translated ? { language: destination, text: translated } : null;
+  } catch (error) {
+    logError_(`翻訳中のエラー: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * ロケール（ja-JP、en_USなど）を言語コード（ja、en）に変換する
+ * 中国語は簡体字・繁体字を区別する
+ * @param locale ロケールまたは言語コード
+ */
+function normalizeLanguageCode_(locale: string): string {
+  const parts = locale.trim().toLowerCase().split(/[-_]/);
+  if (parts[0] === 'zh' && parts.length > 1) {
+    return parts[1] === 'tw' || parts[1] === 'hk' || parts[1] === 'hant' ? 'zh-TW' : 'zh-CN';
+  }
+  return parts[0];
+}
+
+/**
+ * GASのLanguageAppを使用するプロバイダー
+ */
+function createLanguageAppTranslationProvider_(): TranslationProvider {
+  return {
+    name: 'languageapp',
+    translate(text: string, sourceLanguage: string | null, targetLanguage: string): string {
+      return getServices_().translator.translate(text, sourceLanguage || '', targetLanguage);
+    }
+  };
+}
+
+/**
+ * OpenAI互換のChat Completions APIを使用するプロバイダー
+ * @param config APIの設定
+ */
+function createLlmTranslationProvider_(config: ChatCompletionConfig): TranslationProvider {
+  return {
+    name: 'llm',
+    translate(text: string, sourceLanguage: string | null, targetLanguage: string): string {
+      const instruction = [
+        `Translate the user's voice memo transcript${sourceLanguage ? ` from ${sourceLanguage}` : ''} into ${targetLanguage}.`,
+        'Reply with the translation only.'
+      ].join(' ');
+      return requestChatCompletion_(config, instruction, text);
+    }
+  };
+}
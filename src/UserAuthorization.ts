@@ -0,0 +1,239 @@
+// ユーザーごとの認証（OAuth v2）
+// ボイスメモの投稿者がアプリを認証すると、文字起こし結果を投稿者本人として投稿し、元のファイルを投稿者のトークンで削除する
+//   /transcribe settings authorize     … 認証用のリンクを表示（本人のみ）
+//   /transcribe settings authorize off … 認証を取り消す
+// 認証はdoGet（?code=...&state=...）で受け付け、oauth.v2.accessで取得したユーザートークンをユーザーIDごとに保存する
+// 投稿者が認証していない場合は、SLACK_USER_TOKENの所有者であればそのトークン、それ以外はボットが投稿者を明記して投稿する
+
+/**
+ * 保存したユーザートークン
+ */
+interface StoredUserToken {
+  accessToken: string;
+  scope: string;
+  teamId?: string;
+  authorizedAt: number;
+}
+
+// OAuthの設定を保存するプロパティキー
+const SLACK_CLIENT_ID_KEY = 'SLACK_CLIENT_ID';
+const SLACK_CLIENT_SECRET_KEY = 'SLACK_CLIENT_SECRET';
+const SLACK_OAUTH_REDIRECT_URI_KEY = 'SLACK_OAUTH_REDIRECT_URI';
+// ユーザートークンを保存するプロパティキーの接頭辞
+const USER_TOKEN_PREFIX = 'SLACK_USER_TOKEN_';
+// SLACK_USER_TOKENの所有者（ユーザーID）を保存するプロパティキー
+const USER_TOKEN_OWNER_KEY = 'SLACK_USER_TOKEN_OWNER';
+// 認証で要求するユーザートークンのスコープ
+const USER_OAUTH_SCOPES = ['chat:write', 'files:write'];
+// stateをキャッシュに保存する期間（認証用のリンクの有効期限）
+const OAUTH_STATE_CACHE_SECONDS = 10 * 60;
+
+/**
+ * OAuthの設定を保存する
+ * @param clientId アプリのClient ID
+ * @param clientSecret アプリのClient Secret
+ * @param redirectUri リダイレクトURL（ウェブアプリのURL、Slackアプリの設定にも登録する）
+ */
+function setupOAuth_(clientId: string, clientSecret: string, redirectUri: string): void {
+  const scriptProperties = getServices_().properties;
+  scriptProperties.setProperty(SLACK_CLIENT_ID_KEY, clientId);
+  scriptProperties.setProperty(SLACK_CLIENT_SECRET_KEY, clientSecret);
+  scriptProperties.setProperty(SLACK_OAUTH_REDIRECT_URI_KEY, redirectUri);
+  logInfo_(`OAuthの設定を保存しました: リダイレクトURL=${redirectUri}`);
+}
+
+/**
+ * 認証用のURLを作成する
+ * stateは認証を依頼したユーザーIDと結びつけてキャッシュに保存し、1回だけ使用できる
+ * @param userId 認証するユーザーのID
+ * @returns 認証用のURL、OAuthが設定されていない場合はnull
+ */
+function createUserAuthorizationUrl_(userId: string): string | null {
+  const scriptProperties = getServices_().properties;
+  const clientId = scriptProperties.getProperty(SLACK_CLIENT_ID_KEY);
+  const redirectUri = scriptProperties.getProperty(SLACK_OAUTH_REDIRECT_URI_KEY);
+  if (!clientId || !redirectUri) {
+    return null;
+  }
+
+  const state = Utilities.getUuid();
+  getServices_().cache.put(`oauth_state_${state}`, userId, OAUTH_STATE_CACHE_SECONDS);
+
+  const query = [
+    `client_id=${encodeURIComponent(clientId)}`,
+    `user_scope=${encodeURIComponent(USER_OAUTH_SCOPES.join(','))}`,
+    `redirect_uri=${encodeURIComponent(redirectUri)}`,
+    `state=${encodeURIComponent(state)}`
+  ].join('&');
+  return `https://slack.com/oauth/v2/authorize?${query}`;
+}
+
+/**
+ * doGetのリクエストが認証のコールバックか判定する
+ * @param e doGetのイベントオブジェクト
+ */
+function isOAuthCallbackRequest_(e: GoogleAppsScript.Events.DoGet | undefined): boolean {
+  return !!(e && e.parameter && e.parameter['state'] && (e.parameter['code'] || e.parameter['error']));
+}
+
+/**
+ * 認証のコールバックを処理し、ユーザートークンを保存する
+ * 匿名で呼び出せるため、google.script.runを公開するHtmlServiceではなくテキストで結果を返す
+ * @param e doGetのイベントオブジェクト
+ * @returns 結果のテキスト
+ */
+function handleOAuthCallback_(e: GoogleAppsScript.Events.DoGet): GoogleAppsScript.Content.TextOutput {
+  const page = (message: string) => ContentService.createTextOutput(message);
+
+  const cache = getServices_().cache;
+  const stateKey = `oauth_state_${e.parameter['state']}`;
+  const expectedUserId = cache.get(stateKey);
+  if (!expectedUserId) {
+    logWarning_('⛔ 認証のstateが不正または期限切れです');
+    return page('認証用のリンクの有効期限が切れました。Slackで `/transcribe settings authorize` をもう一度実行してください。');
+  }
+  cache.remove(stateKey);
+
+  if (e.parameter['error']) {
+    logInfo_(`認証がキャンセルされました: ${expectedUserId}, ${e.parameter['error']}`);
+    return page('認証がキャンセルされました。');
+  }
+
+  const scriptProperties = getServices_().properties;
+  try {
+    const response = slackOAuthAccess_(
+      scriptProperties.getProperty(SLACK_CLIENT_ID_KEY) || '',
+      scriptProperties.getProperty(SLACK_CLIENT_SECRET_KEY) || '',
+      e.parameter['code'],
+      scriptProperties.getProperty(SLACK_OAUTH_REDIRECT_URI_KEY) || undefined
+    );
+
+    const authedUser = response.authed_user || {};
+    if (authedUser.id !== expectedUserId || !authedUser.access_token) {
+      logWarning_(`⛔ 認証したユーザーが依頼したユーザーと一致しません: ${expectedUserId}`);
+      return page('認証用のリンクを作成したユーザーと同じアカウントで認証してください。');
+    }
+
+    saveUserToken_(expectedUserId, {
+      accessToken: authedUser.access_token,
+      scope: authedUser.scope || '',
+      teamId: response.team ? response.team.id : undefined,
+      authorizedAt: Date.now()
+    });
+    logInfo_(`✅ ユーザーの認証が完了しました: ${expectedUserId}`);
+    return page('認証が完了しました。これからはボイスメモの文字起こし結果をあなたとして投稿します。このページは閉じてかまいません。');
+  } catch (error) {
+    logError_(`❌ 認証エラー: ${error}`);
+    return page(`認証に失敗しました: ${error instanceof SlackApiError ? error.code : error}`);
+  }
+}
+
+/**
+ * /transcribe settings authorize を処理する
+ * @param userId コマンドを実行したユーザーのID
+ * @param value offの場合は認証を取り消す
+ * @returns エフェメラルで表示する応答テキスト
+ */
+function handleAuthorizeCommand_(userId: string, value: string | undefined): string {
+  if (value === 'off') {
+    return revokeUserToken_(userId)
+      ? '認証を取り消しました。文字起こし結果はアプリが代理で投稿します。'
+      : '認証されていません。';
+  }
+
+  const url = createUserAuthorizationUrl_(userId);
+  if (!url) {
+    return '管理者がOAuthを設定していないため、認証できません。';
+  }
+  return `<${url}|こちらのリンク>からアプリを認証すると、文字起こし結果をあなたとして投稿します（リンクの有効期限は10分です）。`;
+}
+
+/**
+ * ユーザートークンを保存する
+ * @param userId ユーザーID
+ * @param token 保存するトークン
+ */
+function saveUserToken_(userId: string, token: StoredUserToken): void {
+  getServices_().properties.setProperty(`${USER_TOKEN_PREFIX}${userId}`, JSON.stringify(token));
+}
+
+/**
+ * 保存したユーザートークンを取得する
+ * @param userId ユーザーID
+ * @returns トークン、認証していない場合はnull
+ */
+function getStoredUserToken_(userId: string): StoredUserToken | null {
+  const json = getServices_().properties.getProperty(`${USER_TOKEN_PREFIX}${userId}`);
+  if (!json) return null;
+
+  try {
+    return JSON.parse(json) as StoredUserToken;
+  } catch (error) {
+    logError_(`ユーザートークンの形式が不正です: ${userId}`);
+    return null;
+  }
+}
+
+/**
+ * ユーザートークンを削除し、Slack側でも無効にする
+ * @param userId ユーザーID
+ * @returns 削除した場合はtrue
+ */
+function revokeUserToken_(userId: string): boolean {
+  const token = getStoredUserToken_(userId);
+  if (!token) return false;
+
+  getServices_().properties.deleteProperty(`${USER_TOKEN_PREFIX}${userId}`);
+  try {
+    slackRevokeToken_(token.accessToken);
+  } catch (error) {
+    logWarning_(`Slack側でトークンを無効にできませんでした: ${userId}, ${error}`);
+  }
+  logInfo_(`ユーザーの認証を取り消しました: ${userId}`);
+  return true;
+}
+
+/**
+ * ボイスメモの投稿者として操作できるトークンを取得する
+ * 投稿者が認証済みの場合はそのトークン、投稿者がSLACK_USER_TOKENの所有者の場合はSLACK_USER_TOKEN
+ * @param userId ボイスメモの投稿者
+ * @returns トークン、投稿者として操作できない場合はnull
+ */
+function getAuthorToken_(userId: string | undefined): string | null {
+  if (!userId) return null;
+
+  const stored = getStoredUserToken_(userId);
+  if (stored) {
+    return stored.accessToken;
+  }
+  return getUserTokenOwner_() === userId ? getSlackToken_('user') : null;
+}
+
+/**
+ * 投稿者のファイル・メッセージを操作する（削除・更新・再アップロード）トークンを取得する
+ * 投稿者として操作できない場合はSLACK_USER_TOKEN（管理者のトークンであれば他のユーザーのファイルも削除できる）
+ * @param userId ボイスメモの投稿者
+ */
+function getAuthorActionToken_(userId: string | undefined): string {
+  return getAuthorToken_(userId) || getSlackToken_('user');
+}
+
+/**
+ * SLACK_USER_TOKENの所有者を取得する（未保存の場合はauth.testで確認して保存する）
+ * @returns ユーザーID、確認できない場合はnull
+ */
+function getUserTokenOwner_(): string | null {
+  const scriptProperties = getServices_().properties;
+  const owner = scriptProperties.getProperty(USER_TOKEN_OWNER_KEY);
+  if (owner) return owner;
+
+  try {
+    const userId = slackAuthTest_(getSlackToken_('user')).user_id as string | undefined;
+    if (!userId) return null;
+    scriptProperties.setProperty(USER_TOKEN_OWNER_KEY, userId);
+    return userId;
+  } catch (error) {
+    logWarning_(`ユーザートークンの所有者を確認できませんでした: ${error}`);
+    return null;
+  }
+}
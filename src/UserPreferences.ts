@@ -0,0 +1,165 @@
+// ユーザーごとの設定
+// ボイスメモの投稿者（SlackのユーザーID）ごとに、自動文字起こしの有無・元ファイルの削除・投稿方法・言語を保存する
+// 設定は /transcribe settings またはApp Homeから変更する
+// 未設定の項目はチャンネル設定・全体設定に従う
+
+/**
+ * ユーザーごとの設定
+ */
+interface UserPreferences {
+  autoTranscribe?: boolean; // falseの場合は投稿したボイスメモを自動で文字起こししない
+  deleteOriginal?: boolean; // falseの場合は文字起こし後に元のファイルを削除しない
+  postingStrategy?: PostingStrategy; // 投稿方法
+  language?: string; // 音声の言語（例: ja、en）
+  translateTo?: string; // 翻訳先の言語（例: en）、noneの場合はチャンネル設定に関わらず翻訳しない
+}
+
+// 設定を保存するプロパティキーの接頭辞
+const USER_PREFERENCES_PREFIX = 'USER_PREFERENCES_';
+// 設定サブコマンドの使い方
+const USER_PREFERENCES_USAGE = [
+  '`/transcribe settings auto on|off` 自動文字起こし',
+  '`/transcribe settings delete on|off` 元ファイルの削除',
+  '`/transcribe settings post channel|thread|replace|default` 投稿方法',
+  '`/transcribe settings language <言語コード>|default` 言語',
+  '`/transcribe settings translate <言語コード>|off|default` 翻訳',
+  '`/transcribe settings authorize [off]` 本人として投稿するための認証'
+].join('\n');
+
+/**
+ * ユーザーの設定を取得する
+ * @param userId SlackのユーザーID
+ * @returns ユーザーの設定（未設定の場合は空）
+ */
+function getUserPreferences_(userId: string | undefined): UserPreferences {
+  if (!userId) return {};
+
+  const json = getServices_().properties.getProperty(`${USER_PREFERENCES_PREFIX}${userId}`);
+  if (!json) return {};
+
+  try {
+    return JSON.parse(json) as UserPreferences;
+  } catch (error) {
+    logError_(`ユーザー設定の形式が不正です: ${userId}, ${error}`);
+    return {};
+  }
+}
+
+/**
+ * ユーザーの設定を更新する
+ * undefinedを指定した項目は削除し、チャンネル設定・全体設定に従うようにする
+ * @param userId SlackのユーザーID
+ * @param changes 変更する項目
+ * @returns 更新後の設定
+ */
+function setUserPreferences_(userId: string, changes: Partial<UserPreferences>): UserPreferences {
+  const preferences: { [key: string]: any } = { ...getUserPreferences_(userId), ...changes };
+  for (const key of Object.keys(preferences)) {
+    if (preferences[key] === undefined) delete preferences[key];
+  }
+
+  getServices_().properties.setProperty(`${USER_PREFERENCES_PREFIX}${userId}`, JSON.stringify(preferences));
+  logInfo_(`ユーザー設定を保存しました: ${userId}, ${JSON.stringify(preferences)}`);
+  return preferences as UserPreferences;
+}
+
+/**
+ * ユーザーのボイスメモを自動で文字起こしするか判定する
+ * @param userId SlackのユーザーID
+ */
+function isAutoTranscriptionEnabled_(userId: string | undefined): boolean {
+  return getUserPreferences_(userId).autoTranscribe !== false;
+}
+
+/**
+ * /transcribe settings サブコマンドを処理する
+ *   /transcribe settings                          … 現在の設定を表示
+ *   /transcribe settings auto on|off             … 自動文字起こし
+ *   /transcribe settings delete on|off           … 元ファイルの削除
+ *   /transcribe settings post channel|thread|replace|default … 投稿方法
+ *   /transcribe settings language <言語コード>|default       … 言語
+ *   /transcribe settings translate <言語コード>|off|default  … 翻訳先の言語
+ *   /transcribe settings authorize [off]         … 本人として投稿するための認証（UserAuthorization.ts）
+ * @param userId コマンドを実行したユーザーのID
+ * @param args settings以降の引数
+ * @returns エフェメラルで表示する応答テキスト
+ */
+function handleSettingsCommand_(userId: string | undefined, args: string): string {
+  if (!userId) {
+    return 'ユーザーを特定できませんでした。';
+  }
+
+  const [key, value] = args.trim().split(/\s+/).map(part => part.toLowerCase());
+  if (!key) {
+    return formatUserPreferences_(getUserPreferences_(userId), userId);
+  }
+  if (key === 'authorize') {
+    return handleAuthorizeCommand_(userId, value);
+  }
+
+  const changes = parseUserPreferenceChange_(key, value);
+  if (!changes) {
+    return `設定を変更できませんでした。\n${USER_PREFERENCES_USAGE}`;
+  }
+
+  return `設定を変更しました。\n${formatUserPreferences_(setUserPreferences_(userId, changes), userId)}`;
+}
+
+/**
+ * 設定サブコマンドの引数を変更内容に変換する
+ * @param key 設定項目
+ * @param value 設定値
+ * @returns 変更内容、解釈できない場合はnull
+ */
+function parseUserPreferenceChange_(key: string, value: string | undefined): Partial<UserPreferences> | null {
+  const toggle = value === 'on' ? true : value === 'off' ? false : null;
+
+  switch (key) {
+    case 'auto':
+      return toggle === null ? null : { autoTranscribe: toggle };
+    case 'delete':
+      return toggle === null ? null : { deleteOriginal: toggle };
+    case 'post':
+      if (value === 'default') return { postingStrategy: undefined };
+      if (value === 'channel' || value === 'thread' || value === 'replace') return { postingStrategy: value };
+      return null;
+    case 'language':
+      if (value === 'default') return { language: undefined };
+      return value && /^[a-z]{2,3}(-[a-z0-9]+)?$/.test(value) ? { language: value } : null;
+    case 'translate':
+      if (value === 'default') return { translateTo: undefined };
+      if (value === 'off') return { translateTo: TRANSLATION_DISABLED };
+      return value && /^[a-z]{2,3}(-[a-z0-9]+)?$/.test(value) ? { translateTo: value } : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * ユーザーの設定を表示用のテキストにする
+ * @param preferences ユーザーの設定
+ * @param userId ユーザーID（本人として投稿できるかの表示に使用する）
+ */
+function formatUserPreferences_(preferences: UserPreferences, userId: string): string {
+  const onOff = (value: boolean | undefined) => (value === false ? 'オフ' : 'オン');
+  return [
+    '*文字起こしの個人設定*',
+    `• 自動文字起こし: ${onOff(preferences.autoTranscribe)}`,
+    `• 元ファイルの削除: ${onOff(preferences.deleteOriginal)}`,
+    `• 投稿方法: ${preferences.postingStrategy || 'チャンネルの設定に従う'}`,
+    `• 言語: ${preferences.language || 'チャンネルの設定に従う'}`,
+    `• 翻訳: ${formatTranslationPreference_(preferences.translateTo)}`,
+    `• 投稿者: ${getAuthorToken_(userId) ? 'あなたとして投稿' : 'アプリが代理で投稿'}`,
+    '',
+    USER_PREFERENCES_USAGE
+  ].join('\n');
+}
+
+/**
+ * 翻訳の設定を表示用のテキストにする
+ * @param translateTo 翻訳先の言語
+ */
+function formatTranslationPreference_(translateTo: string | undefined): string {
+  if (!translateTo) return 'チャンネルの設定に従う';
+  return translateTo === TRANSLATION_DISABLED ? 'オフ' : translateTo;
+}
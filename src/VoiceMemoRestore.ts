@@ -0,0 +1,209 @@
+// 削除したボイスメモの復元
+// アーカイブ（DriveArchive.ts）してから削除したファイルは、一定期間だけ投稿の「元の音声を復元」ボタンで
+// 元のチャンネル・スレッドに再アップロードできる（ユーザートークンを使用し、投稿者として共有する）
+
+/**
+ * 復元できるボイスメモ
+ */
+interface RestorableVoiceMemo {
+  fileId: string; // 削除した元のファイルID
+  fileName: string;
+  driveFileId: string; // アーカイブした音声のID
+  channelId: string; // 元のチャンネル
+  threadTs?: string; // 元のボイスメモがスレッド内にあった場合の親メッセージのts
+  userId?: string; // ボイスメモの投稿者
+  expiresAt: number; // 復元できる期限（エポックミリ秒）
+  restoredAt?: number;
+  restoredFileId?: string; // 再アップロードしたファイルのID
+}
+
+// 復元情報を保存するプロパティキーの接頭辞
+const RESTORABLE_VOICE_MEMO_PREFIX = 'RESTORABLE_VOICE_MEMO_';
+// 復元できる期間（分）を保存するプロパティキー
+const RESTORE_WINDOW_MINUTES_KEY = 'RESTORE_WINDOW_MINUTES';
+// 復元できる期間の既定値（60分）
+const DEFAULT_RESTORE_WINDOW_MINUTES = 60;
+// 復元ボタンのアクションID（ブロックIDにも使用する）
+const RESTORE_ORIGINAL_AUDIO_ACTION_ID = 'restore_original_audio';
+
+/**
+ * 復元できる期間を設定する
+ * @param minutes 期間（分）、0で復元ボタンを表示しない
+ */
+function setRestoreWindowMinutes_(minutes: number): void {
+  getServices_().properties.setProperty(RESTORE_WINDOW_MINUTES_KEY, String(Math.max(0, Math.floor(minutes))));
+  logInfo_(`復元できる期間を設定しました: ${minutes}分`);
+}
+
+/**
+ * 復元できる期間を取得する
+ * @returns 期間（ミリ秒）
+ */
+function getRestoreWindowMs_(): number {
+  const value = getServices_().properties.getProperty(RESTORE_WINDOW_MINUTES_KEY);
+  const minutes = value === null ? DEFAULT_RESTORE_WINDOW_MINUTES : parseInt(value, 10);
+  return isNaN(minutes) ? DEFAULT_RESTORE_WINDOW_MINUTES * 60 * 1000 : minutes * 60 * 1000;
+}
+
+/**
+ * 復元情報を取得する
+ * @param fileId 削除した元のファイルID
+ * @returns 復元情報、存在しない場合はnull
+ */
+function getRestorableVoiceMemo_(fileId: string): RestorableVoiceMemo | null {
+  const json = getServices_().properties.getProperty(`${RESTORABLE_VOICE_MEMO_PREFIX}${fileId}`);
+  return json ? JSON.parse(json) as RestorableVoiceMemo : null;
+}
+
+/**
+ * 復元情報を保存する
+ * @param memo 復元情報
+ */
+function saveRestorableVoiceMemo_(memo: RestorableVoiceMemo): void {
+  getServices_().properties.setProperty(`${RESTORABLE_VOICE_MEMO_PREFIX}${memo.fileId}`, JSON.stringify(memo));
+}
+
+/**
+ * 期限を過ぎた復元情報を削除する
+ * @param now 現在時刻
+ */
+function purgeExpiredRestorableVoiceMemos_(now: number): void {
+  const properties = getServices_().properties;
+  const all = properties.getProperties();
+  for (const key of Object.keys(all)) {
+    if (key.indexOf(RESTORABLE_VOICE_MEMO_PREFIX) !== 0) continue;
+    try {
+      if ((JSON.parse(all[key]) as RestorableVoiceMemo).expiresAt <= now) {
+        properties.deleteProperty(key);
+      }
+    } catch (error) {
+      properties.deleteProperty(key);
+    }
+  }
+}
+
+/**
+ * 削除したボイスメモを復元できるようにし、投稿した文字起こし結果に復元ボタンを追加する
+ * @param target 元メッセージの情報
+ * @param postedTs 文字起こし結果を投稿したメッセージのts
+ * @param message 投稿したメッセージ
+ * @param archived アーカイブしてから削除したファイル
+ */
+function offerVoiceMemoRestore_(
+  target: PostTarget,
+  postedTs: string,
+  message: RenderedMessage,
+  archived: ArchivedVoiceMemo[]
+): void {
+  const windowMs = getRestoreWindowMs_();
+  if (windowMs <= 0) return;
+
+  // 元メッセージを置き換えた場合は投稿者のメッセージ、それ以外は文字起こし結果を投稿したトークンのメッセージを更新する
+  // ボットが代理で投稿した場合は、投稿者の表示を残す
+  const replaced = postedTs === target.timestamp;
+  const authorToken = getAuthorToken_(target.userId);
+  const token = replaced ? getAuthorActionToken_(target.userId) : authorToken || getSlackToken_('bot');
+  const baseBlocks = replaced ? message.blocks : withProxyAttribution_(message.blocks, target.userId, authorToken);
+
+  if (baseBlocks.length >= SLACK_MAX_BLOCKS) {
+    logWarning_('ブロック数の上限に達しているため復元ボタンを追加しません');
+    return;
+  }
+
+  const now = Date.now();
+  purgeExpiredRestorableVoiceMemos_(now);
+
+  const expiresAt = now + windowMs;
+  for (const entry of archived) {
+    saveRestorableVoiceMemo_({
+      fileId: entry.fileId,
+      fileName: entry.fileName,
+      driveFileId: entry.audio.id,
+      channelId: target.channelId,
+      threadTs: target.threadTs,
+      userId: target.userId,
+      expiresAt
+    });
+  }
+
+  const seconds = Math.floor(expiresAt / 1000);
+  const blocks = baseBlocks.concat([{
+    type: 'section',
+    block_id: RESTORE_ORIGINAL_AUDIO_ACTION_ID,
+    text: {
+      type: 'mrkdwn',
+      text: `:leftwards_arrow_with_hook: 元の音声は <!date^${seconds}^{date_short_pretty} {time}|${new Date(expiresAt).toISOString()}> まで復元できます`
+    },
+    accessory: {
+      type: 'button',
+      action_id: RESTORE_ORIGINAL_AUDIO_ACTION_ID,
+      value: archived.map(entry => entry.fileId).join(','),
+      text: { type: 'plain_text', text: '元の音声を復元' }
+    }
+  }]);
+  updateMessage_(target.channelId, postedTs, message.text, blocks, token);
+}
+
+/**
+ * 復元ボタンの操作を処理する
+ * アーカイブした音声を元のチャンネル・スレッドに再アップロードし、ボタンを復元済みの表示に置き換える
+ * @param payload ブロックアクションのペイロード
+ * @param value ボタンの値（カンマ区切りのファイルID）
+ */
+function handleRestoreAction_(payload: BlockActionsPayload, value: string): void {
+  const notify = (text: string) => {
+    try {
+      slackRespond_(payload.response_url as string, { response_type: 'ephemeral', replace_original: false, text });
+    } catch (error) {
+      logError_(`復元ボタンへの応答エラー: ${error}`);
+    }
+  };
+
+  const now = Date.now();
+  const memos = value.split(',').map(fileId => getRestorableVoiceMemo_(fileId));
+  if (memos.some(memo => !memo || memo.expiresAt <= now)) {
+    notify('元の音声を復元できる期限を過ぎました。');
+    return;
+  }
+
+  const restorable = memos as RestorableVoiceMemo[];
+  if (restorable.some(memo => memo.userId && memo.userId !== payload.user.id)) {
+    notify('元の音声はボイスメモの投稿者のみ復元できます。');
+    return;
+  }
+
+  const archive = getServices_().archive;
+  for (const memo of restorable.filter(entry => !entry.restoredAt)) {
+    try {
+      const blob = archive.getFile(memo.driveFileId).setName(memo.fileName);
+      memo.restoredFileId = slackUploadFile_(blob, memo.channelId, memo.threadTs, {
+        token: getAuthorActionToken_(memo.userId)
+      });
+      memo.restoredAt = now;
+      saveRestorableVoiceMemo_(memo);
+      logInfo_(`✅ 元の音声を復元しました: ${memo.fileId} → ${memo.restoredFileId}`);
+    } catch (error) {
+      logError_(`❌ 元の音声の復元に失敗しました: ${memo.fileId}, ${error}`);
+      notify('元の音声の復元に失敗しました。');
+      return;
+    }
+  }
+
+  if (restorable[0].userId) {
+    markTranscriptRecordRestored_(restorable[0].userId, restorable[0].fileId);
+  }
+
+  // 復元ボタンを復元済みの表示に置き換える
+  const container = payload.container;
+  if (payload.message && container && container.channel_id && container.message_ts) {
+    const blocks = (payload.message.blocks || []).map((block: any) =>
+      block.block_id === RESTORE_ORIGINAL_AUDIO_ACTION_ID
+        ? { type: 'context', elements: [{ type: 'mrkdwn', text: ':leftwards_arrow_with_hook: 元の音声を復元しました' }] }
+        : block
+    );
+    // 投稿者のメッセージは投稿者のトークン、ボットが代理で投稿したメッセージはボットトークンで更新する
+    const authorId = restorable[0].userId;
+    const token = authorId && payload.message.user === authorId ? getAuthorActionToken_(authorId) : getSlackToken_('bot');
+    updateMessage_(container.channel_id, container.message_ts, payload.message.text || '', blocks, token);
+  }
+}
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { gas, loadGasProject } from './helpers/gas';
+import { FakeServices, installFakeServices } from './helpers/fakes';
+
+loadGasProject();
+
+const ADMIN_KEY = 'admin-key-0123456789';
+
+let services: FakeServices;
+
+function openPage(key?: string): string {
+  return gas.doGet({ parameter: key ? { key } : {} }).getContent();
+}
+
+function saveJob(fileId: string, state: string, extra: any = {}): void {
+  services.properties.setProperty(`TRANSCRIPTION_JOB_${fileId}`, JSON.stringify({
+    fileId,
+    channelId: 'C0TEST',
+    timestamp: '1700000000.000100',
+    groupFileIds: [fileId],
+    state,
+    retryCount: 6,
+    nextAttemptAt: 0,
+    leaseUntil: 0,
+    createdAt: 1,
+    updatedAt: 1,
+    ...extra
+  }));
+}
+
+beforeEach(() => {
+  services = installFakeServices();
+  services.http.onSlack('auth.test', (request: any) =>
+    request.headers.Authorization === 'Bearer xoxb-test' ? { team: 'Test Team', user: 'voicebot' } : { ok: false, error: 'invalid_auth' }
+  );
+  gas.setupAdminAccess_(ADMIN_KEY);
+});
+
+afterEach(() => {
+  gas.setServices_(null);
+});
+
+describe('admin page', () => {
+  it('shows only the health check without the admin key', () => {
+    expect(openPage()).toBe('Slack Voice Converter is running!');
+    expect(openPage('wrong-key')).toBe('Slack Voice Converter is running!');
+    expect(services.logSink.messages('WARN')).toContain('⛔ 管理ページへのアクセスを拒否しました');
+    expect(openPage(ADMIN_KEY)).toContain('<h1>🎤 Slack Voice Converter</h1>');
+  });
+
+  it('shows token validity, channels, unfinished jobs, triggers and recent errors', () => {
+    gas.setChannelPolicy_({ deny: ['random'], overrides: { 'times-*': { translateTo: 'en' } } });
+    saveJob('F0FAILED', 'failed', { lastError: '文字起こし結果の投稿に失敗' });
+    saveJob('F0POSTED', 'posted');
+    services.triggers.scheduleDaily('rotateLogs', 3);
+    services.logSink.rows.push(['2026-10-19T00:00:00.000Z', 'ERROR', 'F0X_C0_U0_1.0', '<script>alert(1)</script>', '']);
+
+    const html = openPage(ADMIN_KEY);
+
+    expect(html).toContain('✅ 有効（チーム=Test Team, ユーザー=voicebot）');
+    expect(html).toContain('❌ invalid_auth');
+    expect(html).toContain('<tr><th>拒否</th><td>random</td></tr>');
+    expect(html).toContain('times-*');
+    expect(html).toContain('F0FAILED');
+    expect(html).toContain('文字起こし結果の投稿に失敗');
+    expect(html).not.toContain('F0POSTED');
+    expect(html).toContain('<tr><td>rotateLogs</td><td>1</td><td></td></tr>');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).toContain(`var ADMIN_KEY = "${ADMIN_KEY}"`);
+  });
+
+  it('passes the file ID to the retry button as an escaped JavaScript string', () => {
+    saveJob('F0FAILED', 'failed');
+    saveJob("F0');alert(1);//\\", 'failed');
+
+    const html = openPage(ADMIN_KEY);
+
+    expect(html).toContain(`onclick="run('adminRetryTranscriptionJob', &quot;F0FAILED&quot;)"`);
+    expect(html).toContain(`onclick="run('adminRetryTranscriptionJob', &quot;F0&#39;);alert(1);//\\\\&quot;)"`);
+  });
+
+  it('retries a failed job and clears stale triggers only with the admin key', () => {
+    saveJob('F0FAILED', 'failed');
+    services.triggers.scheduleAfter('retryTranscriptionCheck', 1000);
+    services.triggers.scheduleAfter('removedHandler', 1000);
+    services.triggers.scheduleDaily('rotateLogs', 3);
+    services.triggers.scheduleDaily('rotateLogs', 3);
+
+    expect(() => gas.adminRetryTranscriptionJob('wrong-key', 'F0FAILED')).toThrow('権限がありません');
+    expect(gas.adminRetryTranscriptionJob(ADMIN_KEY, 'F0FAILED')).toBe('ジョブを再実行しました: F0FAILED');
+    const job = JSON.parse(services.properties.getProperty('TRANSCRIPTION_JOB_F0FAILED') as string);
+    expect(job.state).toBe('queued');
+    expect(job.retryCount).toBe(0);
+
+    expect(gas.adminClearStaleTriggers(ADMIN_KEY)).toBe('不要なトリガーを削除しました: 3件');
+    expect(services.triggers.getHandlerFunctions().sort()).toEqual(['dispatchTranscriptionJobs', 'rotateLogs']);
+  });
+});
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { gas, loadGasProject } from './helpers/gas';
+import { FakeServices, installFakeServices, postEventCallback, postFileShareEvent } from './helpers/fakes';
+
+loadGasProject();
+
+const CHANNEL = 'C0TEST';
+const AUTHOR = 'U0AUTHOR';
+const RESPONSE_URL = 'https://hooks.slack.com/commands/T0TEST/1/abc';
+
+let services: FakeServices;
+let memo: any;
+
+function shareMemo(): void {
+  postFileShareEvent({ files: [memo] });
+}
+
+function clickButton(actionId: string, value?: string): void {
+  const fields = {
+    payload: JSON.stringify({
+      type: 'block_actions',
+      user: { id: AUTHOR },
+      view: { type: 'home' },
+      actions: [{ action_id: actionId, value }]
+    })
+  };
+  gas.doPost({ postData: { contents: new URLSearchParams(fields).toString() }, parameter: fields });
+}
+
+function runDispatcher(): void {
+  vi.setSystemTime(Date.now() + 11000);
+  gas.dispatchTranscriptionJobs();
+}
+
+function lastHomeView(): string {
+  const calls = services.http.slackCalls('views.publish');
+  expect(calls.length).toBeGreaterThan(0);
+  const request = calls[calls.length - 1];
+  expect(request.params.user_id).toBe(AUTHOR);
+  return JSON.stringify(request.params.view);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  services = installFakeServices();
+  services.http.onSlack('views.publish', {});
+  memo = {
+    id: 'F0AUDIO',
+    name: 'memo.m4a',
+    filetype: 'm4a',
+    mimetype: 'audio/mp4',
+    user: AUTHOR,
+    transcription: { status: 'complete', preview: { content: 'ホームのテスト', has_more: false } }
+  };
+  services.http.onSlack('files.info', () => ({ file: memo }));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  gas.setServices_(null);
+});
+
+describe('App Home', () => {
+  it('lists processed memos with a link to the posted transcript', () => {
+    shareMemo();
+    postEventCallback({ type: 'app_home_opened', user: AUTHOR, tab: 'home' });
+
+    const view = lastHomeView();
+    expect(view).toContain('memo.m4a');
+    expect(view).toContain('https://slack.com/archives/C0TEST/p2000000000000100');
+    expect(view).not.toContain('retry_transcription');
+  });
+
+  it('offers a retry for failed memos and queues the pipeline again', () => {
+    memo.transcription = { status: 'failed' };
+    shareMemo();
+    expect(gas.getTranscriptHistory_(AUTHOR)[0].status).toBe('failed');
+
+    memo.transcription = { status: 'complete', preview: { content: '再実行の結果', has_more: false } };
+    clickButton('retry_transcription', 'F0AUDIO');
+    expect(services.http.slackCalls('chat.postMessage')).toHaveLength(1);
+    expect(gas.getTranscriptHistory_(AUTHOR)[0].status).toBe('processing');
+
+    runDispatcher();
+
+    const texts = services.http.slackCalls('chat.postMessage').map(request => request.params.text);
+    expect(texts).toEqual(['音声の文字起こしに失敗しました。', '再実行の結果']);
+    expect(gas.getTranscriptHistory_(AUTHOR)[0].status).toBe('complete');
+    expect(lastHomeView()).not.toContain('retry_transcription');
+  });
+
+  it('keeps the original file when retrying a memo transcribed on request', () => {
+    services.http.onUrl(RESPONSE_URL, () => ({ body: 'ok' }));
+    memo.transcription = { status: 'failed' };
+    gas.transcribeVoiceMemo_([memo], { channelId: CHANNEL, timestamp: '', userId: AUTHOR, responseUrl: RESPONSE_URL, keepOriginal: true });
+    expect(gas.getTranscriptHistory_(AUTHOR)[0].keepOriginal).toBe(true);
+
+    memo.transcription = { status: 'complete', preview: { content: '再実行の結果', has_more: false } };
+    clickButton('retry_transcription', 'F0AUDIO');
+    runDispatcher();
+
+    expect(services.http.slackCalls('chat.postMessage').map(request => request.params.text)).toEqual(['再実行の結果']);
+    expect(services.http.slackCalls('files.delete')).toHaveLength(0);
+  });
+
+  it('does not offer a retry for results shown only to the requester', () => {
+    services.http.onUrl(RESPONSE_URL, () => ({ body: 'ok' }));
+    memo.transcription = { status: 'failed' };
+    gas.transcribeVoiceMemo_([memo], { channelId: CHANNEL, timestamp: '', userId: AUTHOR, responseUrl: RESPONSE_URL, ephemeral: true, keepOriginal: true });
+    postEventCallback({ type: 'app_home_opened', user: AUTHOR, tab: 'home' });
+    expect(lastHomeView()).not.toContain('retry_transcription');
+
+    clickButton('retry_transcription', 'F0AUDIO');
+    expect(services.http.slackCalls('chat.postMessage')).toHaveLength(0);
+  });
+
+  it('toggles personal settings from the home tab', () => {
+    clickButton('toggle_auto_transcribe');
+
+    expect(gas.getUserPreferences_(AUTHOR).autoTranscribe).toBe(false);
+    expect(lastHomeView()).toContain('*自動文字起こし:* オフ');
+  });
+});
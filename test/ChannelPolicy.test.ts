@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { gas, loadGasProject } from './helpers/gas';
+import { FakeServices, installFakeServices } from './helpers/fakes';
+
+loadGasProject();
+
+const CHANNELS: { [id: string]: any } = {
+  C0TIMES: { name: 'times-taro' },
+  C0GENERAL: { name: 'general' },
+  C0RANDOM: { name: 'random' },
+  C0SECRET: { name: 'times-secret', is_private: true },
+  D0DIRECT: { is_im: true }
+};
+
+let services: FakeServices;
+
+function evaluate(channelId: string, channelType?: string): any {
+  return gas.evaluateChannelPolicy_(channelId, channelType);
+}
+
+beforeEach(() => {
+  services = installFakeServices();
+  services.http.onSlack('conversations.info', (request: any) =>
+    CHANNELS[request.params.channel]
+      ? { channel: { id: request.params.channel, ...CHANNELS[request.params.channel] } }
+      : { ok: false, error: 'channel_not_found' }
+  );
+});
+
+afterEach(() => {
+  gas.setServices_(null);
+});
+
+describe('channel patterns', () => {
+  it('matches IDs, names with or without # and wildcards', () => {
+    const channel = { id: 'C0TIMES', name: 'times-taro', isPrivate: false, isDirectMessage: false };
+
+    expect(gas.matchesChannelPattern_(channel, 'C0TIMES')).toBe(true);
+    expect(gas.matchesChannelPattern_(channel, '#times-taro')).toBe(true);
+    expect(gas.matchesChannelPattern_(channel, 'times-*')).toBe(true);
+    expect(gas.matchesChannelPattern_(channel, '*-taro')).toBe(true);
+    expect(gas.matchesChannelPattern_(channel, 'times')).toBe(false);
+    expect(gas.matchesChannelPattern_(channel, 'times.taro')).toBe(false);
+    expect(gas.matchesChannelPattern_(channel, ' ')).toBe(false);
+    expect(gas.matchesChannelPattern_({ ...channel, name: null }, 'times-*')).toBe(false);
+  });
+});
+
+describe('channel policy', () => {
+  it('allows every channel by default', () => {
+    expect(evaluate('C0GENERAL').allowed).toBe(true);
+    expect(evaluate('C0SECRET').allowed).toBe(true);
+    expect(evaluate('D0DIRECT', 'im').allowed).toBe(true);
+  });
+
+  it('applies the allow list and lets the deny list take precedence', () => {
+    gas.setChannelPolicy_({ allow: ['times-*', 'C0GENERAL'], deny: ['#times-secret'] });
+
+    expect(evaluate('C0TIMES').allowed).toBe(true);
+    expect(evaluate('C0GENERAL').allowed).toBe(true);
+    expect(evaluate('C0RANDOM')).toMatchObject({ allowed: false, reason: '許可リストに含まれていません' });
+    expect(evaluate('C0SECRET')).toMatchObject({ allowed: false, reason: '拒否リストに含まれています' });
+  });
+
+  it('excludes direct messages and private channels when disabled', () => {
+    gas.setChannelPolicy_({ allow: ['general'], allowDirectMessages: false, allowPrivateChannels: false });
+
+    expect(evaluate('D0DIRECT', 'im')).toMatchObject({ allowed: false, reason: 'DMは処理対象外です' });
+    expect(evaluate('D0DIRECT')).toMatchObject({ allowed: false, reason: 'DMは処理対象外です' });
+    expect(evaluate('C0SECRET')).toMatchObject({ allowed: false, reason: 'プライベートチャンネルは処理対象外です' });
+
+    // DMは許可リストに関係なく、allowDirectMessagesだけで判定する
+    gas.setChannelPolicy_({ allow: ['general'] });
+    const lookups = services.http.slackCalls('conversations.info').length;
+    expect(evaluate('G0GROUPDM', 'mpim').allowed).toBe(true);
+    expect(services.http.slackCalls('conversations.info')).toHaveLength(lookups);
+  });
+
+  it('merges per-channel overrides in definition order', () => {
+    gas.setChannelPolicy_({
+      overrides: {
+        'times-*': { deleteOriginal: false, language: 'ja' },
+        C0TIMES: { language: 'en', translateTo: 'ja' }
+      }
+    });
+
+    expect(evaluate('C0TIMES').settings).toEqual({ deleteOriginal: false, language: 'en', translateTo: 'ja' });
+    expect(gas.getChannelSettings_('C0SECRET')).toEqual({ deleteOriginal: false, language: 'ja' });
+    expect(gas.getChannelSettings_('C0GENERAL')).toEqual({});
+  });
+
+  it('uses SLACK_CHANNEL_NAME as the allow list until one is configured', () => {
+    services.properties.setProperty('SLACK_CHANNEL_NAME', 'times-taro');
+
+    expect(evaluate('C0TIMES').allowed).toBe(true);
+    expect(evaluate('C0GENERAL').allowed).toBe(false);
+
+    gas.setChannelPolicy_({ allow: ['general'] });
+    expect(evaluate('C0TIMES').allowed).toBe(false);
+    expect(evaluate('C0GENERAL').allowed).toBe(true);
+  });
+
+  it('caches channel lookups and falls back to the ID when the lookup fails', () => {
+    gas.setChannelPolicy_({ allow: ['C0UNKNOWN', 'times-*'] });
+
+    evaluate('C0TIMES');
+    evaluate('C0TIMES');
+    expect(services.http.slackCalls('conversations.info')).toHaveLength(1);
+
+    expect(evaluate('C0UNKNOWN')).toMatchObject({ allowed: true, channel: { name: null, unresolved: true } });
+    expect(evaluate('C0UNKNOWN', 'group')).toMatchObject({ channel: { isPrivate: true } });
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { gas, loadGasProject } from './helpers/gas';
+import { FakeServices, installFakeServices, postFileShareEvent } from './helpers/fakes';
+
+loadGasProject();
+
+let services: FakeServices;
+let memo: any;
+
+function shareMemo(): void {
+  postFileShareEvent({ files: [memo] });
+}
+
+function deletedFiles(): string[] {
+  return services.http.slackCalls('files.delete').map(request => request.params.file);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  // 2026-01-01 09:30 JST
+  vi.setSystemTime(new Date('2026-01-01T00:30:00Z'));
+  services = installFakeServices();
+  memo = {
+    id: 'F0AUDIO',
+    name: 'memo.m4a',
+    filetype: 'm4a',
+    mimetype: 'audio/mp4',
+    user: 'U0AUTHOR',
+    url_private_download: 'https://files.slack.com/F0AUDIO/download',
+    transcription: { status: 'complete', preview: { content: '保存してから削除', has_more: false } }
+  };
+  services.http.onSlack('files.info', () => ({ file: memo }));
+  services.http.onUrl('https://files.slack.com/', () => ({ body: 'audio-bytes' }));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  gas.setServices_(null);
+});
+
+describe('archive before delete', () => {
+  it('stores the audio and a transcript sidecar in Drive before deleting', () => {
+    gas.setupDriveArchive_('folder-root');
+
+    shareMemo();
+
+    const [audio, sidecar] = services.archive.files;
+    expect(audio).toMatchObject({ rootFolderId: 'folder-root', name: 'F0AUDIO_memo.m4a', content: 'audio-bytes' });
+    expect(audio.path[0]).toBe('times-test');
+    expect(audio.path[1]).toMatch(/^2026-01-01$/);
+    expect(sidecar.name).toBe('F0AUDIO_memo.m4a.txt');
+    expect(sidecar.content).toContain('保存してから削除');
+    expect(deletedFiles()).toEqual(['F0AUDIO']);
+  });
+
+  it('keeps the Slack file when archiving fails', () => {
+    gas.setupDriveArchive_('folder-root');
+    services.archive.failing = true;
+
+    shareMemo();
+
+    expect(services.http.slackCalls('chat.postMessage')).toHaveLength(1);
+    expect(deletedFiles()).toEqual([]);
+  });
+
+  it('never deletes preview-only or empty transcripts', () => {
+    memo.transcription = { status: 'complete', preview: { content: '   ', has_more: false } };
+    shareMemo();
+    expect(services.http.slackCalls('chat.postMessage')[0].params.text).toBe('文字起こしできる内容がありませんでした。');
+
+    memo.id = 'F0PREVIEW';
+    memo.transcription = { status: 'complete', preview: { content: '前半', has_more: true } };
+    services.http.onSlack('files.info', (request: any) =>
+      request.params.get_transcript ? { ok: false, error: 'internal_error' } : { file: memo }
+    );
+    shareMemo();
+
+    expect(deletedFiles()).toEqual([]);
+    expect(services.archive.files).toEqual([]);
+  });
+});
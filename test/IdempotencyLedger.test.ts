@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { gas, loadGasProject } from './helpers/gas';
+import { FakeServices, installFakeServices, postFileShareEvent } from './helpers/fakes';
+
+loadGasProject();
+
+let services: FakeServices;
+
+function deliver(eventId: string, fileId: string = 'F0AUDIO', ts: string = '1700000000.000100'): string {
+  return postFileShareEvent({ files: [{ id: fileId }], ts, envelope: { event_id: eventId } });
+}
+
+function advance(ms: number): void {
+  vi.setSystemTime(Date.now() + ms);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-10-19T00:00:00Z'));
+  services = installFakeServices();
+  services.http.onSlack('files.info', (request: any) => ({
+    file: {
+      id: request.params.file,
+      name: 'memo.m4a',
+      filetype: 'm4a',
+      mimetype: 'audio/mp4',
+      user: 'U0AUTHOR',
+      transcription: { status: 'complete', preview: { content: '冪等性のテスト', has_more: false } }
+    }
+  }));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  gas.setServices_(null);
+});
+
+describe('idempotency ledger', () => {
+  it('returns the earlier outcome for delayed retries and other events for the same file', () => {
+    expect(deliver('Ev0FIRST')).toBe('Event received');
+
+    advance(5 * 60 * 1000);
+    expect(deliver('Ev0FIRST')).toBe('Duplicate event (posted)');
+    expect(deliver('Ev0OTHER', 'F0AUDIO', '1700000300.000100')).toBe('Duplicate event (posted)');
+    expect(services.http.slackCalls('chat.postMessage')).toHaveLength(1);
+    expect(services.http.slackCalls('files.info')).toHaveLength(1);
+
+    expect(deliver('Ev0SECOND', 'F0NEXT', '1700000400.000100')).toBe('Event received');
+    expect(services.http.slackCalls('chat.postMessage')).toHaveLength(2);
+  });
+
+  it('rejects a concurrent delivery while the first one is processing and reclaims it after the execution limit', () => {
+    const files = [{ id: 'F0AUDIO', filetype: 'm4a' }, { id: 'F0IMAGE', filetype: 'png' }];
+    const keys = gas.getEventIdempotencyKeys_({ event_id: 'Ev0FIRST', event: { files } }, '');
+    expect(keys).toEqual(['event_Ev0FIRST', 'file_F0AUDIO']);
+    expect(gas.claimIdempotencyKeys_(keys).claimed).toBe(true);
+
+    expect(deliver('Ev0FIRST')).toBe('Duplicate event (processing)');
+    expect(services.http.slackCalls('chat.postMessage')).toHaveLength(0);
+
+    // 処理中のまま実行時間上限を過ぎた記録は、実行が中断されたとみなして再処理する
+    advance(6 * 60 * 1000 + 1);
+    expect(deliver('Ev0FIRST')).toBe('Event received');
+    expect(services.http.slackCalls('chat.postMessage')).toHaveLength(1);
+    expect(JSON.parse(services.properties.getProperty('IDEMPOTENCY_RECORD_file_F0AUDIO') as string)).toMatchObject({
+      state: 'completed',
+      outcome: 'posted'
+    });
+  });
+
+  it('purges records after the configured retention period at most once an hour', () => {
+    expect(() => gas.setIdempotencyTtlHours_(0)).toThrow('保存期間は0より大きい値を指定してください');
+    gas.setIdempotencyTtlHours_(0.5);
+    deliver('Ev0FIRST');
+
+    // 記録は期限切れでも、前回の削除から1時間経つまでは削除しない
+    advance(30 * 60 * 1000);
+    deliver('Ev0SECOND', 'F0SECOND', '1700001800.000100');
+    expect(services.properties.getProperty('IDEMPOTENCY_RECORD_event_Ev0FIRST')).not.toBeNull();
+
+    advance(30 * 60 * 1000);
+    deliver('Ev0OTHER', 'F0NEXT', '1700003600.000100');
+
+    expect(services.properties.getProperty('IDEMPOTENCY_RECORD_event_Ev0FIRST')).toBeNull();
+    expect(services.properties.getProperty('IDEMPOTENCY_RECORD_file_F0SECOND')).toBeNull();
+    expect(services.properties.getProperty('IDEMPOTENCY_RECORD_file_F0AUDIO')).toBeNull();
+    expect(services.properties.getProperty('IDEMPOTENCY_RECORD_file_F0NEXT')).not.toBeNull();
+  });
+});
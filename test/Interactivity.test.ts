@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { gas, loadGasProject } from './helpers/gas';
+import { FakeServices, installFakeServices, postFileShareEvent } from './helpers/fakes';
+
+loadGasProject();
+
+const CHANNEL = 'C0TEST';
+const MESSAGE_TS = '1700000000.000100';
+const RESPONSE_URL = 'https://hooks.slack.com/actions/T0TEST/1/abc';
+
+let services: FakeServices;
+let slackFile: any;
+
+function runShortcut(callbackId: string, files: any[]): string {
+  const payload = {
+    type: 'message_action',
+    callback_id: callbackId,
+    team: { id: 'T0TEST' },
+    user: { id: 'U0OTHER' },
+    channel: { id: CHANNEL, name: 'times-test' },
+    message: { ts: MESSAGE_TS, user: 'U0AUTHOR', files },
+    response_url: RESPONSE_URL
+  };
+  const fields = { payload: JSON.stringify(payload) };
+  return gas
+    .doPost({
+      postData: { contents: new URLSearchParams(fields).toString(), type: 'application/x-www-form-urlencoded' },
+      parameter: fields
+    })
+    .getContent();
+}
+
+function responses(): any[] {
+  return services.http.requests.filter(request => request.url === RESPONSE_URL).map(request => request.params);
+}
+
+function runDispatcher(): void {
+  vi.setSystemTime(Date.now() + 11000);
+  gas.dispatchTranscriptionJobs();
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  services = installFakeServices();
+  services.http.onUrl(RESPONSE_URL, () => ({ body: 'ok' }));
+  slackFile = {
+    id: 'F0AUDIO',
+    name: 'memo.m4a',
+    filetype: 'm4a',
+    mimetype: 'audio/mp4',
+    user: 'U0AUTHOR',
+    transcription: { status: 'complete', preview: { content: 'ショートカットのメモ', has_more: false } }
+  };
+  services.http.onSlack('files.info', () => ({ file: slackFile }));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  gas.setServices_(null);
+});
+
+describe('message shortcut', () => {
+  it('replies in the thread of the selected message and keeps the original file', () => {
+    expect(runShortcut('transcribe_in_thread', [slackFile])).toBe('');
+    expect(responses().map(response => response.text)).toEqual([
+      ':hourglass_flowing_sand: ボイスメモ（1件）の文字起こしを開始しました。完了するとスレッドに返信します。'
+    ]);
+    expect(services.http.slackCalls('files.info')).toHaveLength(0);
+
+    runDispatcher();
+
+    const [message] = services.http.slackCalls('chat.postMessage').map(request => request.params);
+    expect(message.thread_ts).toBe(MESSAGE_TS);
+    expect(message.text).toBe('ショートカットのメモ');
+    expect(services.http.slackCalls('files.delete')).toHaveLength(0);
+  });
+
+  it('shows the transcript only to the user who ran the shortcut', () => {
+    runShortcut('transcribe_ephemeral', [slackFile]);
+    runDispatcher();
+
+    const [, response] = responses();
+    expect(response.response_type).toBe('ephemeral');
+    expect(response.text).toBe('ショートカットのメモ');
+    expect(services.http.slackCalls('chat.postMessage')).toHaveLength(0);
+  });
+
+  it('keeps the reply choice while waiting for Slack to finish transcribing', () => {
+    const transcription = slackFile.transcription;
+    slackFile.transcription = { status: 'processing' };
+
+    runShortcut('transcribe_ephemeral', [slackFile]);
+    runDispatcher();
+    expect(responses()).toHaveLength(1);
+
+    slackFile.transcription = transcription;
+    vi.setSystemTime(Date.now() + 20000);
+    gas.dispatchTranscriptionJobs();
+
+    expect(responses().map(response => response.text)).toEqual([
+      ':hourglass_flowing_sand: ボイスメモ（1件）の文字起こしを開始しました。完了するとあなたにだけ表示します。',
+      'ショートカットのメモ'
+    ]);
+  });
+
+  it('adds the reply to a voice memo that is already being transcribed', () => {
+    const transcription = slackFile.transcription;
+    slackFile.transcription = { status: 'processing' };
+    postFileShareEvent({ files: [slackFile] });
+
+    runShortcut('transcribe_ephemeral', [slackFile]);
+    expect(responses().map(response => response.text)).toEqual([
+      ':hourglass_flowing_sand: このボイスメモはすでに文字起こし中です。完了するとあなたにだけ表示します。'
+    ]);
+
+    slackFile.transcription = transcription;
+    runDispatcher();
+
+    expect(services.http.slackCalls('chat.postMessage')).toHaveLength(1);
+    expect(responses().map(response => [response.response_type, response.text])).toEqual([
+      ['ephemeral', ':hourglass_flowing_sand: このボイスメモはすでに文字起こし中です。完了するとあなたにだけ表示します。'],
+      ['ephemeral', 'ショートカットのメモ']
+    ]);
+    // ショートカットで依頼した場合は元のファイルを残す
+    expect(services.http.slackCalls('files.delete')).toHaveLength(0);
+  });
+
+  it('tells the user when the message has no audio file', () => {
+    runShortcut('transcribe_in_thread', [{ id: 'F0IMAGE', filetype: 'png', mimetype: 'image/png' }]);
+
+    expect(responses()[0].text).toBe('このメッセージには音声ファイルがありません。');
+    expect(services.http.slackCalls('files.info')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { gas, loadGasProject } from './helpers/gas';
+import { FakeLogSink, FakeServices, installFakeServices, postFileShareEvent } from './helpers/fakes';
+
+loadGasProject();
+
+const EVENT_KEY = 'F0AUDIO_C0TEST_U0AUTHOR_1700000000.000100';
+
+let services: FakeServices;
+let transcription: any;
+
+/**
+ * スプレッドシートと同じく、最終行を読んでから書き込むまでの間に他の実行が割り込めるログの出力先
+ */
+class InterleavingLogSink extends FakeLogSink {
+  onAppend: (() => void) | null = null;
+
+  append(rows: string[][]): void {
+    const nextRow = this.rows.length;
+    const interrupt = this.onAppend;
+    this.onAppend = null;
+    if (interrupt) interrupt();
+    this.rows.splice(nextRow, rows.length, ...rows);
+  }
+}
+
+/**
+ * ロック中に呼ばれた処理を、別の実行がロックを待っているものとして解放後に実行する
+ */
+class SerialLock {
+  private held = false;
+  private readonly waiting: (() => void)[] = [];
+
+  runExclusive<T>(fn: () => T): T {
+    if (this.held) {
+      this.waiting.push(fn);
+      return undefined as T;
+    }
+
+    this.held = true;
+    try {
+      return fn();
+    } finally {
+      this.held = false;
+      const next = this.waiting.shift();
+      if (next) this.runExclusive(next);
+    }
+  }
+}
+
+function shareMemo(): void {
+  postFileShareEvent();
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-10-19T00:00:00Z'));
+  services = installFakeServices();
+  transcription = { status: 'complete', preview: { content: 'ログのテスト', has_more: false } };
+  services.http.onSlack('files.info', () => ({
+    file: { id: 'F0AUDIO', name: 'memo.m4a', filetype: 'm4a', mimetype: 'audio/mp4', user: 'U0AUTHOR', transcription }
+  }));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  gas.setServices_(null);
+});
+
+describe('structured logging', () => {
+  it('writes one batch per request with the event key as correlation ID', () => {
+    shareMemo();
+
+    expect(services.logSink.appendCalls).toBe(1);
+    const rows = services.logSink.rows;
+    expect(rows.every(row => row.length === 5)).toBe(true);
+    expect(rows.some(row => row[1] === 'DEBUG')).toBe(false);
+
+    const posted = rows.find(row => row[3] === '✅ 文字起こし結果を投稿しました') as string[];
+    expect(posted[2]).toBe(EVENT_KEY);
+    const received = rows.find(row => row[3] === '🔍 リクエストを受信しました') as string[];
+    expect(JSON.parse(received[4])).toMatchObject({ type: 'event_callback', eventType: 'message', subtype: 'file_share' });
+  });
+
+  it('carries the correlation ID into queued jobs and writes Slack calls at DEBUG level', () => {
+    gas.setLogLevel_('DEBUG');
+    transcription = { status: 'processing' };
+    shareMemo();
+
+    transcription = { status: 'complete', preview: { content: 'あとで完了', has_more: false } };
+    vi.setSystemTime(Date.now() + 11000);
+    gas.dispatchTranscriptionJobs();
+
+    const jobRows = services.logSink.rows.filter(row => row[3].indexOf('トランスクリプション再チェック') === 0);
+    expect(jobRows).toHaveLength(1);
+    expect(jobRows[0][2]).toBe(EVENT_KEY);
+    const slackCall = services.logSink.rows.find(row => row[1] === 'DEBUG' && row[3] === 'Slack API chat.postMessage') as string[];
+    expect(slackCall[2]).toBe(EVENT_KEY);
+    expect(JSON.parse(slackCall[4])).toMatchObject({ method: 'chat.postMessage', ok: true });
+  });
+
+  it('registers the rotation trigger when writing logs if it is missing', () => {
+    shareMemo();
+    expect(services.triggers.getHandlerFunctions()).not.toContain('rotateLogs');
+
+    services.properties.setProperty('SPREADSHEET_ID_KEY', 'sheet-id');
+    gas.logInfo_('スプレッドシート設定後のログ');
+    expect(services.triggers.getHandlerFunctions()).toEqual(['rotateLogs']);
+
+    // 確認は一定時間に1回のため、削除されてもすぐには登録し直さない
+    services.triggers.deleteByHandler('rotateLogs');
+    gas.logInfo_('次のログ');
+    expect(services.triggers.getHandlerFunctions()).toEqual([]);
+
+    services.cache.remove('log_rotation_checked');
+    gas.logInfo_('キャッシュの期限切れ後のログ');
+    expect(services.triggers.getHandlerFunctions()).toEqual(['rotateLogs']);
+  });
+
+  it('does not let concurrent flushes overwrite each other', () => {
+    const logSink = new InterleavingLogSink();
+    gas.setServices_({ ...services, lock: new SerialLock(), logSink });
+    logSink.onAppend = () => gas.logInfo_('別の実行のログ');
+
+    gas.logInfo_('最初のログ');
+
+    expect(logSink.messages()).toEqual(['最初のログ', '別の実行のログ']);
+  });
+
+  it('moves rows older than the retention period to monthly sheets', () => {
+    gas.setLogRetentionDays_(30);
+    services.logSink.rows.length = 0;
+    services.logSink.rows.push(
+      ['2026-08-31T23:00:00.000Z', 'INFO', '', '古いログ1', ''],
+      ['2026-09-02T00:00:00.000Z', 'INFO', '', '古いログ2', ''],
+      ['2026-10-01T00:00:00.000Z', 'INFO', '', '新しいログ', '']
+    );
+
+    expect(gas.rotateLogs()).toBe(2);
+
+    expect(Object.keys(services.logSink.sheets)).toEqual(['Logs_2026-08', 'Logs_2026-09']);
+    expect(services.logSink.rows.map(row => row[3])).toEqual(['新しいログ', '保持期間を過ぎたログを移しました: 2件']);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { gas, loadGasProject } from './helpers/gas';
+
+loadGasProject();
+
+describe('splitTextForBlocks_', () => {
+  it('keeps every chunk within the limit and prefers sentence boundaries', () => {
+    const text = 'あ'.repeat(2500) + '。' + 'い'.repeat(2500);
+    const chunks: string[] = gas.splitTextForBlocks_(text, 3000);
+
+    expect(chunks).toEqual(['あ'.repeat(2500) + '。', 'い'.repeat(2500)]);
+  });
+
+  it('does not cut inside an escaped entity', () => {
+    const text = 'a'.repeat(2998) + '&amp;' + 'b';
+    const chunks: string[] = gas.splitTextForBlocks_(text, 3000);
+
+    expect(chunks[0]).toBe('a'.repeat(2998));
+    expect(chunks[1]).toBe('&amp;b');
+  });
+});
+
+describe('renderTranscriptMessage_', () => {
+  it('splits long transcripts across section blocks and builds a plain-text fallback', () => {
+    const rendered = gas.renderTranscriptMessage_({
+      text: 'x'.repeat(7000),
+      status: 'partial',
+      userId: 'U0AUTHOR',
+      durationMs: 83000,
+      fileName: 'memo.m4a'
+    });
+
+    const sections = rendered.blocks.filter((block: any) => block.type === 'section');
+    expect(sections).toHaveLength(4);
+    expect(sections.every((block: any) => block.text.text.length <= 3000)).toBe(true);
+    expect(JSON.stringify(sections[0].fields)).toContain('1:23');
+    expect(rendered.text.endsWith(' (続きがあります)')).toBe(true);
+  });
+});
@@ -0,0 +1,66 @@
+import * as crypto from 'crypto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { gas, loadGasProject } from './helpers/gas';
+import { FakeServices, installFakeServices } from './helpers/fakes';
+
+loadGasProject();
+
+const SECRET = 'signing-secret';
+const NOW_MS = Date.UTC(2026, 0, 1);
+
+function sign(timestamp: string, body: string, secret = SECRET): string {
+  return 'v0=' + crypto.createHmac('sha256', secret).update(`v0:${timestamp}:${body}`).digest('hex');
+}
+
+let services: FakeServices;
+
+beforeEach(() => {
+  services = installFakeServices();
+});
+
+afterEach(() => {
+  gas.setServices_(null);
+});
+
+describe('verifySlackSignature_', () => {
+  const body = '{"type":"event_callback"}';
+  const timestamp = String(NOW_MS / 1000);
+
+  it('accepts a valid signature', () => {
+    expect(gas.verifySlackSignature_(SECRET, sign(timestamp, body), timestamp, body, NOW_MS).ok).toBe(true);
+  });
+
+  it('rejects a signature made with another secret', () => {
+    const result = gas.verifySlackSignature_(SECRET, sign(timestamp, body, 'other'), timestamp, body, NOW_MS);
+    expect(result).toMatchObject({ ok: false, reason: '署名が一致しません' });
+  });
+
+  it('rejects requests outside the replay window', () => {
+    const result = gas.verifySlackSignature_(SECRET, sign(timestamp, body), timestamp, body, NOW_MS + 6 * 60 * 1000);
+    expect(result).toMatchObject({ ok: false, reason: 'タイムスタンプが許容範囲外です' });
+  });
+});
+
+describe('doPost request verification', () => {
+  it('rejects and counts requests with a wrong verification token', () => {
+    services.properties.setProperty('SLACK_VERIFICATION_TOKEN', 'expected');
+    const contents = JSON.stringify({ type: 'url_verification', token: 'wrong', challenge: 'c' });
+
+    expect(gas.doPost({ postData: { contents }, parameter: {} }).getContent()).toBe('Unauthorized');
+    expect(services.properties.getProperty('REJECTED_REQUEST_COUNT')).toBe('1');
+  });
+
+  it('accepts requests relayed with a valid signature', () => {
+    services.properties.setProperty('SLACK_SIGNING_SECRET', SECRET);
+    services.properties.setProperty('SLACK_REQUIRE_SIGNATURE', 'true');
+    const contents = JSON.stringify({ type: 'url_verification', challenge: 'c' });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
+    const output = gas.doPost({
+      postData: { contents },
+      parameter: { slack_signature: sign(timestamp, contents), slack_request_timestamp: timestamp }
+    });
+
+    expect(output.getContent()).toBe('c');
+  });
+});
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { gas, loadGasProject } from './helpers/gas';
+import { FakeServices, installFakeServices } from './helpers/fakes';
+
+loadGasProject();
+
+let services: FakeServices;
+
+beforeEach(() => {
+  services = installFakeServices();
+});
+
+afterEach(() => {
+  gas.setServices_(null);
+});
+
+describe('callSlackApi_', () => {
+  it('sends read methods as GET query parameters without a JSON content type', () => {
+    services.http.onSlack('files.info', { file: { id: 'F0AUDIO' } });
+
+    expect(gas.slackGetFile_('F0AUDIO', true).id).toBe('F0AUDIO');
+
+    const [request] = services.http.requests;
+    expect(request.method).toBe('get');
+    expect(request.url).toBe('https://slack.com/api/files.info?file=F0AUDIO&get_transcript=true');
+    expect(request.headers.Authorization).toBe('Bearer xoxb-test');
+  });
+
+  it('uses the user token for methods that act as the user', () => {
+    gas.slackPostMessage_({ channel: 'C0TEST', text: 'hello' });
+    gas.slackDeleteFile_('F0AUDIO');
+
+    expect(services.http.requests.map(request => request.headers.Authorization)).toEqual([
+      'Bearer xoxp-test',
+      'Bearer xoxp-test'
+    ]);
+    expect(services.http.requests.every(request => request.method === 'post')).toBe(true);
+  });
+
+  it('waits for Retry-After on HTTP 429 and then succeeds', () => {
+    let calls = 0;
+    services.http.onUrl('https://slack.com/api/files.info', () =>
+      ++calls === 1
+        ? { status: 429, body: '', headers: { 'Retry-After': '3' } }
+        : { body: { ok: true, file: { id: 'F0AUDIO' } } }
+    );
+
+    expect(gas.slackGetFile_('F0AUDIO').id).toBe('F0AUDIO');
+    expect(services.clock.sleeps).toEqual([3000]);
+  });
+
+  it('retries server errors with exponential backoff and gives up after the limit', () => {
+    services.http.onUrl('https://slack.com/api/chat.update', () => ({ status: 503, body: '' }));
+
+    expect(() => gas.slackUpdateMessage_({ channel: 'C0TEST', ts: '1', text: 'x' })).toThrow(/503/);
+    expect(services.clock.sleeps).toEqual([1000, 2000, 4000]);
+    expect(services.http.slackCalls('chat.update')).toHaveLength(4);
+  });
+
+  it('throws a typed error when Slack answers ok:false', () => {
+    services.http.onSlack('files.delete', { ok: false, error: 'cant_delete_file' });
+
+    let error: any;
+    try {
+      gas.slackDeleteFile_('F0AUDIO');
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error.name).toBe('SlackApiError');
+    expect(error.code).toBe('cant_delete_file');
+    expect(services.clock.sleeps).toEqual([]);
+  });
+});
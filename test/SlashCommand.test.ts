@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { gas, loadGasProject } from './helpers/gas';
+import { FakeServices, installFakeServices } from './helpers/fakes';
+
+loadGasProject();
+
+const CHANNEL = 'C0TEST';
+const RESPONSE_URL = 'https://hooks.slack.com/commands/T0TEST/1/abc';
+
+let services: FakeServices;
+
+function audioFile(id: string, content: string, channels: string[] = [CHANNEL]): any {
+  return {
+    id,
+    name: `${id}.m4a`,
+    filetype: 'm4a',
+    mimetype: 'audio/mp4',
+    user: 'U0AUTHOR',
+    channels,
+    transcription: { status: 'complete', preview: { content, has_more: false } }
+  };
+}
+
+function runCommand(text: string, command = '/transcribe'): string {
+  const fields = {
+    command,
+    text,
+    team_id: 'T0TEST',
+    channel_id: CHANNEL,
+    channel_name: 'times-test',
+    user_id: 'U0AUTHOR',
+    response_url: RESPONSE_URL
+  };
+  const contents = new URLSearchParams(fields).toString();
+  return gas
+    .doPost({ postData: { contents, type: 'application/x-www-form-urlencoded' }, parameter: fields })
+    .getContent();
+}
+
+function responses(): any[] {
+  return services.http.requests.filter(request => request.url === RESPONSE_URL).map(request => request.params);
+}
+
+function runDispatcher(): void {
+  vi.setSystemTime(Date.now() + 11000);
+  gas.dispatchTranscriptionJobs();
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  services = installFakeServices();
+  services.http.onUrl(RESPONSE_URL, () => ({ body: 'ok' }));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  gas.setServices_(null);
+});
+
+describe('/transcribe', () => {
+  it('transcribes the most recent voice memo in the channel and responds via response_url', () => {
+    const memo = audioFile('F0OLD', '導入前のメモ');
+    services.http.onSlack('conversations.history', {
+      messages: [
+        { ts: '1700000002.000100', text: 'テキストのみ' },
+        { ts: '1700000001.000100', files: [memo] }
+      ]
+    });
+    services.http.onSlack('files.info', { file: memo });
+
+    expect(runCommand('')).toContain('文字起こしを開始しました');
+    expect(responses()).toHaveLength(0);
+
+    runDispatcher();
+
+    const [response] = responses();
+    expect(response.response_type).toBe('in_channel');
+    expect(response.text).toBe('導入前のメモ');
+    expect(services.http.slackCalls('chat.postMessage')).toHaveLength(0);
+    expect(services.http.slackCalls('files.delete')).toHaveLength(0);
+  });
+
+  it('resolves a message permalink inside a thread', () => {
+    const memo = audioFile('F0THREAD', 'スレッド内のメモ');
+    services.http.onSlack('conversations.replies', { messages: [{ ts: '1700000005.000200', files: [memo] }] });
+    services.http.onSlack('files.info', { file: memo });
+
+    runCommand('<https://example.slack.com/archives/C0TEST/p1700000005000200?thread_ts=1700000000.000100&cid=C0TEST>');
+    runDispatcher();
+
+    const [request] = services.http.slackCalls('conversations.replies');
+    expect(request.params).toMatchObject({ channel: 'C0TEST', ts: '1700000000.000100', latest: '1700000005.000200' });
+    expect(responses()[0].text).toBe('スレッド内のメモ');
+  });
+
+  it('accepts a file link', () => {
+    services.http.onSlack('files.info', { file: audioFile('F0LINKED', 'リンクのメモ') });
+
+    runCommand('https://example.slack.com/files/U0AUTHOR/F0LINKED/memo.m4a');
+    runDispatcher();
+
+    expect(responses()[0].text).toBe('リンクのメモ');
+  });
+
+  it('refuses voice memos from other channels', () => {
+    services.http.onSlack('files.info', { file: audioFile('F0SECRET', '別チャンネルのメモ', ['C0SECRET']) });
+
+    expect(runCommand('https://example.slack.com/archives/C0SECRET/p1700000005000200'))
+      .toBe('このチャンネルに投稿されたボイスメモのみ文字起こしできます。');
+    expect(services.http.slackCalls('conversations.history')).toHaveLength(0);
+    expect(runCommand('https://example.slack.com/files/U0AUTHOR/F0SECRET/memo.m4a'))
+      .toBe('このチャンネルに投稿されたボイスメモのみ文字起こしできます。');
+
+    runDispatcher();
+    expect(responses()).toHaveLength(0);
+    expect(services.http.slackCalls('files.info')).toHaveLength(1);
+  });
+
+  it('shows usage for an argument it cannot interpret', () => {
+    expect(runCommand('hello')).toContain('使い方');
+    expect(services.triggers.getHandlerFunctions()).toEqual([]);
+  });
+
+  it('refuses channels excluded by the channel policy', () => {
+    gas.setChannelPolicy_({ deny: ['times-*'] });
+
+    expect(runCommand('')).toBe('このチャンネルでは文字起こしを利用できません。');
+    expect(services.http.slackCalls('conversations.history')).toHaveLength(0);
+  });
+});
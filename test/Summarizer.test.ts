@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { gas, loadGasProject } from './helpers/gas';
+import { FakeServices, installFakeServices, postFileShareEvent } from './helpers/fakes';
+
+loadGasProject();
+
+const LONG_TRANSCRIPT = '来週の定例の準備について話します。'.repeat(60);
+
+let services: FakeServices;
+let content: string;
+let completion: any;
+
+function shareMemo(): void {
+  services.http.onSlack('files.info', () => ({
+    file: {
+      id: 'F0AUDIO',
+      name: 'memo.m4a',
+      filetype: 'm4a',
+      mimetype: 'audio/mp4',
+      user: 'U0AUTHOR',
+      transcription: { status: 'complete', preview: { content, has_more: false } }
+    }
+  }));
+  postFileShareEvent();
+}
+
+function completionRequests(): any[] {
+  return services.http.requests.filter(request => request.url === 'http://localhost:11434/v1/chat/completions');
+}
+
+beforeEach(() => {
+  services = installFakeServices();
+  gas.setPostProcessingSteps_([]);
+  gas.setupSummarizer_('http://localhost:11434/v1/', undefined, 'llama3', 500);
+  content = LONG_TRANSCRIPT;
+  completion = {
+    choices: [{
+      message: {
+        content: '```json\n{"summary": "来週の定例の準備。", "actionItems": ["資料を作る", "会議室を予約する"]}\n```'
+      }
+    }]
+  };
+  services.http.onUrl('http://localhost:11434/v1/chat/completions', () => ({ body: completion }));
+});
+
+afterEach(() => {
+  gas.setServices_(null);
+});
+
+describe('summarizer', () => {
+  it('posts the summary and action items and replies with the full transcript in the thread', () => {
+    shareMemo();
+
+    const [request] = completionRequests();
+    expect(request.params.model).toBe('llama3');
+    expect(request.params.messages[1].content).toBe(LONG_TRANSCRIPT);
+    expect(request.headers.Authorization).toBeUndefined();
+
+    const [summary, full] = services.http.slackCalls('chat.postMessage').map(call => call.params);
+    expect(summary.thread_ts).toBeUndefined();
+    expect(summary.text).toBe('来週の定例の準備。\n\n• 資料を作る\n• 会議室を予約する');
+    expect(JSON.stringify(summary.blocks)).toContain('アクションアイテム');
+    expect(full.thread_ts).toBe('2000000000.000100');
+    expect(full.text).toBe(LONG_TRANSCRIPT);
+  });
+
+  it('skips short memos', () => {
+    content = '短いメモです。';
+    shareMemo();
+
+    expect(completionRequests()).toHaveLength(0);
+    expect(services.http.slackCalls('chat.postMessage').map(call => call.params.text)).toEqual(['短いメモです。']);
+  });
+
+  it('falls back to the full transcript when the model reply cannot be parsed', () => {
+    completion = { choices: [{ message: { content: '要約できませんでした' } }] };
+    shareMemo();
+
+    expect(completionRequests()).toHaveLength(1);
+    expect(services.http.slackCalls('chat.postMessage').map(call => call.params.text)).toEqual([LONG_TRANSCRIPT]);
+  });
+});
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { gas, loadGasProject } from './helpers/gas';
+import { FakeServices, installFakeServices, postFileShareEvent } from './helpers/fakes';
+
+loadGasProject();
+
+describe('post-processing steps', () => {
+  it('removes fillers without touching demonstratives', () => {
+    expect(gas.removeFillers_('えー あのー 今日の会議ですが、えっと、あの資料を見てください'))
+      .toBe('今日の会議ですが、あの資料を見てください');
+    expect(gas.removeFillers_('うーん まあ そのー 大丈夫です')).toBe('大丈夫です');
+  });
+
+  it('normalizes full-width alphanumerics and half-width katakana', () => {
+    expect(gas.normalizeWidth_('ＡＰＩは１２３件　ｶﾞｲﾄﾞを見て（確認）')).toBe('APIは123件 ガイドを見て（確認）');
+  });
+
+  it('adds punctuation at spaces between Japanese words and at sentence endings', () => {
+    expect(gas.normalizePunctuation_('明日は晴れです 会議は 午後からにします')).toBe('明日は晴れです。会議は、午後からにします。');
+    expect(gas.normalizePunctuation_('価格は,安い.と思う')).toBe('価格は、安い。と思う');
+    expect(gas.normalizePunctuation_('Slack API を使います')).toBe('Slack API を使います。');
+  });
+
+  it('splits sentences onto separate lines', () => {
+    expect(gas.splitSentences_('確認しました。明日送ります！よろしく')).toBe('確認しました。\n明日送ります！\nよろしく');
+  });
+
+  it('applies glossary rows in order and skips invalid patterns', () => {
+    const glossary = gas.parseGlossary_([['すらっく', 'Slack'], ['(', '壊れた行'], ['', ''], ['ぼいすめも', 'ボイスメモ']]);
+
+    expect(glossary).toHaveLength(2);
+    expect(gas.applyGlossary_('すらっくのぼいすめも', glossary)).toBe('Slackのボイスメモ');
+  });
+
+  it('runs only the selected steps in a fixed order', () => {
+    const text = 'えー ＡＰＩを使います 次に進みます';
+
+    expect(gas.postProcessTranscript_(text, ['fillers', 'width', 'punctuation', 'sentences'], []))
+      .toBe('APIを使います。\n次に進みます。');
+    expect(gas.postProcessTranscript_(text, ['width'], [])).toBe('えー APIを使います 次に進みます');
+  });
+});
+
+describe('post-processing in the pipeline', () => {
+  let services: FakeServices;
+
+  function shareMemo(content: string): string {
+    services.http.onSlack('files.info', () => ({
+      file: {
+        id: 'F0AUDIO',
+        name: 'memo.m4a',
+        filetype: 'm4a',
+        mimetype: 'audio/mp4',
+        user: 'U0AUTHOR',
+        transcription: { status: 'complete', preview: { content, has_more: false } }
+      }
+    }));
+    postFileShareEvent();
+    return services.http.slackCalls('chat.postMessage')[0].params.text;
+  }
+
+  beforeEach(() => {
+    services = installFakeServices();
+    services.glossary.rows = [['すらっく', 'Slack']];
+  });
+
+  afterEach(() => {
+    gas.setServices_(null);
+  });
+
+  it('cleans up the transcript with the glossary sheet before posting', () => {
+    expect(shareMemo('えー すらっくに投稿します')).toContain('Slackに投稿します。');
+  });
+
+  it('honours the configured steps', () => {
+    gas.setPostProcessingSteps_(['glossary']);
+
+    expect(shareMemo('えー すらっくに投稿します')).toContain('えー Slackに投稿します');
+    expect(() => gas.setPostProcessingSteps_(['unknown'])).toThrow('不明な後処理のステップです: unknown');
+  });
+
+  it('treats a transcript of only fillers as empty and keeps the original file', () => {
+    expect(shareMemo('えー あのー')).toContain('文字起こしできる内容がありませんでした。');
+    expect(services.http.slackCalls('files.delete')).toHaveLength(0);
+  });
+});
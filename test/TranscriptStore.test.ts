@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { gas, loadGasProject } from './helpers/gas';
+import { FakeServices, installFakeServices, postFileShareEvent } from './helpers/fakes';
+
+loadGasProject();
+
+let services: FakeServices;
+let eventTs = 1700000000;
+
+function shareMemo(channel: string, user: string, content: string): void {
+  const fileId = `F0AUDIO${eventTs}`;
+  services.http.onSlack('files.info', () => ({
+    file: {
+      id: fileId,
+      name: 'memo.m4a',
+      filetype: 'm4a',
+      mimetype: 'audio/mp4',
+      user,
+      duration_ms: 42000,
+      transcription: { status: 'complete', preview: { content, has_more: false } }
+    }
+  }));
+  postFileShareEvent({ files: [{ id: fileId }], channel, user, ts: `${eventTs++}.000100` });
+}
+
+function search(text: string, channel = 'C0OTHER', user = 'U0SEARCHER'): string {
+  return gas.handleSlashCommand_({
+    command: '/transcribe',
+    text: `search ${text}`,
+    channel_id: channel,
+    user_id: user,
+    response_url: 'https://hooks.slack.com/commands/T0TEST/1/abc'
+  });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-10-01T00:00:00Z'));
+  services = installFakeServices();
+  gas.setPostProcessingSteps_([]);
+  services.http.onSlack('conversations.info', (request: any) => ({
+    channel: { id: request.params.channel, name: request.params.channel.toLowerCase(), is_private: request.params.channel === 'C0SECRET' }
+  }));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  gas.setServices_(null);
+});
+
+describe('transcript store', () => {
+  it('stores the full text and metadata of every completed transcription', () => {
+    shareMemo('C0TEST', 'U0AUTHOR', '明日のリリース手順を確認します');
+
+    expect(services.transcriptStore.entries).toEqual([{
+      createdAt: '2026-10-01T00:00:00.000Z',
+      fileId: 'F0AUDIO1700000000',
+      userId: 'U0AUTHOR',
+      channelId: 'C0TEST',
+      messageTs: '1700000000.000100',
+      postedTs: '2000000000.000100',
+      threadTs: '',
+      durationMs: 42000,
+      provider: 'slack',
+      text: '明日のリリース手順を確認します'
+    }]);
+  });
+
+  it('returns matching snippets with permalinks filtered by user, channel and date', () => {
+    shareMemo('C0TEST', 'U0AUTHOR', '古いリリースの振り返りです');
+    vi.setSystemTime(new Date('2026-10-10T00:00:00Z'));
+    shareMemo('C0TEST', 'U0AUTHOR', '新しいリリースのRelease計画を共有します');
+    shareMemo('C0DEV', 'U0OTHER', 'リリース当日の担当者を決めます');
+
+    const all = search('リリース');
+    expect(all).toContain('3件の文字起こし結果が見つかりました');
+    expect(all.indexOf('担当者')).toBeLessThan(all.indexOf('振り返り'));
+
+    const filtered = search('release from:<@U0AUTHOR|author> in:<#C0TEST|test> after:2026-10-05');
+    expect(filtered).toBe(
+      ':mag: 1件の文字起こし結果が見つかりました\n' +
+      '• <https://slack.com/archives/C0TEST/p2000000000000100|2026-10-10> <@U0AUTHOR> <#C0TEST>\n' +
+      '> 新しいリリースのRelease計画を共有します'
+    );
+    expect(search('予算')).toBe('一致する文字起こし結果は見つかりませんでした。');
+    expect(search('after:yesterday')).toContain('使い方');
+  });
+
+  it('hides transcripts from private channels unless they are the searcher\'s own or from the current channel', () => {
+    shareMemo('C0SECRET', 'U0AUTHOR', '人事の相談です');
+
+    expect(search('人事')).toBe('一致する文字起こし結果は見つかりませんでした。');
+    expect(search('人事', 'C0SECRET')).toContain('1件');
+    expect(search('人事', 'C0OTHER', 'U0AUTHOR')).toContain('1件');
+  });
+
+  it('treats direct messages and channels that cannot be looked up as private', () => {
+    services.http.onSlack('conversations.info', (request: any) =>
+      request.params.channel === 'C0TEST'
+        ? { channel: { id: 'C0TEST', name: 'test', is_private: false } }
+        : { ok: false, error: 'channel_not_found' });
+    shareMemo('D0DIRECT', 'U0AUTHOR', '採用の相談です');
+    shareMemo('G0GROUP', 'U0AUTHOR', '採用の面談です');
+    shareMemo('C0LEFT', 'U0AUTHOR', '採用の予算です');
+    shareMemo('C0TEST', 'U0AUTHOR', '採用の日程です');
+
+    const results = search('採用');
+    expect(results).toContain('1件');
+    expect(results).toContain('日程');
+    expect(search('採用', 'C0OTHER', 'U0AUTHOR')).toContain('4件');
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { gas, loadGasProject } from './helpers/gas';
+import { FakeServices, installFakeServices } from './helpers/fakes';
+
+loadGasProject();
+
+const WHISPER_URL = 'http://localhost:8000/v1/audio/transcriptions';
+
+let services: FakeServices;
+let whisperResponse: { status?: number; body: any };
+
+function audioFile(overrides: { [key: string]: any } = {}): any {
+  return {
+    id: 'F0AUDIO',
+    name: 'memo.m4a',
+    filetype: 'm4a',
+    mimetype: 'audio/mp4',
+    size: 1024,
+    url_private_download: 'https://files.slack.com/F0AUDIO/download',
+    ...overrides
+  };
+}
+
+function whisperRequests(): any[] {
+  return services.http.requests.filter(request => request.url === WHISPER_URL);
+}
+
+beforeEach(() => {
+  services = installFakeServices();
+  services.http.onUrl('https://files.slack.com/', () => ({ body: 'audio-bytes' }));
+  whisperResponse = { body: { text: 'Whisperの結果' } };
+  services.http.onUrl(WHISPER_URL, () => whisperResponse);
+  gas.setupWhisperProvider_('http://localhost:8000/v1/', 'sk-whisper', 'large-v3', 'ja');
+});
+
+afterEach(() => {
+  gas.setServices_(null);
+});
+
+describe('whisper provider', () => {
+  it('uploads the downloaded audio as multipart form data', () => {
+    const provider = gas.createWhisperTranscriptionProvider_(gas.getWhisperConfig_());
+
+    expect(provider.transcribe(audioFile(), { language: 'en' })).toEqual({ status: 'complete', text: 'Whisperの結果', provider: 'whisper' });
+
+    const download = services.http.requests.find(request => request.url.startsWith('https://files.slack.com/')) as any;
+    expect(download.headers.Authorization).toBe('Bearer xoxb-test');
+    const [request] = whisperRequests();
+    expect(request.method).toBe('post');
+    expect(request.headers.Authorization).toBe('Bearer sk-whisper');
+    expect(request.params).toMatchObject({ model: 'large-v3', response_format: 'json', language: 'en' });
+    expect(request.params.file.getName()).toBe('memo.m4a');
+    expect(request.params.file.getDataAsString()).toBe('audio-bytes');
+
+    provider.transcribe(audioFile({ name: undefined }), {});
+    const fallbackRequest = whisperRequests()[1];
+    expect(fallbackRequest.params.language).toBe('ja');
+    expect(fallbackRequest.params.file.getName()).toBe('F0AUDIO.m4a');
+  });
+
+  it('rejects files over the size limit without downloading them', () => {
+    const provider = gas.createWhisperTranscriptionProvider_(gas.getWhisperConfig_());
+
+    const result = provider.transcribe(audioFile({ size: 25 * 1024 * 1024 + 1 }), {});
+
+    expect(result).toMatchObject({ status: 'failed', provider: 'whisper', error: 'ファイルサイズが上限を超えています: 26214401' });
+    expect(services.http.requests).toHaveLength(0);
+  });
+
+  it('fails on a non-200 response or a missing download URL', () => {
+    const provider = gas.createWhisperTranscriptionProvider_(gas.getWhisperConfig_());
+    whisperResponse = { status: 500, body: { error: 'model not loaded' } };
+
+    expect(provider.transcribe(audioFile(), {})).toMatchObject({ status: 'failed', error: 'ステータスコード 500' });
+    expect(provider.transcribe(audioFile({ url_private_download: undefined }), {})).toMatchObject({
+      status: 'failed',
+      error: 'ダウンロードURLがありません'
+    });
+    expect(whisperRequests()).toHaveLength(1);
+  });
+});
+
+describe('provider fallback', () => {
+  it('falls back from Slack to Whisper only when Slack has no transcript', () => {
+    gas.setTranscriptionProviders_(['slack', 'unknown', 'whisper']);
+
+    const fromWhisper = gas.transcribeWithFallback_(audioFile({ transcription: { status: 'failed' } }));
+    expect(fromWhisper).toMatchObject({ status: 'complete', text: 'Whisperの結果', provider: 'whisper' });
+
+    const complete = { status: 'complete', locale: 'ja-JP', preview: { content: 'Slackの結果', has_more: false } };
+    expect(gas.transcribeWithFallback_(audioFile({ transcription: complete }))).toMatchObject({ text: 'Slackの結果', provider: 'slack' });
+    expect(whisperRequests()).toHaveLength(1);
+  });
+
+  it('returns the first provider result when every provider fails', () => {
+    gas.setTranscriptionProviders_(['slack', 'whisper'], 'T0TEST');
+    whisperResponse = { status: 401, body: { error: 'invalid_api_key' } };
+
+    expect(gas.transcribeWithFallback_(audioFile({ transcription: { status: 'processing' } }))).toMatchObject({ provider: 'slack' });
+    expect(whisperRequests()).toHaveLength(0);
+
+    const result = gas.transcribeWithFallback_(audioFile({ transcription: { status: 'processing' } }), 'T0TEST');
+    expect(result).toEqual({ status: 'processing', text: '', provider: 'slack' });
+    expect(whisperRequests()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { gas, loadGasProject } from './helpers/gas';
+import { FakeServices, installFakeServices, postFileShareEvent } from './helpers/fakes';
+
+loadGasProject();
+
+let services: FakeServices;
+let locale: string | undefined;
+let eventTs = 1700000000;
+
+function shareMemo(): any {
+  const fileId = `F0AUDIO${eventTs}`;
+  services.http.onSlack('files.info', () => ({
+    file: {
+      id: fileId,
+      name: 'memo.m4a',
+      filetype: 'm4a',
+      mimetype: 'audio/mp4',
+      user: 'U0AUTHOR',
+      transcription: { status: 'complete', locale, preview: { content: '明日の会議は十時からです。', has_more: false } }
+    }
+  }));
+  postFileShareEvent({ files: [{ id: fileId }], ts: `${eventTs++}.000100` });
+  const calls = services.http.slackCalls('chat.postMessage');
+  return calls[calls.length - 1].params;
+}
+
+beforeEach(() => {
+  services = installFakeServices();
+  gas.setPostProcessingSteps_([]);
+  gas.setChannelPolicy_({ overrides: { C0TEST: { translateTo: 'en' } } });
+  locale = 'ja-JP';
+});
+
+afterEach(() => {
+  gas.setServices_(null);
+});
+
+describe('translation', () => {
+  it('appends a translation block using the language from the Slack transcription metadata', () => {
+    const message = shareMemo();
+
+    expect(services.translator.calls).toEqual([
+      { text: '明日の会議は十時からです。', sourceLanguage: 'ja', targetLanguage: 'en' }
+    ]);
+    const blocks = JSON.stringify(message.blocks);
+    expect(blocks).toContain('翻訳（en）');
+    expect(blocks).toContain('[en] 明日の会議は十時からです。');
+    expect(message.text).toBe('明日の会議は十時からです。\n\n[en] [en] 明日の会議は十時からです。');
+  });
+
+  it('skips the translation when the memo is already in the target language or the user turned it off', () => {
+    locale = 'en-US';
+    expect(JSON.stringify(shareMemo().blocks)).not.toContain('翻訳');
+
+    locale = undefined;
+    gas.handleSettingsCommand_('U0AUTHOR', 'translate off');
+    expect(JSON.stringify(shareMemo().blocks)).not.toContain('翻訳');
+    expect(services.translator.calls).toHaveLength(0);
+  });
+
+  it('uses an OpenAI-compatible endpoint when the llm provider is configured', () => {
+    gas.setupTranslationProvider_('llm', 'http://localhost:11434/v1', undefined, 'llama3');
+    services.http.onUrl('http://localhost:11434/v1/chat/completions', () => ({
+      body: { choices: [{ message: { content: 'The meeting tomorrow starts at ten.' } }] }
+    }));
+    gas.handleSettingsCommand_('U0AUTHOR', 'translate de');
+
+    const message = shareMemo();
+
+    const request = services.http.requests.find(entry => entry.url.endsWith('/chat/completions')) as any;
+    expect(request.params.messages[0].content).toContain('from ja into de');
+    expect(JSON.stringify(message.blocks)).toContain('The meeting tomorrow starts at ten.');
+    expect(services.translator.calls).toHaveLength(0);
+  });
+});
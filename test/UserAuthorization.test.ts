@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { gas, loadGasProject } from './helpers/gas';
+import { FakeServices, installFakeServices, postFileShareEvent } from './helpers/fakes';
+
+loadGasProject();
+
+const CHANNEL = 'C0TEST';
+const MEMBER = 'U0MEMBER';
+const REDIRECT_URI = 'https://script.google.com/macros/s/abc/exec';
+
+let services: FakeServices;
+let eventTs = 1700000000;
+
+function shareMemo(userId: string): void {
+  const ts = `${eventTs++}.000100`;
+  const fileId = `F0${ts.replace('.', '')}`;
+  services.http.onSlack('files.info', {
+    file: {
+      id: fileId,
+      name: 'memo.m4a',
+      filetype: 'm4a',
+      mimetype: 'audio/mp4',
+      user: userId,
+      transcription: { status: 'complete', preview: { content: '本人として投稿するテスト', has_more: false } }
+    }
+  });
+  postFileShareEvent({ files: [{ id: fileId }], channel: CHANNEL, user: userId, ts });
+}
+
+function runSettings(text: string, userId: string = MEMBER): string {
+  const fields = {
+    command: '/transcribe',
+    text,
+    channel_id: CHANNEL,
+    user_id: userId,
+    response_url: 'https://hooks.slack.com/commands/T0TEST/1/abc'
+  };
+  return gas
+    .doPost({ postData: { contents: new URLSearchParams(fields).toString() }, parameter: fields })
+    .getContent();
+}
+
+function authorize(userId: string, authedUserId: string = userId): string {
+  const link = runSettings('settings authorize', userId);
+  const state = decodeURIComponent((link.match(/state=([^&|>]+)/) as RegExpMatchArray)[1]);
+  services.http.onSlack('oauth.v2.access', {
+    team: { id: 'T0TEST' },
+    authed_user: { id: authedUserId, scope: 'chat:write,files:write', access_token: `xoxp-${authedUserId}` }
+  });
+  return gas.doGet({ parameter: { code: 'auth-code', state } }).getContent();
+}
+
+beforeEach(() => {
+  services = installFakeServices();
+  gas.setupOAuth_('123.456', 'client-secret-0123', REDIRECT_URI);
+});
+
+afterEach(() => {
+  gas.setServices_(null);
+});
+
+describe('per-user authorization', () => {
+  it('exchanges the code for a user token bound to the user who requested the link', () => {
+    expect(runSettings('settings')).toContain('投稿者: アプリが代理で投稿');
+    const link = runSettings('settings authorize');
+    expect(link).toContain('https://slack.com/oauth/v2/authorize?client_id=123.456&user_scope=chat%3Awrite%2Cfiles%3Awrite');
+
+    expect(authorize(MEMBER, 'U0SOMEONE')).toContain('同じアカウントで認証してください');
+    expect(authorize(MEMBER)).toContain('認証が完了しました');
+    const exchange = services.http.slackCalls('oauth.v2.access').pop() as any;
+    expect(exchange.params).toMatchObject({ client_id: '123.456', client_secret: 'client-secret-0123', code: 'auth-code', redirect_uri: REDIRECT_URI });
+    expect(exchange.headers.Authorization).toBeUndefined();
+    expect(runSettings('settings')).toContain('投稿者: あなたとして投稿');
+
+    // stateは1回だけ使用できる
+    const state = decodeURIComponent((link.match(/state=([^&|>]+)/) as RegExpMatchArray)[1]);
+    expect(gas.doGet({ parameter: { code: 'auth-code', state } }).getContent()).toContain('認証が完了しました');
+    expect(gas.doGet({ parameter: { code: 'auth-code', state } }).getContent()).toContain('有効期限が切れました');
+  });
+
+  it('posts the transcript and deletes the file with the author token', () => {
+    authorize(MEMBER);
+    shareMemo(MEMBER);
+
+    const post = services.http.slackCalls('chat.postMessage').pop() as any;
+    expect(post.headers.Authorization).toBe(`Bearer xoxp-${MEMBER}`);
+    expect(JSON.stringify(post.params.blocks)).not.toContain('代理で投稿');
+    expect(post.params.as_user).toBeUndefined();
+    const deletion = services.http.slackCalls('files.delete').pop() as any;
+    expect(deletion.headers.Authorization).toBe(`Bearer xoxp-${MEMBER}`);
+  });
+
+  it('falls back to bot posting with attribution and revokes tokens on request', () => {
+    services.http.onSlack('auth.revoke', { revoked: true });
+    authorize(MEMBER);
+    expect(runSettings('settings authorize off')).toContain('認証を取り消しました');
+    expect((services.http.slackCalls('auth.revoke').pop() as any).headers.Authorization).toBe(`Bearer xoxp-${MEMBER}`);
+
+    shareMemo(MEMBER);
+
+    const post = services.http.slackCalls('chat.postMessage').pop() as any;
+    expect(post.headers.Authorization).toBe('Bearer xoxb-test');
+    const attribution = post.params.blocks[post.params.blocks.length - 1];
+    expect(attribution.type).toBe('context');
+    expect(attribution.elements[0].text).toContain(`<@${MEMBER}> さんのボイスメモ（アプリが代理で投稿しました`);
+    const deletion = services.http.slackCalls('files.delete').pop() as any;
+    expect(deletion.headers.Authorization).toBe('Bearer xoxp-test');
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { gas, loadGasProject } from './helpers/gas';
+import { FakeServices, installFakeServices, postFileShareEvent } from './helpers/fakes';
+
+loadGasProject();
+
+const CHANNEL = 'C0TEST';
+const MESSAGE_TS = '1700000000.000100';
+const AUTHOR = 'U0AUTHOR';
+
+let services: FakeServices;
+
+const memo = {
+  id: 'F0AUDIO',
+  name: 'memo.m4a',
+  filetype: 'm4a',
+  mimetype: 'audio/mp4',
+  user: AUTHOR,
+  transcription: { status: 'complete', preview: { content: '個人設定のテスト', has_more: false } }
+};
+
+function postEvent(): string {
+  return postFileShareEvent({ files: [memo], channel: CHANNEL, user: AUTHOR, ts: MESSAGE_TS, event: { team: 'T0TEST' } });
+}
+
+function runSettings(text: string): string {
+  const fields = {
+    command: '/transcribe',
+    text,
+    channel_id: CHANNEL,
+    user_id: AUTHOR,
+    response_url: 'https://hooks.slack.com/commands/T0TEST/1/abc'
+  };
+  return gas
+    .doPost({ postData: { contents: new URLSearchParams(fields).toString() }, parameter: fields })
+    .getContent();
+}
+
+beforeEach(() => {
+  services = installFakeServices();
+  services.http.onSlack('files.info', { file: memo });
+});
+
+afterEach(() => {
+  gas.setServices_(null);
+});
+
+describe('/transcribe settings', () => {
+  it('shows the defaults and updates individual preferences', () => {
+    expect(runSettings('settings')).toContain('自動文字起こし: オン');
+
+    expect(runSettings('settings post thread')).toContain('投稿方法: thread');
+    expect(runSettings('settings delete off')).toContain('元ファイルの削除: オフ');
+    expect(gas.getUserPreferences_(AUTHOR)).toEqual({ postingStrategy: 'thread', deleteOriginal: false });
+
+    runSettings('settings post default');
+    expect(gas.getUserPreferences_(AUTHOR)).toEqual({ deleteOriginal: false });
+  });
+
+  it('rejects values it does not understand', () => {
+    expect(runSettings('settings auto maybe')).toContain('設定を変更できませんでした');
+    expect(gas.getUserPreferences_(AUTHOR)).toEqual({});
+  });
+});
+
+describe('automatic transcription', () => {
+  it('skips memos from users who opted out', () => {
+    gas.setUserPreferences_(AUTHOR, { autoTranscribe: false });
+
+    expect(postEvent()).toBe('User opted out');
+    expect(services.http.slackCalls('files.info')).toHaveLength(0);
+  });
+
+  it('applies the author posting and deletion preferences', () => {
+    gas.setUserPreferences_(AUTHOR, { postingStrategy: 'thread', deleteOriginal: false });
+
+    postEvent();
+
+    const [message] = services.http.slackCalls('chat.postMessage').map(request => request.params);
+    expect(message.thread_ts).toBe(MESSAGE_TS);
+    expect(services.http.slackCalls('files.delete')).toHaveLength(0);
+  });
+});
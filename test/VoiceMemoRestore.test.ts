@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { gas, loadGasProject } from './helpers/gas';
+import { FakeServices, installFakeServices, postFileShareEvent } from './helpers/fakes';
+
+loadGasProject();
+
+const CHANNEL = 'C0TEST';
+const AUTHOR = 'U0AUTHOR';
+
+let services: FakeServices;
+
+function shareMemo(threadTs?: string): void {
+  postFileShareEvent({ channel: CHANNEL, user: AUTHOR, ts: '1700000000.000200', event: { thread_ts: threadTs } });
+}
+
+function restoreButton(): any {
+  const calls = services.http.slackCalls('chat.update');
+  expect(calls).toHaveLength(1);
+  return calls[0].params.blocks.find((block: any) => block.block_id === 'restore_original_audio');
+}
+
+function clickRestore(userId: string): void {
+  const update = services.http.slackCalls('chat.update')[0].params;
+  const fields = {
+    payload: JSON.stringify({
+      type: 'block_actions',
+      user: { id: userId },
+      container: { type: 'message', channel_id: update.channel, message_ts: update.ts },
+      message: { ts: update.ts, text: update.text, blocks: update.blocks },
+      response_url: 'https://hooks.slack.com/actions/T0TEST/1/abc',
+      actions: [{ action_id: 'restore_original_audio', value: restoreButton().accessory.value }]
+    })
+  };
+  gas.doPost({ postData: { contents: new URLSearchParams(fields).toString() }, parameter: fields });
+}
+
+function responses(): any[] {
+  return services.http.requests
+    .filter(request => request.url.startsWith('https://hooks.slack.com/'))
+    .map(request => request.params);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-01-01T00:30:00Z'));
+  services = installFakeServices();
+  services.http.onSlack('files.info', () => ({
+    file: {
+      id: 'F0AUDIO',
+      name: 'memo.m4a',
+      filetype: 'm4a',
+      mimetype: 'audio/mp4',
+      user: AUTHOR,
+      url_private_download: 'https://files.slack.com/F0AUDIO/download',
+      transcription: { status: 'complete', preview: { content: '復元のテスト', has_more: false } }
+    }
+  }));
+  services.http.onUrl('https://files.slack.com/', () => ({ body: 'audio-bytes' }));
+  services.http.onSlack('chat.update', {});
+  services.http.onSlack('files.getUploadURLExternal', { upload_url: 'https://files.slack.com/upload/v1/abc', file_id: 'F0RESTORED' });
+  services.http.onSlack('files.completeUploadExternal', {});
+  services.http.onUrl('https://hooks.slack.com/', () => ({ body: 'ok' }));
+  gas.setupDriveArchive_('folder-root');
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  gas.setServices_(null);
+});
+
+describe('voice memo restore', () => {
+  it('adds a restore button to the transcript after archiving and deleting', () => {
+    shareMemo();
+
+    expect(services.http.slackCalls('files.delete')).toHaveLength(1);
+    const block = restoreButton();
+    expect(block.accessory.value).toBe('F0AUDIO');
+    expect(block.accessory.text.text).toBe('元の音声を復元');
+  });
+
+  it('re-uploads the archived audio to the original thread and marks the record restored', () => {
+    shareMemo('1700000000.000100');
+    clickRestore(AUTHOR);
+
+    const [upload] = services.http.slackCalls('files.getUploadURLExternal');
+    expect(upload.params.filename).toBe('memo.m4a');
+    expect(upload.headers.Authorization).toBe('Bearer xoxp-test');
+    expect(services.http.requests.some(request => request.url === 'https://files.slack.com/upload/v1/abc')).toBe(true);
+    const [complete] = services.http.slackCalls('files.completeUploadExternal');
+    expect(complete.params).toMatchObject({ channel_id: CHANNEL, thread_ts: '1700000000.000100' });
+
+    const updated = services.http.slackCalls('chat.update')[1].params.blocks;
+    expect(JSON.stringify(updated)).toContain('元の音声を復元しました');
+    expect(updated.some((block: any) => block.accessory && block.accessory.action_id === 'restore_original_audio')).toBe(false);
+    expect(gas.findTranscriptRecord_(AUTHOR, 'F0AUDIO').restoredAt).toBeDefined();
+  });
+
+  it('refuses restores after the window or from other users', () => {
+    gas.setRestoreWindowMinutes_(10);
+    shareMemo();
+
+    clickRestore('U0OTHER');
+    expect(responses()[0].text).toBe('元の音声はボイスメモの投稿者のみ復元できます。');
+
+    vi.advanceTimersByTime(11 * 60 * 1000);
+    clickRestore(AUTHOR);
+    expect(responses()[1]).toMatchObject({ response_type: 'ephemeral', text: '元の音声を復元できる期限を過ぎました。' });
+    expect(services.http.slackCalls('files.getUploadURLExternal')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,347 @@
+// GASサービスのインメモリ実装と、スクリプト可能なSlack APIの偽物
+import { gas } from './gas';
+
+export class FakePropertyStore {
+  readonly values = new Map<string, string>();
+
+  getProperty(key: string): string | null {
+    return this.values.has(key) ? (this.values.get(key) as string) : null;
+  }
+
+  setProperty(key: string, value: string): void {
+    this.values.set(key, value);
+  }
+
+  deleteProperty(key: string): void {
+    this.values.delete(key);
+  }
+
+  getProperties(): { [key: string]: string } {
+    return Object.fromEntries(this.values);
+  }
+}
+
+export class FakeCache {
+  readonly values = new Map<string, string>();
+
+  get(key: string): string | null {
+    return this.values.has(key) ? (this.values.get(key) as string) : null;
+  }
+
+  put(key: string, value: string): void {
+    this.values.set(key, value);
+  }
+
+  remove(key: string): void {
+    this.values.delete(key);
+  }
+}
+
+export class FakeTriggerScheduler {
+  readonly triggers: { handlerFunction: string; delayMs?: number; dailyAtHour?: number }[] = [];
+
+  getHandlerFunctions(): string[] {
+    return this.triggers.map(trigger => trigger.handlerFunction);
+  }
+
+  scheduleAfter(handlerFunction: string, delayMs: number): void {
+    this.triggers.push({ handlerFunction, delayMs });
+  }
+
+  scheduleDaily(handlerFunction: string, hour: number): void {
+    this.triggers.push({ handlerFunction, dailyAtHour: hour });
+  }
+
+  deleteByHandler(handlerFunction: string): number {
+    const before = this.triggers.length;
+    const remaining = this.triggers.filter(trigger => trigger.handlerFunction !== handlerFunction);
+    this.triggers.splice(0, this.triggers.length, ...remaining);
+    return before - remaining.length;
+  }
+}
+
+export class FakeLock {
+  runExclusive<T>(fn: () => T): T {
+    return fn();
+  }
+}
+
+export class FakeClock {
+  readonly sleeps: number[] = [];
+
+  sleep(ms: number): void {
+    this.sleeps.push(ms);
+  }
+}
+
+export interface FakeArchivedFile {
+  id: string;
+  url: string;
+  rootFolderId: string;
+  path: string[];
+  name: string;
+  content: string;
+}
+
+export class FakeFileArchive {
+  readonly files: FakeArchivedFile[] = [];
+  failing = false;
+
+  saveFile(rootFolderId: string, path: string[], blob: any): { id: string; url: string } {
+    return this.save(rootFolderId, path, blob.getName(), blob.getDataAsString());
+  }
+
+  saveText(rootFolderId: string, path: string[], name: string, content: string): { id: string; url: string } {
+    return this.save(rootFolderId, path, name, content);
+  }
+
+  getFile(id: string): any {
+    const file = this.files.find(entry => entry.id === id);
+    if (!file) throw new Error(`File not found: ${id}`);
+    return createFakeBlob(file.content).setName(file.name);
+  }
+
+  private save(rootFolderId: string, path: string[], name: string, content: string): FakeArchivedFile {
+    if (this.failing) throw new Error('Drive is unavailable');
+    const id = `drive-${this.files.length + 1}`;
+    const file = { id, url: `https://drive.google.com/file/d/${id}`, rootFolderId, path, name, content };
+    this.files.push(file);
+    return file;
+  }
+}
+
+export class FakeLogSink {
+  readonly rows: string[][] = [];
+  readonly sheets: { [name: string]: string[][] } = {};
+  appendCalls = 0;
+
+  append(rows: string[][]): void {
+    this.appendCalls++;
+    this.rows.push(...rows);
+  }
+
+  getRows(): string[][] {
+    return this.rows;
+  }
+
+  deleteOldest(count: number): void {
+    this.rows.splice(0, count);
+  }
+
+  appendToSheet(name: string, rows: string[][]): void {
+    (this.sheets[name] = this.sheets[name] || []).push(...rows);
+  }
+
+  messages(level?: string): string[] {
+    return this.rows.filter(row => !level || row[1] === level).map(row => row[3]);
+  }
+}
+
+export class FakeGlossarySource {
+  rows: string[][] = [];
+
+  getRows(): string[][] {
+    return this.rows;
+  }
+}
+
+export class FakeTranslator {
+  readonly calls: { text: string; sourceLanguage: string; targetLanguage: string }[] = [];
+
+  translate(text: string, sourceLanguage: string, targetLanguage: string): string {
+    this.calls.push({ text, sourceLanguage, targetLanguage });
+    return `[${targetLanguage}] ${text}`;
+  }
+}
+
+export class FakeTranscriptStore {
+  readonly entries: any[] = [];
+
+  append(entries: any[]): void {
+    this.entries.push(...entries);
+  }
+
+  getAll(): any[] {
+    return this.entries.slice();
+  }
+}
+
+export interface FakeRequest {
+  url: string;
+  method: string;
+  params: { [key: string]: any };
+  headers: { [key: string]: string };
+}
+
+type HandlerResult = { status?: number; body: any; headers?: { [key: string]: string } };
+type Handler = (request: FakeRequest) => HandlerResult;
+
+/**
+ * UrlFetchAppの偽物
+ * Slack Web APIのメソッド名、またはURLの前方一致で応答を登録する
+ */
+export class FakeHttpClient {
+  readonly requests: FakeRequest[] = [];
+  private readonly slackHandlers = new Map<string, Handler>();
+  private readonly urlHandlers: { prefix: string; handler: Handler }[] = [];
+
+  /** Slack APIメソッドの応答を登録する（okは省略時true） */
+  onSlack(method: string, response: any | ((request: FakeRequest) => any)): this {
+    this.slackHandlers.set(method, request => {
+      const body = typeof response === 'function' ? response(request) : response;
+      return { body: { ok: true, ...body } };
+    });
+    return this;
+  }
+
+  /** URLの前方一致で応答を登録する */
+  onUrl(prefix: string, handler: Handler): this {
+    this.urlHandlers.push({ prefix, handler });
+    return this;
+  }
+
+  /** 指定したSlack APIメソッドの呼び出し */
+  slackCalls(method: string): FakeRequest[] {
+    return this.requests.filter(request => request.url.startsWith(`https://slack.com/api/${method}`));
+  }
+
+  fetch(url: string, options: { method?: string; payload?: any; headers?: { [key: string]: string } } = {}): any {
+    const [base, query] = url.split('?');
+    const params: { [key: string]: any } = Object.fromEntries(new URLSearchParams(query || ''));
+    if (typeof options.payload === 'string') {
+      Object.assign(params, JSON.parse(options.payload));
+    } else if (options.payload) {
+      Object.assign(params, options.payload);
+    }
+
+    const request: FakeRequest = { url, method: options.method || 'get', params, headers: options.headers || {} };
+    this.requests.push(request);
+
+    let result: HandlerResult;
+    const slackMethod = base.startsWith('https://slack.com/api/') ? base.substring('https://slack.com/api/'.length) : null;
+    const urlHandler = this.urlHandlers.find(entry => url.startsWith(entry.prefix));
+
+    if (slackMethod !== null && this.slackHandlers.has(slackMethod)) {
+      result = (this.slackHandlers.get(slackMethod) as Handler)(request);
+    } else if (urlHandler) {
+      result = urlHandler.handler(request);
+    } else if (slackMethod !== null) {
+      result = { body: { ok: false, error: 'unknown_method' } };
+    } else {
+      result = { status: 404, body: 'not found' };
+    }
+
+    const text = typeof result.body === 'string' ? result.body : JSON.stringify(result.body);
+    return {
+      getResponseCode: () => result.status || 200,
+      getContentText: () => text,
+      getHeaders: () => result.headers || {},
+      getBlob: () => createFakeBlob(text)
+    };
+  }
+}
+
+/**
+ * GASのBlobの偽物
+ */
+export function createFakeBlob(content: string): any {
+  let name = '';
+  return {
+    getName: () => name,
+    setName(value: string) {
+      name = value;
+      return this;
+    },
+    getDataAsString: () => content,
+    getBytes: () => Array.from(Buffer.from(content)),
+    getContentType: () => 'application/octet-stream'
+  };
+}
+
+export interface FakeServices {
+  properties: FakePropertyStore;
+  cache: FakeCache;
+  triggers: FakeTriggerScheduler;
+  http: FakeHttpClient;
+  lock: FakeLock;
+  clock: FakeClock;
+  archive: FakeFileArchive;
+  logSink: FakeLogSink;
+  glossary: FakeGlossarySource;
+  translator: FakeTranslator;
+  transcriptStore: FakeTranscriptStore;
+}
+
+/**
+ * インメモリのサービス一式を作成し、パイプラインに差し替える
+ * 認証情報は設定済みの状態にする
+ */
+export function installFakeServices(): FakeServices {
+  const services: FakeServices = {
+    properties: new FakePropertyStore(),
+    cache: new FakeCache(),
+    triggers: new FakeTriggerScheduler(),
+    http: new FakeHttpClient(),
+    lock: new FakeLock(),
+    clock: new FakeClock(),
+    archive: new FakeFileArchive(),
+    logSink: new FakeLogSink(),
+    glossary: new FakeGlossarySource(),
+    translator: new FakeTranslator(),
+    transcriptStore: new FakeTranscriptStore()
+  };
+
+  services.properties.setProperty('SLACK_BOT_TOKEN', 'xoxb-test');
+  services.properties.setProperty('SLACK_USER_TOKEN', 'xoxp-test');
+  // テストのボイスメモの投稿者をSLACK_USER_TOKENの所有者とし、投稿者として投稿する
+  services.properties.setProperty('SLACK_USER_TOKEN_OWNER', 'U0AUTHOR');
+  services.http.onSlack('chat.postMessage', { ts: '2000000000.000100' });
+  services.http.onSlack('files.delete', {});
+  services.http.onSlack('conversations.info', (request: FakeRequest) => ({
+    channel: { id: request.params.channel, name: 'times-test' }
+  }));
+
+  gas.setServices_(services);
+  return services;
+}
+
+/**
+ * Events APIのペイロード（event_callback）をdoPostに送信する
+ * @param event イベント
+ * @param envelope event_id・team_idなど、ペイロードに追加する項目
+ * @returns doPostの応答テキスト
+ */
+export function postEventCallback(event: { [key: string]: any }, envelope: { [key: string]: any } = {}): string {
+  const body = { type: 'event_callback', ...envelope, event };
+  return gas.doPost({ postData: { contents: JSON.stringify(body) }, parameter: {} }).getContent();
+}
+
+export interface FileShareEventOptions {
+  files?: { id: string; filetype?: string; mimetype?: string }[]; // 省略時はF0AUDIO（m4a）
+  channel?: string; // 省略時はC0TEST
+  user?: string; // 省略時はU0AUTHOR
+  ts?: string; // 省略時は1700000000.000100
+  event?: { [key: string]: any }; // thread_ts・teamなど、イベントに追加する項目
+  envelope?: { [key: string]: any }; // event_id・team_idなど、ペイロードに追加する項目
+}
+
+/**
+ * ボイスメモを投稿したmessage（file_share）イベントをdoPostに送信する
+ * @returns doPostの応答テキスト
+ */
+export function postFileShareEvent(options: FileShareEventOptions = {}): string {
+  const files = options.files || [{ id: 'F0AUDIO', filetype: 'm4a' }];
+  return postEventCallback(
+    {
+      type: 'message',
+      subtype: 'file_share',
+      channel: options.channel || 'C0TEST',
+      channel_type: 'channel',
+      user: options.user || 'U0AUTHOR',
+      ts: options.ts || '1700000000.000100',
+      files: files.map(file => ({ id: file.id, filetype: file.filetype || 'm4a', mimetype: file.mimetype })),
+      ...options.event
+    },
+    options.envelope
+  );
+}
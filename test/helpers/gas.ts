@@ -0,0 +1,54 @@
+// src/*.ts をGASと同じく1つのグローバルスコープに読み込み、Node上で実行できるようにする
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vm from 'vm';
+import * as ts from 'typescript';
+
+const SRC_DIR = path.resolve(__dirname, '../../src');
+
+/**
+ * GASのグローバル関数にアクセスするためのオブジェクト
+ * サービスの抽象化の外にあるContentService・HtmlService・Session・Utilitiesはここで最小限を用意する
+ */
+export const gas: any = globalThis;
+
+/**
+ * src/*.ts をトランスパイルしてグローバルスコープに読み込む（テストファイルごとに1回）
+ */
+export function loadGasProject(): void {
+  if (gas.__gasProjectLoaded) return;
+
+  gas.ContentService = {
+    createTextOutput: (content: string) => ({ getContent: () => content })
+  };
+  gas.HtmlService = {
+    createHtmlOutput: (content: string) => {
+      const output = { getContent: () => content, setTitle: () => output };
+      return output;
+    }
+  };
+  gas.Utilities = {
+    Charset: { UTF_8: 'UTF-8' },
+    DigestAlgorithm: { SHA_256: 'sha256' },
+    computeDigest: (algorithm: string, value: string) =>
+      Array.from(crypto.createHash(algorithm).update(value, 'utf8').digest()).map(b => (b > 127 ? b - 256 : b)),
+    computeHmacSha256Signature: (value: string, key: string) =>
+      Array.from(crypto.createHmac('sha256', key).update(value, 'utf8').digest()).map(b => (b > 127 ? b - 256 : b)),
+    getUuid: () => crypto.randomUUID()
+  };
+
+  const files = fs.readdirSync(SRC_DIR).filter(name => name.endsWith('.ts')).sort();
+  const code = files
+    .map(name => {
+      const source = fs.readFileSync(path.join(SRC_DIR, name), 'utf8');
+      return ts.transpileModule(source, {
+        compilerOptions: { target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.None },
+        fileName: name
+      }).outputText;
+    })
+    .join('\n');
+
+  vm.runInThisContext(code, { filename: 'gas-project.js' });
+  gas.__gasProjectLoaded = true;
+}
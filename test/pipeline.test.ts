@@ -0,0 +1,280 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { gas, loadGasProject } from './helpers/gas';
+import { FakeServices, installFakeServices, postEventCallback, postFileShareEvent } from './helpers/fakes';
+
+loadGasProject();
+
+const CHANNEL = 'C0TEST';
+const MESSAGE_TS = '1700000000.000100';
+
+let services: FakeServices;
+let slackFiles: { [id: string]: any };
+
+function audioFile(id: string, transcription?: any): any {
+  return {
+    id,
+    name: `${id}.m4a`,
+    filetype: 'm4a',
+    mimetype: 'audio/mp4',
+    user: 'U0AUTHOR',
+    duration_ms: 12000,
+    url_private_download: `https://files.slack.com/${id}/download`,
+    transcription
+  };
+}
+
+function completeTranscription(content: string, hasMore = false): any {
+  return { status: 'complete', preview: { content, has_more: hasMore } };
+}
+
+function postEvent(files: any[], extra: { [key: string]: any } = {}): string {
+  return postFileShareEvent({
+    files,
+    channel: CHANNEL,
+    ts: MESSAGE_TS,
+    event: { team: 'T0TEST', ...extra },
+    // 同じファイルの再送は同じイベントIDで届く
+    envelope: { event_id: `Ev0${files.map(file => file.id).join('')}`, team_id: 'T0TEST' }
+  });
+}
+
+function postedMessages(): any[] {
+  return services.http.slackCalls('chat.postMessage').map(request => request.params);
+}
+
+function runDispatcher(times: number): void {
+  for (let i = 0; i < times; i++) {
+    // 次回チェックの予定時刻まで進める
+    const pending = gas.listTranscriptionJobs_().filter((job: any) => job.state === 'queued' || job.state === 'polling');
+    const nextAt = pending.length > 0 ? Math.min(...pending.map((job: any) => job.nextAttemptAt)) : Date.now() + 11000;
+    vi.setSystemTime(Math.max(nextAt, Date.now()));
+    gas.dispatchTranscriptionJobs();
+  }
+}
+
+function postFileEvent(type: string, fileId: string): string {
+  return postEventCallback({ type, file_id: fileId, file: { id: fileId } }, { event_id: `Ev0${type}${Date.now()}` });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  services = installFakeServices();
+  slackFiles = {};
+  services.http.onSlack('files.info', (request: any) =>
+    slackFiles[request.params.file] ? { file: slackFiles[request.params.file] } : { ok: false, error: 'file_not_found' }
+  );
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  gas.setServices_(null);
+});
+
+describe('doPost', () => {
+  it('responds to URL verification with the challenge', () => {
+    const output = gas.doPost({
+      postData: { contents: JSON.stringify({ type: 'url_verification', challenge: 'challenge-value' }) },
+      parameter: {}
+    });
+
+    expect(output.getContent()).toBe('challenge-value');
+    expect(services.http.requests).toHaveLength(0);
+  });
+
+  it('ignores messages without audio files', () => {
+    const image = { id: 'F0IMAGE', filetype: 'png', mimetype: 'image/png' };
+
+    expect(postEvent([image])).toBe('Not an audio file');
+    expect(services.http.slackCalls('files.info')).toHaveLength(0);
+    expect(postedMessages()).toHaveLength(0);
+  });
+
+  it('processes a duplicate delivery of the same event only once', () => {
+    slackFiles.F0AUDIO = audioFile('F0AUDIO', completeTranscription('こんにちは'));
+
+    expect(postEvent([slackFiles.F0AUDIO])).toBe('Event received');
+    expect(postEvent([slackFiles.F0AUDIO])).toBe('Duplicate event (posted)');
+    expect(postedMessages()).toHaveLength(1);
+  });
+});
+
+describe('transcription statuses', () => {
+  it('posts a complete transcript and deletes the original file', () => {
+    slackFiles.F0AUDIO = audioFile('F0AUDIO', completeTranscription('今日の進捗です'));
+
+    postEvent([slackFiles.F0AUDIO]);
+
+    const [message] = postedMessages();
+    expect(message.channel).toBe(CHANNEL);
+    expect(message.text).toBe('今日の進捗です。');
+    expect(JSON.stringify(message.blocks)).toContain('完了');
+    expect(services.http.slackCalls('files.delete').map(request => request.params.file)).toEqual(['F0AUDIO']);
+  });
+
+  it('fetches the full transcript when the preview has more content', () => {
+    slackFiles.F0AUDIO = audioFile('F0AUDIO', completeTranscription('前半', true));
+    services.http.onSlack('files.info', (request: any) =>
+      request.params.get_transcript
+        ? { file: { ...slackFiles.F0AUDIO, transcription: { status: 'complete', full: { content: '前半と後半' } } } }
+        : { file: slackFiles.F0AUDIO }
+    );
+
+    postEvent([slackFiles.F0AUDIO]);
+
+    expect(postedMessages()[0].text).toBe('前半と後半');
+  });
+
+  it('marks the transcript as preview-only when the full text cannot be fetched', () => {
+    slackFiles.F0AUDIO = audioFile('F0AUDIO', completeTranscription('前半', true));
+    services.http.onSlack('files.info', (request: any) =>
+      request.params.get_transcript ? { ok: false, error: 'internal_error' } : { file: slackFiles.F0AUDIO }
+    );
+
+    postEvent([slackFiles.F0AUDIO]);
+
+    const [message] = postedMessages();
+    expect(message.text).toBe('前半 (続きがあります)');
+    expect(JSON.stringify(message.blocks)).toContain('プレビューのみ');
+  });
+
+  it('reports a failed transcription without deleting the file', () => {
+    slackFiles.F0AUDIO = audioFile('F0AUDIO', { status: 'failed' });
+
+    postEvent([slackFiles.F0AUDIO]);
+
+    expect(postedMessages()[0].text).toBe('音声の文字起こしに失敗しました。');
+    expect(services.http.slackCalls('files.delete')).toHaveLength(0);
+  });
+
+  it('queues a processing transcription and posts it once the dispatcher sees it complete', () => {
+    slackFiles.F0AUDIO = audioFile('F0AUDIO', { status: 'processing' });
+
+    postEvent([slackFiles.F0AUDIO]);
+
+    expect(postedMessages()).toHaveLength(0);
+    expect(services.triggers.getHandlerFunctions()).toEqual(['dispatchTranscriptionJobs']);
+    expect(gas.getTranscriptionJob_('F0AUDIO').state).toBe('queued');
+
+    runDispatcher(1);
+    expect(gas.getTranscriptionJob_('F0AUDIO').state).toBe('polling');
+
+    slackFiles.F0AUDIO.transcription = completeTranscription('完了しました');
+    runDispatcher(1);
+
+    expect(postedMessages().map(message => message.text)).toEqual(['完了しました。']);
+    expect(gas.getTranscriptionJob_('F0AUDIO').state).toBe('posted');
+    expect(services.triggers.getHandlerFunctions()).toEqual([]);
+  });
+
+  it('posts the latest state once the deadline passes', () => {
+    slackFiles.F0AUDIO = audioFile('F0AUDIO', { status: 'processing' });
+
+    postEvent([slackFiles.F0AUDIO]);
+    runDispatcher(3);
+    expect(postedMessages()).toHaveLength(0);
+
+    runDispatcher(1);
+    expect(postedMessages().map(message => message.text)).toEqual([
+      '音声の文字起こしは処理中です。しばらくするとSlack内でファイルのトランスクリプトが利用可能になります。'
+    ]);
+    expect(gas.getTranscriptionJob_('F0AUDIO').retryCount).toBe(4);
+    expect(services.http.slackCalls('files.delete')).toHaveLength(0);
+    expect(services.triggers.getHandlerFunctions()).toEqual([]);
+  });
+
+  it('reports files without transcription information once the deadline passes', () => {
+    slackFiles.F0AUDIO = audioFile('F0AUDIO');
+
+    postEvent([slackFiles.F0AUDIO]);
+    runDispatcher(4);
+
+    expect(postedMessages().map(message => message.text)).toEqual(['このファイルには文字起こし情報がありません。']);
+  });
+
+  it('keeps memos posted in the same minute as independent jobs', () => {
+    slackFiles.F0FIRST = audioFile('F0FIRST', { status: 'processing' });
+    slackFiles.F0SECOND = audioFile('F0SECOND', { status: 'processing' });
+
+    postEvent([slackFiles.F0FIRST]);
+    postEvent([slackFiles.F0SECOND], { ts: '1700000001.000100' });
+    slackFiles.F0FIRST.transcription = completeTranscription('一件目');
+    slackFiles.F0SECOND.transcription = completeTranscription('二件目');
+    runDispatcher(1);
+
+    expect(postedMessages().map(message => message.text).sort()).toEqual(['一件目', '二件目']);
+  });
+});
+
+describe('multi-file messages', () => {
+  it('aggregates every audio file into one reply in the original order', () => {
+    const image = { id: 'F0IMAGE', filetype: 'png', mimetype: 'image/png' };
+    slackFiles.F0FIRST = audioFile('F0FIRST', completeTranscription('一件目'));
+    slackFiles.F0SECOND = audioFile('F0SECOND', { status: 'processing' });
+
+    postEvent([image, slackFiles.F0FIRST, slackFiles.F0SECOND]);
+    expect(postedMessages()).toHaveLength(0);
+
+    slackFiles.F0SECOND.transcription = { status: 'failed' };
+    runDispatcher(1);
+
+    const messages = postedMessages();
+    expect(messages).toHaveLength(1);
+    expect(messages[0].text.indexOf('一件目')).toBeLessThan(messages[0].text.indexOf('音声の文字起こしに失敗しました。'));
+    expect(services.http.slackCalls('files.delete').map(request => request.params.file)).toEqual(['F0FIRST']);
+  });
+});
+
+describe('file events', () => {
+  it('completes a tracked job on file_change without waiting for the dispatcher', () => {
+    slackFiles.F0AUDIO = audioFile('F0AUDIO', { status: 'processing' });
+    postEvent([slackFiles.F0AUDIO]);
+
+    expect(postFileEvent('file_shared', 'F0AUDIO')).toBe('File event received');
+    expect(postFileEvent('file_change', 'F0UNKNOWN')).toBe('File event received');
+    expect(services.http.slackCalls('files.info').map(request => request.params.file)).not.toContain('F0UNKNOWN');
+
+    slackFiles.F0AUDIO.transcription = completeTranscription('イベントで完了');
+    expect(postFileEvent('file_change', 'F0AUDIO')).toBe('Transcription completed');
+
+    expect(postedMessages().map(message => message.text)).toEqual(['イベントで完了']);
+    expect(gas.getTranscriptionJob_('F0AUDIO').state).toBe('posted');
+    expect(postFileEvent('file_change', 'F0AUDIO')).toBe('File event received');
+
+    runDispatcher(1);
+    expect(postedMessages()).toHaveLength(1);
+  });
+
+  it('waits for the rest of the message when one file completes via file_change', () => {
+    slackFiles.F0FIRST = audioFile('F0FIRST', { status: 'processing' });
+    slackFiles.F0SECOND = audioFile('F0SECOND', { status: 'processing' });
+    postEvent([slackFiles.F0FIRST, slackFiles.F0SECOND]);
+
+    slackFiles.F0SECOND.transcription = completeTranscription('二件目');
+    expect(postFileEvent('file_change', 'F0SECOND')).toBe('Transcription completed');
+    expect(postedMessages()).toHaveLength(0);
+
+    slackFiles.F0FIRST.transcription = completeTranscription('一件目');
+    postFileEvent('file_shared', 'F0FIRST');
+
+    expect(postedMessages()).toHaveLength(1);
+    expect(postedMessages()[0].text.indexOf('一件目')).toBeLessThan(postedMessages()[0].text.indexOf('二件目'));
+  });
+
+  it('falls back to polling with exponential backoff until a deadline scaled to the audio length', () => {
+    slackFiles.F0AUDIO = { ...audioFile('F0AUDIO', { status: 'processing' }), duration_ms: 10 * 60 * 1000 };
+    postEvent([slackFiles.F0AUDIO]);
+
+    const job = gas.getTranscriptionJob_('F0AUDIO');
+    expect(job.deadlineAt - job.createdAt).toBe(22 * 60 * 1000);
+
+    const intervals: number[] = [];
+    for (let i = 0; i < 7; i++) {
+      const before = Date.now();
+      runDispatcher(1);
+      intervals.push(gas.getTranscriptionJob_('F0AUDIO').nextAttemptAt - Math.max(before, Date.now()));
+    }
+    expect(intervals).toEqual([20000, 40000, 80000, 160000, 300000, 300000, 300000]);
+    expect(postedMessages()).toHaveLength(0);
+  });
+});